@@ -0,0 +1,231 @@
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+
+export interface BatchRow {
+  // From the manifest's `id` column, or the row number
+  id: string;
+  tool: string;
+  arguments: Record<string, any>;
+  // Of the tool and arguments, so an edited row runs again on resume
+  hash: string;
+}
+
+export type BatchRowStatus = 'completed' | 'failed';
+
+// One line of the output manifest
+export interface BatchResult {
+  id: string;
+  tool: string;
+  status: BatchRowStatus;
+  hash: string;
+  generation?: string;
+  request_id?: string;
+  files?: string[];
+  error?: string;
+  finished_at: string;
+}
+
+export const BATCH_CONCURRENCY = 4;
+export const MAX_BATCH_CONCURRENCY = 16;
+
+// Failed rows listed in run_batch's result; the output manifest has all of them
+const FAILED_ROWS_SHOWN = 10;
+
+// The JSON Schema properties of a tool's arguments, as listed by the server
+export type ArgumentTypes = (tool: string) => Record<string, { type?: unknown }> | undefined;
+
+// Rows of a .csv or .jsonl manifest. In a CSV the header names the arguments, and empty
+// cells are left out. Cells are strings unless the row's tool declares the argument as a
+// number, boolean, array or object, so a prompt of "123" stays a prompt. A JSONL row either
+// has an `arguments` object or gives the arguments at the top level.
+export function readManifest(file: string, defaultTool: string | undefined, argumentTypes: ArgumentTypes): BatchRow[] {
+  let text: string;
+  try {
+    text = fs.readFileSync(file, 'utf-8');
+  } catch (error: any) {
+    throw new Error(`Cannot read manifest ${file}: ${error.message}`);
+  }
+
+  const csv = /\.csv$/i.test(file);
+  const records = csv ? csvRecords(text) : jsonlRecords(text, file);
+  const rows = records.map(({ record, line }): BatchRow => {
+    const { id, tool = defaultTool, arguments: nested, ...rest } = record;
+    if (typeof tool !== 'string' || !tool) {
+      throw new Error(`Row ${line} of ${file} has no tool. Add a "tool" column or pass tool to run_batch.`);
+    }
+    const args = csv
+      ? coerceCells(rest, argumentTypes(tool) ?? {})
+      : nested && typeof nested === 'object' ? nested : rest;
+    return {
+      id: id === undefined || id === '' ? String(line) : String(id),
+      tool,
+      arguments: args,
+      hash: crypto.createHash('sha256').update(JSON.stringify([tool, args])).digest('hex').slice(0, 16)
+    };
+  });
+
+  const ids = rows.map((row) => row.id);
+  const duplicate = ids.find((id, index) => ids.indexOf(id) !== index);
+  if (duplicate) throw new Error(`Duplicate row id "${duplicate}" in ${file}`);
+  return rows;
+}
+
+// Where results go when run_batch is not given an output path: next to the manifest
+export function resultsPathFor(manifest: string): string {
+  const parsed = path.parse(manifest);
+  return path.join(parsed.dir, `${parsed.name}.results.jsonl`);
+}
+
+// The output manifest, appended to as rows finish. A later line for the same row
+// replaces an earlier one, so a resumed batch only adds lines.
+export class BatchResults {
+  private results = new Map<string, BatchResult>();
+
+  constructor(private file: string) {
+    let lines: string[] = [];
+    try {
+      lines = fs.readFileSync(file, 'utf-8').split('\n');
+    } catch {
+      // No results yet
+    }
+    for (const line of lines) {
+      if (!line.trim()) continue;
+      try {
+        const result: BatchResult = JSON.parse(line);
+        this.results.set(result.id, result);
+      } catch {
+        // Skip a line left half-written by a crash
+      }
+    }
+  }
+
+  // Whether the row already completed with the same tool and arguments
+  isDone(row: BatchRow): boolean {
+    const result = this.results.get(row.id);
+    return result?.status === 'completed' && result.hash === row.hash;
+  }
+
+  record(result: BatchResult): void {
+    this.results.set(result.id, result);
+    fs.mkdirSync(path.dirname(this.file), { recursive: true });
+    fs.appendFileSync(this.file, JSON.stringify(result) + '\n');
+  }
+}
+
+export function describeFailedRows(failed: { row: BatchRow; error: string }[], heading = 'Failed rows:'): string[] {
+  if (!failed.length) return [];
+  const shown = failed.slice(0, FAILED_ROWS_SHOWN).map(({ row, error }) => `- ${row.id} (${row.tool}): ${error}`);
+  const more = failed.length > FAILED_ROWS_SHOWN ? [`...and ${failed.length - FAILED_ROWS_SHOWN} more${heading === 'Failed rows:' ? ' in the output manifest' : ''}`] : [];
+  return ['', heading, ...shown, ...more];
+}
+
+// Run `worker` over the items, at most `concurrency` at a time. Stops starting new items once `signal` aborts.
+export async function runPool<T>(
+  items: T[],
+  concurrency: number,
+  worker: (item: T) => Promise<void>,
+  signal?: AbortSignal
+): Promise<void> {
+  let next = 0;
+  const lanes = Array.from({ length: Math.min(concurrency, items.length) }, async () => {
+    while (next < items.length && !signal?.aborted) {
+      await worker(items[next++]);
+    }
+  });
+  await Promise.all(lanes);
+}
+
+function jsonlRecords(text: string, file: string): { record: Record<string, any>; line: number }[] {
+  return text.split('\n').flatMap((content, index) => {
+    if (!content.trim()) return [];
+    try {
+      const record = JSON.parse(content);
+      if (!record || typeof record !== 'object' || Array.isArray(record)) throw new Error('expected an object');
+      return [{ record, line: index + 1 }];
+    } catch (error: any) {
+      throw new Error(`Line ${index + 1} of ${file} is not a JSON object: ${error.message}`);
+    }
+  });
+}
+
+// Rows are numbered by data row, not counting the header. Cells are left as strings.
+function csvRecords(text: string): { record: Record<string, string>; line: number }[] {
+  const [header, ...rows] = parseCsv(text).filter((cells) => cells.some((cell) => cell.trim()));
+  if (!header) return [];
+  const columns = header.map((column) => column.trim());
+  return rows.map((cells, index) => {
+    const record: Record<string, string> = {};
+    columns.forEach((column, position) => {
+      const cell = cells[position]?.trim();
+      if (!column || cell === undefined || cell === '') return;
+      record[column] = cell;
+    });
+    return { record, line: index + 1 };
+  });
+}
+
+// Cells that do not parse as their declared type are passed on as they are, for the
+// tool's own validation to report
+function coerceCells(cells: Record<string, string>, properties: Record<string, { type?: unknown }>): Record<string, any> {
+  return Object.fromEntries(Object.entries(cells).map(([column, cell]) => [column, coerceCell(cell, properties[column]?.type)]));
+}
+
+function coerceCell(cell: string, type: unknown): any {
+  switch (type) {
+    case 'number':
+    case 'integer':
+      return /^-?\d+(\.\d+)?$/.test(cell) ? Number(cell) : cell;
+    case 'boolean':
+      return cell === 'true' ? true : cell === 'false' ? false : cell;
+    case 'array':
+    case 'object':
+      try {
+        return JSON.parse(cell);
+      } catch {
+        return cell;
+      }
+    default:
+      return cell;
+  }
+}
+
+// RFC 4180: quoted cells may contain commas, newlines and "" for a quote
+function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+  if (cell || row.length) {
+    row.push(cell);
+    rows.push(row);
+  }
+  return rows;
+}
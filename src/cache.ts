@@ -0,0 +1,256 @@
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import { Config } from './config.js';
+import { formatUsd } from './pricing.js';
+
+export interface CacheOptions {
+  dir: string;
+  // Entries older than this many milliseconds are not used
+  ttl: number;
+  // The least recently used entries are evicted above this many bytes of cached files
+  maxBytes: number;
+}
+
+// `bypass` neither reads nor writes the cache; `refresh` runs the model and replaces the entry
+export type CacheMode = 'bypass' | 'refresh';
+
+export interface CachedFile {
+  // Where fal served the file, as it appears in `data`
+  url: string;
+  // File name inside the cache's files directory
+  file: string;
+  bytes: number;
+}
+
+export interface CacheEntry {
+  key: string;
+  tool: string;
+  endpoint: string;
+  // The fal request that produced the result
+  request_id: string;
+  // The fal result, with the original file URLs
+  data: any;
+  files: CachedFile[];
+  bytes: number;
+  // What the original call cost, and so what each hit saved
+  usd: number | null;
+  created_at: string;
+  last_used_at: string;
+  hits: number;
+}
+
+interface CacheIndex {
+  entries: Record<string, CacheEntry>;
+  hits: number;
+  misses: number;
+  saved_usd: number;
+}
+
+export interface CacheStats {
+  entries: number;
+  bytes: number;
+  max_bytes: number;
+  ttl_hours: number;
+  hits: number;
+  misses: number;
+  saved_usd: number;
+  oldest?: string;
+  newest?: string;
+  by_tool: Record<string, { entries: number; bytes: number }>;
+}
+
+// Finished results keyed by endpoint and input, so an identical request is answered from
+// disk instead of being paid for again. Outputs are copied into the cache directory, since
+// the saved files may be moved or edited.
+export class ResultCache {
+  private index: CacheIndex;
+  private indexFile: string;
+  private filesDir: string;
+
+  constructor(private options: CacheOptions) {
+    this.indexFile = path.join(options.dir, 'index.json');
+    this.filesDir = path.join(options.dir, 'files');
+    this.index = this.load();
+  }
+
+  // A hash of the endpoint and its input with object keys sorted. Input files from disk,
+  // whether still local or already uploaded, count by their content, which `hashOf` finds.
+  keyFor(endpoint: string, input: Record<string, any>, hashOf: (value: string) => string | undefined): string {
+    const normalize = (value: any, isUrl = false): any => {
+      if (typeof value === 'string' && isUrl) {
+        const hash = hashOf(value);
+        return hash ? `sha256:${hash}` : value;
+      }
+      if (Array.isArray(value)) return value.map((item) => normalize(item, isUrl));
+      if (!value || typeof value !== 'object') return value;
+      return Object.fromEntries(
+        Object.keys(value)
+          .filter((key) => value[key] !== undefined)
+          .sort()
+          .map((key) => [key, normalize(value[key], /_urls?$/.test(key))])
+      );
+    };
+    return crypto.createHash('sha256').update(JSON.stringify([endpoint, normalize(input)])).digest('hex');
+  }
+
+  // The entry for a key, counted as a hit, or undefined (a miss) when there is none, it
+  // has expired or its files have gone
+  get(key: string): CacheEntry | undefined {
+    const entry = this.index.entries[key];
+    const usable = entry && !this.isExpired(entry) && entry.files.every((file) => fs.existsSync(this.pathOf(file)));
+    if (!usable) {
+      if (entry) this.remove(entry);
+      this.index.misses += 1;
+      this.save();
+      return undefined;
+    }
+    entry.hits += 1;
+    entry.last_used_at = new Date().toISOString();
+    this.index.hits += 1;
+    this.index.saved_usd += entry.usd ?? 0;
+    this.save();
+    return entry;
+  }
+
+  // Cached copies by the URL they were downloaded from, for finishCall to save from
+  filesFor(entry: CacheEntry): Map<string, string> {
+    return new Map(entry.files.map((file) => [file.url, this.pathOf(file)]));
+  }
+
+  // Store a finished call's saved outputs, replacing any entry with the same key
+  put(
+    key: string,
+    result: { tool: string; endpoint: string; requestId: string; data: any; usd: number | null },
+    saved: { path: string; url: string }[]
+  ): void {
+    const existing = this.index.entries[key];
+    if (existing) this.remove(existing);
+
+    const bytes = saved.reduce((sum, file) => sum + fs.statSync(file.path).size, 0);
+    // One result larger than the whole cache would evict everything and still not fit
+    if (bytes > this.options.maxBytes) return;
+
+    fs.mkdirSync(this.filesDir, { recursive: true });
+    const files = saved.map((file, index): CachedFile => {
+      const name = `${key.slice(0, 32)}-${index + 1}${path.extname(file.path)}`;
+      fs.copyFileSync(file.path, path.join(this.filesDir, name));
+      return { url: file.url, file: name, bytes: fs.statSync(file.path).size };
+    });
+    const now = new Date().toISOString();
+    this.index.entries[key] = {
+      key,
+      tool: result.tool,
+      endpoint: result.endpoint,
+      request_id: result.requestId,
+      data: result.data,
+      files,
+      bytes,
+      usd: result.usd,
+      created_at: now,
+      last_used_at: now,
+      hits: 0
+    };
+    this.evict();
+    this.save();
+  }
+
+  stats(): CacheStats {
+    this.evict();
+    this.save();
+    const entries = Object.values(this.index.entries);
+    const byTool: CacheStats['by_tool'] = {};
+    for (const entry of entries) {
+      byTool[entry.tool] = { entries: (byTool[entry.tool]?.entries ?? 0) + 1, bytes: (byTool[entry.tool]?.bytes ?? 0) + entry.bytes };
+    }
+    const created = entries.map((entry) => entry.created_at).sort();
+    return {
+      entries: entries.length,
+      bytes: this.totalBytes(),
+      max_bytes: this.options.maxBytes,
+      ttl_hours: this.options.ttl / 3600000,
+      hits: this.index.hits,
+      misses: this.index.misses,
+      saved_usd: this.index.saved_usd,
+      ...(created.length > 0 && { oldest: created[0], newest: created[created.length - 1] }),
+      by_tool: byTool
+    };
+  }
+
+  // Remove entries, all of them or only one tool's or only expired ones. Returns what was removed.
+  clear({ tool, expired }: { tool?: string; expired?: boolean } = {}): { entries: number; bytes: number } {
+    const removed = Object.values(this.index.entries)
+      .filter((entry) => (!tool || entry.tool === tool) && (!expired || this.isExpired(entry)));
+    for (const entry of removed) this.remove(entry);
+    this.save();
+    return { entries: removed.length, bytes: removed.reduce((sum, entry) => sum + entry.bytes, 0) };
+  }
+
+  private isExpired(entry: CacheEntry): boolean {
+    return Date.now() - Date.parse(entry.created_at) > this.options.ttl;
+  }
+
+  // Expired entries first, then the least recently used until the files fit
+  private evict(): void {
+    for (const entry of Object.values(this.index.entries)) {
+      if (this.isExpired(entry)) this.remove(entry);
+    }
+    const byLastUse = Object.values(this.index.entries).sort((a, b) => a.last_used_at.localeCompare(b.last_used_at));
+    while (this.totalBytes() > this.options.maxBytes && byLastUse.length) {
+      this.remove(byLastUse.shift()!);
+    }
+  }
+
+  private totalBytes(): number {
+    return Object.values(this.index.entries).reduce((sum, entry) => sum + entry.bytes, 0);
+  }
+
+  private remove(entry: CacheEntry): void {
+    for (const file of entry.files) fs.rmSync(this.pathOf(file), { force: true });
+    delete this.index.entries[entry.key];
+  }
+
+  private pathOf(file: CachedFile): string {
+    return path.join(this.filesDir, file.file);
+  }
+
+  private load(): CacheIndex {
+    try {
+      return { entries: {}, hits: 0, misses: 0, saved_usd: 0, ...JSON.parse(fs.readFileSync(this.indexFile, 'utf-8')) };
+    } catch {
+      return { entries: {}, hits: 0, misses: 0, saved_usd: 0 };
+    }
+  }
+
+  private save(): void {
+    try {
+      fs.mkdirSync(this.options.dir, { recursive: true });
+      fs.writeFileSync(this.indexFile, JSON.stringify(this.index, null, 2));
+    } catch (error: any) {
+      console.error(`Failed to write result cache index: ${error.message}`);
+    }
+  }
+}
+
+export function describeCacheStats(stats: CacheStats, dir: string): string {
+  const lines = [
+    `Result cache: ${stats.entries} ${stats.entries === 1 ? 'entry' : 'entries'}, ${megabytes(stats.bytes)} of ${megabytes(stats.max_bytes)} used (${dir})`,
+    `Entries expire after ${stats.ttl_hours} ${stats.ttl_hours === 1 ? 'hour' : 'hours'}.`,
+    `Hits: ${stats.hits}, misses: ${stats.misses}, saving about ${formatUsd(stats.saved_usd)}`
+  ];
+  if (stats.oldest) lines.push(`Oldest entry: ${stats.oldest}, newest: ${stats.newest}`);
+  const tools = Object.entries(stats.by_tool).sort(([, a], [, b]) => b.bytes - a.bytes);
+  if (tools.length) {
+    lines.push('', 'By tool:', ...tools.map(([tool, { entries, bytes }]) => `- ${tool}: ${entries} ${entries === 1 ? 'entry' : 'entries'}, ${megabytes(bytes)}`));
+  }
+  return lines.join('\n');
+}
+
+export function megabytes(bytes: number): string {
+  return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+}
+
+// Undefined unless the cache is turned on
+export function createResultCache(config: Config): ResultCache | undefined {
+  return config.cache && new ResultCache(config.cache);
+}
@@ -0,0 +1,57 @@
+import * as path from 'path';
+import { formatUsd } from './pricing.js';
+
+export const MAX_COMPARED_MODELS = 8;
+export const MAX_COMPARED_SEEDS = 8;
+
+// One model and seed in a comparison
+export interface ComparisonRun {
+  // The model as the caller named it, also used in file names
+  model: string;
+  endpoint: string;
+  seed?: number;
+  status: 'completed' | 'failed' | 'planned';
+  // Wall time from submission to saved output, including any wait in the queues
+  ms?: number;
+  // What fal reports for the inference alone, in seconds
+  inferenceSeconds?: number;
+  usd: number | null;
+  files: string[];
+  error?: string;
+}
+
+// A label safe for file names, e.g. "fal-ai/flux/dev" → "fal-ai-flux-dev"
+export function runLabel(model: string): string {
+  return model.replace(/[^\w.-]+/g, '-').replace(/^-+|-+$/g, '') || 'model';
+}
+
+// Seeds for fal models are 32-bit
+export function randomSeed(): number {
+  return Math.floor(Math.random() * 2 ** 31);
+}
+
+// Markdown table of every run: endpoint, seed, time, cost and output
+export function describeComparison(runs: ComparisonRun[]): string {
+  const withSeeds = runs.some((run) => run.seed !== undefined);
+  const header = ['Model', 'Endpoint', ...(withSeeds ? ['Seed'] : []), 'Time', 'Cost', 'Output'];
+  const lines = [`| ${header.join(' | ')} |`, `|${header.map(() => '---').join('|')}|`];
+
+  for (const run of runs) {
+    const time = run.ms === undefined
+      ? '—'
+      : `${(run.ms / 1000).toFixed(1)}s${run.inferenceSeconds !== undefined ? ` (${run.inferenceSeconds.toFixed(1)}s inference)` : ''}`;
+    const output = run.status === 'failed'
+      ? `failed: ${(run.error ?? 'unknown error').split('\n')[0].replace(/\|/g, '/')}`
+      : run.files.map((file) => path.basename(file)).join(', ') || '—';
+    const cells = [
+      run.model,
+      run.endpoint,
+      ...(withSeeds ? [run.seed === undefined ? '—' : String(run.seed)] : []),
+      time,
+      run.usd === null ? 'unknown' : formatUsd(run.usd),
+      output
+    ];
+    lines.push(`| ${cells.join(' | ')} |`);
+  }
+  return lines.join('\n');
+}
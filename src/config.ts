@@ -1,7 +1,83 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { z } from 'zod';
+import { CacheOptions } from './cache.js';
+import { CircuitBreakerOptions, RetryPolicy } from './retry.js';
+import { ConfirmationPolicy } from './confirm.js';
+import { HttpOptions } from './http.js';
+import { MockOptions } from './mock.js';
+import { PreviewOptions } from './preview.js';
+import { ConcurrencyOptions } from './scheduler.js';
+import { Workflow, workflowSchema } from './workflow.js';
+
 export interface Config {
   apiKey: string;
   timeout: number;
+  // For long-running tools (video, music, 3D) that set no timeout of their own
+  longTimeout: number;
   outputDir: string;
+  uploadUrl?: string;
+  // File name template for saved outputs, see renderFilename
+  filenameTemplate: string;
+  // Write a provenance .json next to each output, and optionally embed it in PNG/MP4 files
+  sidecars: boolean;
+  embedMetadata: boolean;
+  preview: PreviewOptions;
+  // Default for the enhance_prompt argument
+  enhancePrompts: boolean;
+  models: Partial<Record<Capability, ModelOverride>>;
+  // Price overrides by endpoint id, merged over PRICES
+  pricing: Record<string, Price>;
+  budgets: Budgets;
+  retry: RetryPolicy;
+  circuitBreaker: CircuitBreakerOptions;
+  concurrency: ConcurrencyOptions;
+  confirmation: ConfirmationPolicy;
+  // Named workflows for run_workflow
+  workflows: Record<string, Workflow>;
+  // Serve over HTTP instead of stdio
+  http?: HttpOptions;
+  // Answer fal requests locally instead of (or while recording) real calls
+  mock?: MockOptions;
+  // Reuse the outputs of identical earlier requests; off unless turned on
+  cache?: CacheOptions;
+  // Per-tool settings by tool name
+  tools: Record<string, ToolSettings>;
+  // Config files that were read, user-level first; later files override earlier ones
+  configFiles: string[];
+}
+
+export interface ToolSettings {
+  timeout?: number;
+  // Arguments used when a call does not give them
+  defaults?: Record<string, any>;
+  // Where outputs go when a call gives no save_path, resolved against outputDir
+  outputDir?: string;
+}
+
+// Per-capability model settings from the config file or FAL_MODEL_* env vars
+export interface ModelOverride {
+  default?: string;
+  aliases?: Record<string, string>;
+  // Where the default came from, reported by list_models
+  source?: string;
+}
+
+// What one unit of a model's output costs in USD. Quantities the input does not state
+// (e.g. the length of a video to upscale) are assumed to be `assume` units.
+export interface Price {
+  usd: number;
+  unit: 'request' | 'image' | 'megapixel' | 'second' | '1k_characters';
+  assume?: number;
+}
+
+// Spending caps in USD, checked before a request is submitted
+export interface Budgets {
+  daily?: number;
+  monthly?: number;
+  // Run calls to endpoints without a known price while a budget is set, without counting them
+  allowUnpriced?: boolean;
 }
 
 // Best-in-class model for each capability
@@ -39,26 +115,513 @@ export const MODELS = {
   RETEXTURE_3D: 'fal-ai/meshy/retexture',
 } as const;
 
+export type Capability = keyof typeof MODELS;
+
+// How tool descriptions name the built-in models
+export const MODEL_NAMES: Record<Capability, string> = {
+  TEXT_TO_IMAGE: 'Flux Pro Kontext Max',
+  EDIT_IMAGE: 'Flux Pro Kontext Max',
+  IMAGE_TO_IMAGE: 'Flux General',
+  INPAINT: 'Flux General Inpainting',
+  STYLE_TRANSFER: 'Flux Schnell Redux',
+  TEXT_TO_VIDEO: 'Kling v3 Pro',
+  IMAGE_TO_VIDEO: 'Kling v3 Pro',
+  LIPSYNC: 'Sync LipSync v2',
+  AVATAR_VIDEO: 'ByteDance OmniHuman v1.5',
+  UPSCALE_IMAGE: 'Topaz AI',
+  UPSCALE_VIDEO: 'Topaz AI',
+  REMOVE_BACKGROUND: 'Bria RMBG 2.0',
+  REMOVE_VIDEO_BACKGROUND: 'Bria Video Background Removal',
+  FACE_SWAP_IMAGE: 'fal AI-FaceSwap',
+  FACE_SWAP_VIDEO: 'fal AI-FaceSwap',
+  SEGMENT_IMAGE: 'SAM 3',
+  ESTIMATE_DEPTH: 'Marigold Depth Estimation',
+  GENERATE_MUSIC: 'Beatoven',
+  TEXT_TO_SPEECH: 'MiniMax Speech-02 HD',
+  SOUND_EFFECT: 'Stable Audio',
+  IMAGE_TO_3D: 'Tripo3D',
+  RETEXTURE_3D: 'Meshy-5 Retexture'
+};
+
+// Built-in alternatives, selectable per call with the `model` argument
+export const MODEL_ALTERNATES: Partial<Record<Capability, Record<string, string>>> = {
+  TEXT_TO_IMAGE: {
+    'flux-pro-ultra': 'fal-ai/flux-pro/v1.1-ultra',
+    'flux-dev': 'fal-ai/flux/dev',
+    'flux-schnell': 'fal-ai/flux/schnell'
+  },
+  EDIT_IMAGE: {
+    'kontext-pro': 'fal-ai/flux-pro/kontext'
+  },
+  TEXT_TO_VIDEO: {
+    'kling-2.5-turbo': 'fal-ai/kling-video/v2.5-turbo/pro/text-to-video',
+    'kling-2.1-master': 'fal-ai/kling-video/v2.1/master/text-to-video'
+  },
+  IMAGE_TO_VIDEO: {
+    'kling-2.5-turbo': 'fal-ai/kling-video/v2.5-turbo/pro/image-to-video',
+    'kling-2.1-master': 'fal-ai/kling-video/v2.1/master/image-to-video'
+  }
+};
+
+// Approximate fal.ai list prices, keyed by endpoint. Override or extend with the
+// `pricing` section of the config file.
+export const PRICES: Record<string, Price> = {
+  [MODELS.TEXT_TO_IMAGE]: { usd: 0.08, unit: 'image' },
+  [MODELS.EDIT_IMAGE]: { usd: 0.08, unit: 'image' },
+  [MODELS.IMAGE_TO_IMAGE]: { usd: 0.075, unit: 'megapixel' },
+  [MODELS.INPAINT]: { usd: 0.075, unit: 'megapixel' },
+  [MODELS.STYLE_TRANSFER]: { usd: 0.025, unit: 'megapixel' },
+  [MODELS.TEXT_TO_VIDEO]: { usd: 0.112, unit: 'second', assume: 5 },
+  [MODELS.IMAGE_TO_VIDEO]: { usd: 0.112, unit: 'second', assume: 5 },
+  [MODELS.LIPSYNC]: { usd: 0.05, unit: 'second', assume: 10 },
+  [MODELS.AVATAR_VIDEO]: { usd: 0.16, unit: 'second', assume: 10 },
+  [MODELS.UPSCALE_IMAGE]: { usd: 0.08, unit: 'image' },
+  [MODELS.UPSCALE_VIDEO]: { usd: 0.08, unit: 'second', assume: 10 },
+  [MODELS.REMOVE_BACKGROUND]: { usd: 0.018, unit: 'image' },
+  [MODELS.REMOVE_VIDEO_BACKGROUND]: { usd: 0.14, unit: 'second', assume: 10 },
+  [MODELS.FACE_SWAP_IMAGE]: { usd: 0.02, unit: 'image' },
+  [MODELS.FACE_SWAP_VIDEO]: { usd: 0.1, unit: 'second', assume: 10 },
+  [MODELS.SEGMENT_IMAGE]: { usd: 0.005, unit: 'request' },
+  [MODELS.ESTIMATE_DEPTH]: { usd: 0.01, unit: 'request' },
+  [MODELS.GENERATE_MUSIC]: { usd: 0.1, unit: 'request' },
+  [MODELS.TEXT_TO_SPEECH]: { usd: 0.1, unit: '1k_characters' },
+  [MODELS.SOUND_EFFECT]: { usd: 0.2, unit: 'request' },
+  [MODELS.IMAGE_TO_3D]: { usd: 0.3, unit: 'request' },
+  [MODELS.RETEXTURE_3D]: { usd: 0.4, unit: 'request' },
+
+  // Built-in alternatives
+  'fal-ai/flux-pro/v1.1-ultra': { usd: 0.06, unit: 'image' },
+  'fal-ai/flux/dev': { usd: 0.025, unit: 'megapixel' },
+  'fal-ai/flux/schnell': { usd: 0.003, unit: 'megapixel' },
+  'fal-ai/flux-pro/kontext': { usd: 0.04, unit: 'image' },
+  'fal-ai/kling-video/v2.5-turbo/pro/text-to-video': { usd: 0.07, unit: 'second', assume: 5 },
+  'fal-ai/kling-video/v2.5-turbo/pro/image-to-video': { usd: 0.07, unit: 'second', assume: 5 },
+  'fal-ai/kling-video/v2.1/master/text-to-video': { usd: 0.28, unit: 'second', assume: 5 },
+  'fal-ai/kling-video/v2.1/master/image-to-video': { usd: 0.28, unit: 'second', assume: 5 }
+};
+
+// Capability behind each media tool. Long-running tools get the extended timeout.
+// Deterministic tools give the same output for the same input, so the result cache may
+// answer them without a seed.
+export const TOOL_MODELS: Record<string, { capability: Capability; long: boolean; deterministic?: boolean }> = {
+  generate_image: { capability: 'TEXT_TO_IMAGE', long: false },
+  edit_image: { capability: 'EDIT_IMAGE', long: false },
+  image_to_image: { capability: 'IMAGE_TO_IMAGE', long: false },
+  inpaint: { capability: 'INPAINT', long: false },
+  style_transfer: { capability: 'STYLE_TRANSFER', long: false },
+  text_to_video: { capability: 'TEXT_TO_VIDEO', long: true },
+  image_to_video: { capability: 'IMAGE_TO_VIDEO', long: true },
+  lipsync: { capability: 'LIPSYNC', long: true },
+  avatar_video: { capability: 'AVATAR_VIDEO', long: true },
+  upscale_image: { capability: 'UPSCALE_IMAGE', long: false, deterministic: true },
+  upscale_video: { capability: 'UPSCALE_VIDEO', long: true, deterministic: true },
+  remove_background: { capability: 'REMOVE_BACKGROUND', long: false, deterministic: true },
+  remove_video_background: { capability: 'REMOVE_VIDEO_BACKGROUND', long: true, deterministic: true },
+  face_swap_image: { capability: 'FACE_SWAP_IMAGE', long: false },
+  face_swap_video: { capability: 'FACE_SWAP_VIDEO', long: true },
+  segment_image: { capability: 'SEGMENT_IMAGE', long: false, deterministic: true },
+  estimate_depth: { capability: 'ESTIMATE_DEPTH', long: false, deterministic: true },
+  generate_music: { capability: 'GENERATE_MUSIC', long: true },
+  text_to_speech: { capability: 'TEXT_TO_SPEECH', long: false },
+  generate_sound_effect: { capability: 'SOUND_EFFECT', long: false },
+  image_to_3d: { capability: 'IMAGE_TO_3D', long: true },
+  retexture_3d: { capability: 'RETEXTURE_3D', long: true }
+};
+
+const modelEntrySchema = z.union([
+  z.string().min(1),
+  z.object({
+    default: z.string().min(1).optional(),
+    aliases: z.record(z.string().min(1)).optional()
+  })
+]);
+
+const priceSchema = z.object({
+  usd: z.number().min(0),
+  unit: z.enum(['request', 'image', 'megapixel', 'second', '1k_characters']),
+  assume: z.number().positive().optional()
+});
+
+const budgetSchema = z.number().positive();
+
+const toolSettingsSchema = z.object({
+  timeout: z.number().int().positive().optional(),
+  defaults: z.record(z.any()).optional(),
+  output_dir: z.string().min(1).optional()
+});
+
+const configFileSchema = z.object({
+  timeout: z.number().int().positive().optional(),
+  long_timeout: z.number().int().positive().optional(),
+  output_dir: z.string().min(1).optional(),
+  filename_template: z.string().min(1).optional(),
+  tools: z.record(toolSettingsSchema).optional(),
+  models: z.record(modelEntrySchema).optional(),
+  pricing: z.record(priceSchema).optional(),
+  budgets: z.object({
+    daily: budgetSchema.optional(),
+    monthly: budgetSchema.optional(),
+    allow_unpriced: z.boolean().optional()
+  }).optional(),
+  concurrency: z.object({
+    fast: z.number().int().positive().optional(),
+    long: z.number().int().positive().optional(),
+    queue: z.number().int().positive().optional(),
+    models: z.record(z.number().int().positive()).optional()
+  }).optional(),
+  confirm: z.object({
+    tools: z.array(z.string()).optional(),
+    min_usd: z.number().nonnegative().nullable().optional(),
+    fallback: z.enum(['allow', 'deny']).optional()
+  }).optional(),
+  workflows: z.record(workflowSchema).optional(),
+  cache: z.object({
+    enabled: z.boolean().optional(),
+    ttl_hours: z.number().positive().optional(),
+    max_mb: z.number().positive().optional(),
+    dir: z.string().min(1).optional()
+  }).optional()
+});
+
+type ConfigFile = z.infer<typeof configFileSchema>;
+
+// Project-level config file names, looked for in the current directory in this order
+const PROJECT_CONFIG_FILES = ['fal.config.json', '.falrc.json'];
+
+// The user-level file, then FAL_CONFIG or the project's own file
+function findConfigFiles(): string[] {
+  const userFile = path.join(os.homedir(), '.falrc.json');
+  const projectFile = process.env.FAL_CONFIG
+    ? path.resolve(process.env.FAL_CONFIG)
+    : PROJECT_CONFIG_FILES.map((name) => path.resolve(name)).find((file) => fs.existsSync(file));
+  return [...(fs.existsSync(userFile) && userFile !== projectFile ? [userFile] : []), ...(projectFile ? [projectFile] : [])];
+}
+
+function readConfigFile(configFile: string): ConfigFile {
+  let parsed: ConfigFile;
+  try {
+    parsed = configFileSchema.parse(JSON.parse(fs.readFileSync(configFile, 'utf-8')));
+  } catch (error: any) {
+    throw new Error(`Invalid config file ${configFile}: ${error.message}`);
+  }
+  // A relative output_dir or cache dir is relative to the file that sets it
+  if (parsed.output_dir) parsed.output_dir = path.resolve(path.dirname(configFile), parsed.output_dir);
+  if (parsed.cache?.dir) parsed.cache.dir = path.resolve(path.dirname(configFile), parsed.cache.dir);
+  return parsed;
+}
+
+// Objects are merged key by key; anything else in `over` replaces what is in `base`
+function mergeLayers(base: any, over: any): any {
+  if (!isPlainObject(base) || !isPlainObject(over)) return over === undefined ? base : over;
+  const merged = { ...base };
+  for (const [key, value] of Object.entries(over)) merged[key] = mergeLayers(base[key], value);
+  return merged;
+}
+
+function isPlainObject(value: unknown): value is Record<string, any> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function describeFiles(configFiles: string[]): string {
+  return configFiles.join(' or ') || 'the config file';
+}
+
+function isCapability(key: string): key is Capability {
+  return key in MODELS;
+}
+
+function loadModelOverrides(parsed: ConfigFile, configFiles: string[]): Partial<Record<Capability, ModelOverride>> {
+  const models: Partial<Record<Capability, ModelOverride>> = {};
+
+  for (const [key, entry] of Object.entries(parsed.models ?? {})) {
+    if (!isCapability(key)) {
+      throw new Error(`Unknown capability "${key}" in ${describeFiles(configFiles)}. Valid capabilities: ${Object.keys(MODELS).join(', ')}`);
+    }
+    const override = typeof entry === 'string' ? { default: entry } : entry;
+    models[key] = { ...override, source: override.default ? `config file ${describeFiles(configFiles)}` : undefined };
+  }
+
+  // FAL_MODEL_<CAPABILITY> takes precedence over the config file
+  for (const key of Object.keys(MODELS)) {
+    const value = process.env[`FAL_MODEL_${key}`];
+    if (value && isCapability(key)) {
+      models[key] = { ...models[key], default: value, source: `FAL_MODEL_${key} environment variable` };
+    }
+  }
+
+  return models;
+}
+
+// FAL_BUDGET_DAILY / FAL_BUDGET_MONTHLY / FAL_BUDGET_ALLOW_UNPRICED take precedence over the config file
+function loadBudgets(parsed: ConfigFile): Budgets {
+  const { allow_unpriced: allowUnpriced, ...caps } = parsed.budgets ?? {};
+  const budgets: Budgets = { ...caps, ...(allowUnpriced !== undefined && { allowUnpriced }) };
+  for (const period of ['daily', 'monthly'] as const) {
+    const value = process.env[`FAL_BUDGET_${period.toUpperCase()}`];
+    if (!value) continue;
+    const amount = parseFloat(value);
+    if (!(amount > 0)) throw new Error(`FAL_BUDGET_${period.toUpperCase()} must be a positive number of USD`);
+    budgets[period] = amount;
+  }
+  const flag = process.env.FAL_BUDGET_ALLOW_UNPRICED;
+  if (flag !== undefined) budgets.allowUnpriced = flag === '1' || flag === 'true';
+  return budgets;
+}
+
+// Tools that are costly or sensitive enough to confirm by default
+const CONFIRM_TOOLS = ['face_swap_video', 'avatar_video', 'upscale_video'];
+
+// FAL_CONFIRM_* take precedence over the config file's "confirm" section
+function loadConfirmation(parsed: ConfigFile, configFiles: string[]): ConfirmationPolicy {
+  const envTools = process.env.FAL_CONFIRM_TOOLS;
+  const tools = envTools !== undefined
+    ? envTools.split(',').map((tool) => tool.trim()).filter(Boolean)
+    : parsed.confirm?.tools ?? CONFIRM_TOOLS;
+  for (const tool of tools) {
+    if (!isMediaTool(tool)) {
+      throw new Error(`Unknown tool "${tool}" in ${envTools !== undefined ? 'FAL_CONFIRM_TOOLS' : describeFiles(configFiles)}`);
+    }
+  }
+
+  let minUsd = parsed.confirm?.min_usd === undefined ? 1 : parsed.confirm.min_usd;
+  const envMinUsd = process.env.FAL_CONFIRM_MIN_USD;
+  if (envMinUsd) {
+    minUsd = parseFloat(envMinUsd);
+    if (!(minUsd >= 0)) throw new Error('FAL_CONFIRM_MIN_USD must be a number of USD (0 turns the threshold off)');
+  }
+
+  // Most clients cannot ask yet, so by default they keep running these calls as before
+  const fallback = process.env.FAL_CONFIRM_FALLBACK ?? parsed.confirm?.fallback ?? 'allow';
+  if (fallback !== 'allow' && fallback !== 'deny') throw new Error('FAL_CONFIRM_FALLBACK must be "allow" or "deny"');
+
+  return { tools, minUsd: minUsd || undefined, fallback };
+}
+
+function loadWorkflows(parsed: ConfigFile, configFiles: string[]): Record<string, Workflow> {
+  const workflows = parsed.workflows ?? {};
+  for (const [name, workflow] of Object.entries(workflows)) {
+    const unknown = workflow.steps.find((step) => !isMediaTool(step.tool));
+    if (unknown) throw new Error(`Unknown tool "${unknown.tool}" in workflow "${name}" in ${describeFiles(configFiles)}`);
+  }
+  return workflows;
+}
+
+// Tools that call a fal model, and so can have confirmation, timeouts and defaults
+function isMediaTool(tool: string): boolean {
+  return tool in TOOL_MODELS || tool === 'run_model';
+}
+
+// FAL_TIMEOUT_<TOOL> takes precedence over the config file's "tools" section
+function loadToolSettings(parsed: ConfigFile, configFiles: string[]): Record<string, ToolSettings> {
+  const tools: Record<string, ToolSettings> = {};
+  for (const [tool, settings] of Object.entries(parsed.tools ?? {})) {
+    if (!isMediaTool(tool)) throw new Error(`Unknown tool "${tool}" in the "tools" section of ${describeFiles(configFiles)}`);
+    tools[tool] = { timeout: settings.timeout, defaults: settings.defaults, outputDir: settings.output_dir };
+  }
+  for (const tool of [...Object.keys(TOOL_MODELS), 'run_model']) {
+    const name = `FAL_TIMEOUT_${tool.toUpperCase()}`;
+    if (process.env[name]) tools[tool] = { ...tools[tool], timeout: positiveInt(name, 0) };
+  }
+  return tools;
+}
+
+// The timeout for one call of a tool: its own, or the one for fast or long-running tools
+export function timeoutFor(config: Config, tool: string, long: boolean): number {
+  return config.tools[tool]?.timeout ?? (long ? config.longTimeout : config.timeout);
+}
+
+// Where a tool's outputs go when a call gives no save_path
+export function outputDirFor(config: Config, tool: string | undefined): string {
+  const subdirectory = tool ? config.tools[tool]?.outputDir : undefined;
+  return subdirectory ? path.resolve(config.outputDir, subdirectory) : config.outputDir;
+}
+
+// The effective configuration for show_config, with the API key and tokens hidden
+export function describeConfig(config: Config): Record<string, any> {
+  const { apiKey, http, uploadUrl, ...rest } = config;
+  return {
+    apiKey: redact(apiKey),
+    ...rest,
+    uploadUrl: uploadUrl && redactUrl(uploadUrl),
+    http: http && { ...http, tokens: http.tokens.map(redact) }
+  };
+}
+
+function redact(secret: string): string {
+  return secret.length > 12 ? `${secret.slice(0, 4)}…${secret.slice(-4)} (redacted)` : '(redacted)';
+}
+
+// Credentials can be given in the user info or the query string
+function redactUrl(value: string): string {
+  try {
+    const url = new URL(value);
+    if (url.username || url.password) url.username = url.password = 'redacted';
+    for (const key of [...url.searchParams.keys()]) url.searchParams.set(key, 'redacted');
+    return url.toString();
+  } catch {
+    return '(redacted)';
+  }
+}
+
+// --name value or --name=value on the command line
+function cliOption(name: string): string | undefined {
+  const args = process.argv.slice(2);
+  const index = args.findIndex((arg) => arg === `--${name}` || arg.startsWith(`--${name}=`));
+  if (index === -1) return undefined;
+  const arg = args[index];
+  return arg.includes('=') ? arg.slice(arg.indexOf('=') + 1) : args[index + 1];
+}
+
+function list(value: string | undefined): string[] {
+  return (value ?? '').split(',').map((item) => item.trim()).filter(Boolean);
+}
+
+// `--http` or FAL_TRANSPORT=http switches from stdio; command-line options take precedence
+function loadHttp(): HttpOptions | undefined {
+  const transport = process.argv.includes('--http') ? 'http' : cliOption('transport') ?? process.env.FAL_TRANSPORT ?? 'stdio';
+  if (transport === 'stdio') return undefined;
+  if (transport !== 'http') throw new Error(`Unknown transport "${transport}". Use stdio or http.`);
+
+  const host = cliOption('host') ?? process.env.FAL_HTTP_HOST ?? '127.0.0.1';
+  const portValue = cliOption('port') ?? process.env.FAL_HTTP_PORT;
+  const port = portValue ? parseInt(portValue, 10) : 3000;
+  if (!(port > 0 && port < 65536)) throw new Error('FAL_HTTP_PORT must be a port number');
+
+  const tokens = list(process.env.FAL_HTTP_TOKENS);
+  const loopback = ['127.0.0.1', '::1', 'localhost'].includes(host);
+  if (!tokens.length && !loopback) {
+    throw new Error(`FAL_HTTP_TOKENS is required when listening on ${host}, so that only your team can use the fal account`);
+  }
+  return {
+    host,
+    port,
+    tokens,
+    corsOrigins: list(process.env.FAL_HTTP_CORS_ORIGINS),
+    allowedDirs: list(process.env.FAL_HTTP_ALLOWED_DIRS).map((dir) => path.resolve(dir))
+  };
+}
+
+function positiveInt(name: string, fallback: number): number {
+  const value = process.env[name];
+  if (!value) return fallback;
+  const parsed = parseInt(value, 10);
+  if (!(parsed > 0)) throw new Error(`${name} must be a positive number`);
+  return parsed;
+}
+
+// FAL_MOCK=1 for made-up results, record to save real results as fixtures, replay to serve them
+function loadMock(): MockOptions | undefined {
+  const value = process.env.FAL_MOCK;
+  if (!value || value === '0' || value === 'false') return undefined;
+  const mode = value === '1' || value === 'true' ? 'fixtures' : value;
+  if (mode !== 'fixtures' && mode !== 'record' && mode !== 'replay') {
+    throw new Error('FAL_MOCK must be 1, record or replay');
+  }
+  return { mode, fixturesDir: path.resolve(process.env.FAL_MOCK_FIXTURES || './fal-fixtures') };
+}
+
+// FAL_CACHE* take precedence over the config file's "cache" section
+function loadCache(parsed: ConfigFile, outputDir: string): CacheOptions | undefined {
+  const flag = process.env.FAL_CACHE;
+  const enabled = flag !== undefined ? flag === '1' || flag === 'true' : parsed.cache?.enabled ?? false;
+  if (!enabled) return undefined;
+
+  const number = (name: string, fallback: number) => {
+    const value = process.env[name];
+    if (!value) return fallback;
+    const parsedValue = parseFloat(value);
+    if (!(parsedValue > 0)) throw new Error(`${name} must be a positive number`);
+    return parsedValue;
+  };
+  return {
+    dir: path.resolve(process.env.FAL_CACHE_DIR || parsed.cache?.dir || path.join(outputDir, '.cache')),
+    ttl: number('FAL_CACHE_TTL_HOURS', parsed.cache?.ttl_hours ?? 7 * 24) * 3600000,
+    maxBytes: number('FAL_CACHE_MAX_MB', parsed.cache?.max_mb ?? 2048) * 1024 * 1024
+  };
+}
+
 export function loadConfig(): Config {
-  const apiKey = process.env.FAL_KEY;
+  const mock = loadMock();
+  // Only recording needs a real key
+  const apiKey = process.env.FAL_KEY || (mock && mock.mode !== 'record' ? 'mock' : undefined);
   if (!apiKey) {
     throw new Error(
       'fal.ai API key not configured. Please set the FAL_KEY environment variable.'
     );
   }
 
-  const outputDir = process.env.FAL_OUTPUT_DIR || './generated-media';
+  // Layers, lowest precedence first: ~/.falrc.json, the project's file, then environment
+  // variables. Arguments given in a call override all of them.
+  const configFiles = findConfigFiles();
+  const parsed: ConfigFile = configFiles.map(readConfigFile).reduce(mergeLayers, {});
+
+  const outputDir = process.env.FAL_OUTPUT_DIR || parsed.output_dir || './generated-media';
 
   const timeoutStr = process.env.FAL_TIMEOUT;
-  const timeout = timeoutStr ? parseInt(timeoutStr, 10) : 120000;
+  const timeout = timeoutStr ? parseInt(timeoutStr, 10) : parsed.timeout ?? 120000;
 
-  if (timeout <= 0) {
+  if (!(timeout > 0)) {
     throw new Error('FAL_TIMEOUT must be a positive number');
   }
+  const longTimeout = positiveInt('FAL_TIMEOUT_LONG', parsed.long_timeout ?? timeout * 5);
+
+  // Optional stand-in for fal storage when uploading local input files
+  const uploadUrl = process.env.FAL_UPLOAD_URL || undefined;
+
+  const filenameTemplate = process.env.FAL_FILENAME_TEMPLATE || parsed.filename_template || '{prefix}-{timestamp}.{ext}';
+
+  const retry: RetryPolicy = {
+    maxAttempts: positiveInt('FAL_RETRY_ATTEMPTS', 3),
+    baseDelay: positiveInt('FAL_RETRY_BASE_DELAY', 1000),
+    maxDelay: positiveInt('FAL_RETRY_MAX_DELAY', 30000)
+  };
+  const circuitBreaker: CircuitBreakerOptions = {
+    threshold: positiveInt('FAL_CIRCUIT_THRESHOLD', 5),
+    cooldown: positiveInt('FAL_CIRCUIT_COOLDOWN', 60000)
+  };
+
+  // FAL_CONCURRENCY_* and FAL_QUEUE_LIMIT take precedence over the config file
+  const concurrency: ConcurrencyOptions = {
+    fast: positiveInt('FAL_CONCURRENCY_FAST', parsed.concurrency?.fast ?? 4),
+    long: positiveInt('FAL_CONCURRENCY_LONG', parsed.concurrency?.long ?? 2),
+    queue: positiveInt('FAL_QUEUE_LIMIT', parsed.concurrency?.queue ?? 20),
+    models: parsed.concurrency?.models ?? {}
+  };
+
+  const sidecars = process.env.FAL_SIDECARS !== 'false';
+  const embedMetadata = process.env.FAL_EMBED_METADATA === 'true';
+
+  const preview: PreviewOptions = {
+    inline: process.env.FAL_INLINE_MEDIA !== 'false',
+    maxSize: positiveInt('FAL_PREVIEW_MAX_SIZE', 512),
+    maxAudioBytes: positiveInt('FAL_INLINE_AUDIO_MAX_BYTES', 2 * 1024 * 1024)
+  };
+
+  const enhancePrompts = process.env.FAL_ENHANCE_PROMPTS === 'true';
 
   return {
     apiKey,
     timeout,
-    outputDir
+    longTimeout,
+    outputDir,
+    uploadUrl,
+    filenameTemplate,
+    sidecars,
+    embedMetadata,
+    preview,
+    enhancePrompts,
+    models: loadModelOverrides(parsed, configFiles),
+    pricing: parsed.pricing ?? {},
+    budgets: loadBudgets(parsed),
+    retry,
+    circuitBreaker,
+    concurrency,
+    confirmation: loadConfirmation(parsed, configFiles),
+    workflows: loadWorkflows(parsed, configFiles),
+    http: loadHttp(),
+    mock,
+    cache: loadCache(parsed, outputDir),
+    tools: loadToolSettings(parsed, configFiles),
+    configFiles
   };
 }
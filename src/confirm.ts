@@ -0,0 +1,106 @@
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { RequestOptions } from '@modelcontextprotocol/sdk/shared/protocol.js';
+import { Config } from './config.js';
+import { ToolCall } from './fal-client.js';
+import { CostEstimate, describeEstimate, formatUsd } from './pricing.js';
+
+export interface ConfirmationPolicy {
+  // Tools that always ask before submitting
+  tools: string[];
+  // Calls estimated at this many USD or more ask too; undefined turns the threshold off
+  minUsd?: number;
+  // What to do when the client cannot ask the user (no elicitation support)
+  fallback: 'allow' | 'deny';
+}
+
+export type ConfirmationOutcome =
+  | { status: 'not_required' | 'confirmed' | 'allowed_without_asking' }
+  | { status: 'declined' | 'denied'; message: string };
+
+// Long parameter values are shortened in the confirmation message
+const MAX_VALUE_LENGTH = 200;
+
+// Asks the user (MCP elicitation) before running calls the policy marks as costly or sensitive
+export class ConfirmationGate {
+  constructor(private server: Server, private policy: ConfirmationPolicy) {}
+
+  // Why a call needs confirmation, or undefined if it can run straight away
+  reasonFor(call: ToolCall, estimate: CostEstimate): string | undefined {
+    if (this.policy.tools.includes(call.tool)) return `${call.tool} always asks for confirmation`;
+    if (this.policy.minUsd !== undefined && estimate.usd !== null && estimate.usd >= this.policy.minUsd) {
+      return `the estimated cost is at least ${formatUsd(this.policy.minUsd)}`;
+    }
+    return undefined;
+  }
+
+  async confirm(call: ToolCall, estimate: CostEstimate, options?: RequestOptions): Promise<ConfirmationOutcome> {
+    const reason = this.reasonFor(call, estimate);
+    if (!reason) return { status: 'not_required' };
+    const details = [describeEstimate(estimate), '', 'Parameters:', ...describeInput(call.input)];
+    return this.ask(`this ${call.tool} call`, `Run ${call.tool}?`, details, reason, options);
+  }
+
+  // One question for many calls, e.g. the rows of a batch. Asks if any call would ask on
+  // its own, or if their estimated total reaches the cost threshold.
+  async confirmMany(
+    subject: string,
+    calls: { call: ToolCall; estimate: CostEstimate }[],
+    options?: RequestOptions
+  ): Promise<ConfirmationOutcome> {
+    const total = calls.reduce((sum, { estimate }) => sum + (estimate.usd ?? 0), 0);
+    const asking = calls.filter(({ call, estimate }) => this.reasonFor(call, estimate)).length;
+    const reason = asking
+      ? `${asking} of the calls would ask on their own`
+      : this.policy.minUsd !== undefined && total >= this.policy.minUsd
+        ? `the estimated total is at least ${formatUsd(this.policy.minUsd)}`
+        : undefined;
+    if (!reason) return { status: 'not_required' };
+
+    const counts = new Map<string, number>();
+    calls.forEach(({ call }) => counts.set(call.tool, (counts.get(call.tool) ?? 0) + 1));
+    const details = [
+      ...[...counts].map(([tool, count]) => `  ${tool}: ${count}`),
+      '',
+      `Estimated total: ${formatUsd(total)}${calls.some(({ estimate }) => estimate.usd === null) ? ' (some calls have no known price)' : ''}`
+    ];
+    return this.ask(subject, `Run ${subject}?`, details, reason, options);
+  }
+
+  private async ask(subject: string, question: string, details: string[], reason: string, options?: RequestOptions): Promise<ConfirmationOutcome> {
+    if (!this.server.getClientCapabilities()?.elicitation) {
+      if (this.policy.fallback === 'allow') return { status: 'allowed_without_asking' };
+      return {
+        status: 'denied',
+        message: `Not submitted: ${subject} needs the user's confirmation (${reason}), but this client cannot ask for it. ` +
+          'Set FAL_CONFIRM_FALLBACK=allow to run such calls without asking, or change FAL_CONFIRM_TOOLS / FAL_CONFIRM_MIN_USD.'
+      };
+    }
+
+    const result = await this.server.elicitInput({
+      message: [question, '', ...details, '', `Asking because ${reason}.`].join('\n'),
+      requestedSchema: {
+        type: 'object',
+        properties: {
+          confirm: { type: 'boolean', title: 'Submit', default: true }
+        }
+      }
+    }, options);
+
+    if (result.action === 'accept' && result.content?.confirm !== false) return { status: 'confirmed' };
+    return {
+      status: 'declined',
+      message: `The user declined ${subject}, so nothing was submitted or charged. Do not retry it unless the user asks.`
+    };
+  }
+}
+
+function describeInput(input: Record<string, any>): string[] {
+  return Object.entries(input).map(([key, value]) => {
+    const text = typeof value === 'string' ? value : JSON.stringify(value);
+    return `  ${key}: ${text.length > MAX_VALUE_LENGTH ? `${text.slice(0, MAX_VALUE_LENGTH - 3)}...` : text}`;
+  });
+}
+
+export function createConfirmationGate(config: Config, server: Server): ConfirmationGate {
+  return new ConfirmationGate(server, config.confirmation);
+}
@@ -0,0 +1,71 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { mimeTypeFor } from './inputs.js';
+import { loadSharp, posterFrame } from './preview.js';
+
+export interface ContactSheetLayout {
+  // Column headings, e.g. model names
+  columns: string[];
+  // Row headings, e.g. seeds; a single row gets no heading column
+  rows: string[];
+  // File shown in each cell, by row then column. Missing files get an empty cell.
+  cells: (string | undefined)[][];
+}
+
+const CELL_SIZE = 320;
+const GAP = 8;
+const HEADER_HEIGHT = 36;
+const ROW_LABEL_WIDTH = 120;
+const BACKGROUND = '#1e1e1e';
+const EMPTY_CELL = '#3a3a3a';
+
+// Lays the outputs out in a labelled grid and saves it as a PNG. Returns false when
+// sharp is not installed, so no sheet could be made.
+export async function buildContactSheet(layout: ContactSheetLayout, outputFile: string): Promise<boolean> {
+  const sharp = await loadSharp();
+  if (!sharp) return false;
+
+  const labelWidth = layout.rows.length > 1 ? ROW_LABEL_WIDTH : 0;
+  const width = labelWidth + layout.columns.length * (CELL_SIZE + GAP) + GAP;
+  const height = HEADER_HEIGHT + layout.rows.length * (CELL_SIZE + GAP) + GAP;
+  const left = (column: number) => labelWidth + GAP + column * (CELL_SIZE + GAP);
+  const top = (row: number) => HEADER_HEIGHT + row * (CELL_SIZE + GAP);
+
+  const layers: { input: Buffer; left: number; top: number }[] = [];
+  for (const [column, heading] of layout.columns.entries()) {
+    layers.push({ input: label(heading, CELL_SIZE, HEADER_HEIGHT), left: left(column), top: 0 });
+  }
+  for (const [row, heading] of layout.rows.entries()) {
+    if (labelWidth) layers.push({ input: label(heading, labelWidth, CELL_SIZE), left: 0, top: top(row) });
+    for (const column of layout.columns.keys()) {
+      const file = layout.cells[row]?.[column];
+      const image = file ? await cellImage(file) : null;
+      const input = image
+        ? await sharp(image).resize({ width: CELL_SIZE, height: CELL_SIZE, fit: 'contain', background: BACKGROUND }).png().toBuffer()
+        : await sharp({ create: { width: CELL_SIZE, height: CELL_SIZE, channels: 3, background: EMPTY_CELL } }).png().toBuffer();
+      layers.push({ input, left: left(column), top: top(row) });
+    }
+  }
+
+  fs.mkdirSync(path.dirname(outputFile), { recursive: true });
+  await sharp({ create: { width, height, channels: 3, background: BACKGROUND } }).composite(layers).png().toFile(outputFile);
+  return true;
+}
+
+// An image to show for a file: the image itself, or a video's first frame
+async function cellImage(file: string): Promise<Buffer | null> {
+  const mimeType = mimeTypeFor(file);
+  if (mimeType.startsWith('image/')) return fs.readFileSync(file);
+  if (mimeType.startsWith('video/')) return posterFrame(file);
+  return null;
+}
+
+// Text rendered by sharp from SVG, clipped to the box
+function label(text: string, width: number, height: number): Buffer {
+  const escaped = text.replace(/[<>&"]/g, (char) => `&#${char.charCodeAt(0)};`);
+  return Buffer.from(
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}">` +
+    `<text x="${width / 2}" y="${height / 2}" fill="#f0f0f0" font-family="sans-serif" font-size="15" ` +
+    `text-anchor="middle" dominant-baseline="middle">${escaped}</text></svg>`
+  );
+}
@@ -0,0 +1,64 @@
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { RequestOptions } from '@modelcontextprotocol/sdk/shared/protocol.js';
+import { Config } from './config.js';
+import { PROMPT_GUIDES, PromptGuide } from './prompts.js';
+
+export interface Enhancement {
+  original: string;
+  // Missing when the prompt was left as it was
+  enhanced?: string;
+  // Why the prompt was left as it was
+  skipped?: string;
+}
+
+// Longest rewritten prompt the client's model is asked for
+const MAX_TOKENS = 600;
+
+// The guide for a tool's `prompt` argument. Speech has a guide too, but for its script.
+export function guideForTool(tool: string): PromptGuide | undefined {
+  return PROMPT_GUIDES.find((guide) => guide.tools.includes(tool) && guide.name !== 'text-to-speech');
+}
+
+// Rewrites prompts with the client's own model (MCP sampling), following the tool's prompt guide
+export class PromptEnhancer {
+  constructor(private server: Server, private enabledByDefault: boolean) {}
+
+  // Whether a call should be enhanced, given its enhance_prompt argument
+  wanted(requested: unknown): boolean {
+    return typeof requested === 'boolean' ? requested : this.enabledByDefault;
+  }
+
+  async enhance(tool: string, prompt: string, options: RequestOptions = {}): Promise<Enhancement> {
+    const guide = guideForTool(tool);
+    if (!guide) return { original: prompt, skipped: `no prompt guide for ${tool}` };
+    if (!this.server.getClientCapabilities()?.sampling) {
+      return { original: prompt, skipped: 'the client does not support sampling' };
+    }
+
+    try {
+      const result = await this.server.createMessage({
+        systemPrompt: [
+          guide.guide,
+          '',
+          `Rewrite the user's prompt for the fal.ai ${tool} tool following the guidance above.`,
+          'Keep everything the user asked for. Reply with the rewritten prompt only: no preamble, quotes or explanation.'
+        ].join('\n'),
+        messages: [{ role: 'user', content: { type: 'text', text: prompt } }],
+        maxTokens: MAX_TOKENS,
+        temperature: 0.7
+      }, options);
+
+      const enhanced = result.content.type === 'text' ? result.content.text.trim().replace(/^"(.*)"$/s, '$1') : '';
+      if (!enhanced) return { original: prompt, skipped: 'the client returned no text' };
+      return { original: prompt, enhanced };
+    } catch (error: any) {
+      // A refused or failed sampling request should not stop the generation itself
+      if (options.signal?.aborted) throw error;
+      return { original: prompt, skipped: `sampling failed (${error.message})` };
+    }
+  }
+}
+
+export function createPromptEnhancer(config: Config, server: Server): PromptEnhancer {
+  return new PromptEnhancer(server, config.enhancePrompts);
+}
@@ -1,235 +1,282 @@
-import { fal } from '@fal-ai/client';
-import { Config, MODELS } from './config.js';
+import { fal, QueueStatus, RequestLog } from '@fal-ai/client';
+import { AsyncLocalStorage } from 'async_hooks';
+import { Config } from './config.js';
+import { createMockBackend, MockFalBackend } from './mock.js';
+import { Pool, Scheduler } from './scheduler.js';
+import { backoffDelay, CircuitBreaker, isTransient, isUnsent, parseRetryAfter, RetryPolicy, sleep } from './retry.js';
 
 export interface FalResult {
   data: any;
   requestId: string;
+  // Attempts that failed with a transient error before this one succeeded
+  retries?: number;
 }
 
-export class FalClient {
-  private timeout: number;
-
-  constructor(config: Config) {
-    fal.config({ credentials: config.apiKey });
-    this.timeout = config.timeout;
-  }
-
-  private async run(model: string, input: Record<string, any>): Promise<FalResult> {
-    const result = await Promise.race([
-      fal.subscribe(model, {
-        input,
-        logs: false
-      }),
-      new Promise<never>((_, reject) =>
-        setTimeout(() => reject(new Error('Request timeout')), this.timeout)
-      )
-    ]);
-    return result as FalResult;
-  }
-
-  private async runLong(model: string, input: Record<string, any>): Promise<FalResult> {
-    const result = await Promise.race([
-      fal.subscribe(model, {
-        input,
-        logs: false
-      }),
-      new Promise<never>((_, reject) =>
-        setTimeout(() => reject(new Error('Request timeout')), this.timeout * 5)
-      )
-    ]);
-    return result as FalResult;
-  }
-
-  // ─── Image Generation ───
-
-  async generateImage(input: {
-    prompt: string;
-    image_size?: string;
-    num_images?: number;
-    seed?: number;
-    output_format?: string;
-  }): Promise<FalResult> {
-    return this.run(MODELS.TEXT_TO_IMAGE, input);
-  }
-
-  async editImage(input: {
-    prompt: string;
-    image_url: string;
-    image_size?: string;
-    seed?: number;
-  }): Promise<FalResult> {
-    return this.run(MODELS.EDIT_IMAGE, input);
-  }
-
-  async imageToImage(input: {
-    prompt: string;
-    image_url: string;
-    strength?: number;
-    image_size?: string;
-    num_inference_steps?: number;
-    seed?: number;
-    num_images?: number;
-    output_format?: string;
-  }): Promise<FalResult> {
-    return this.run(MODELS.IMAGE_TO_IMAGE, input);
-  }
-
-  async inpaint(input: {
-    prompt: string;
-    image_url: string;
-    mask_url: string;
-    image_size?: string;
-    num_inference_steps?: number;
-    seed?: number;
-    output_format?: string;
-  }): Promise<FalResult> {
-    return this.run(MODELS.INPAINT, input);
-  }
+// A tool call resolved to the fal endpoint and input it will be sent with
+export interface ToolCall {
+  tool: string;
+  model: string;
+  long: boolean;
+  input: Record<string, any>;
+  // Parsed tool arguments, including local-only options such as save_path
+  params: Record<string, any>;
+}
 
-  async styleTransfer(input: {
-    image_url: string;
-    image_size?: string;
-    num_inference_steps?: number;
-    seed?: number;
-    num_images?: number;
-  }): Promise<FalResult> {
-    return this.run(MODELS.STYLE_TRANSFER, input);
-  }
+export interface RetryInfo {
+  // The attempt about to be made, counting from 1
+  attempt: number;
+  maxAttempts: number;
+  delay: number;
+  error: any;
+}
 
-  // ─── Video Generation ───
+interface RetryOptions {
+  signal?: AbortSignal;
+  onRetry?: (retry: RetryInfo) => void;
+  // Which failures are tried again, by default every transient one
+  retryable?: (error: any) => boolean;
+}
 
-  async textToVideo(input: {
-    prompt: string;
-    duration?: string;
-    aspect_ratio?: string;
-    negative_prompt?: string;
-  }): Promise<FalResult> {
-    return this.runLong(MODELS.TEXT_TO_VIDEO, input);
-  }
+export interface RunOptions {
+  // Called with every fal queue update (queue position, logs, completion)
+  onUpdate?: (status: QueueStatus) => void;
+  // Called before each retry, after a transient failure
+  onRetry?: (retry: RetryInfo) => void;
+  // Called while the request waits for a free slot, with its position in the local queue
+  onQueued?: (position: number) => void;
+  // Aborting cancels the fal request, including on the fal side
+  signal?: AbortSignal;
+  // In ms, instead of the default for the pool (see timeoutFor)
+  timeout?: number;
+}
 
-  async imageToVideo(input: {
-    prompt: string;
-    image_url: string;
-    duration?: string;
-    aspect_ratio?: string;
-  }): Promise<FalResult> {
-    return this.runLong(MODELS.IMAGE_TO_VIDEO, input);
-  }
+// Number of model log lines included in error messages
+const ERROR_LOG_TAIL = 10;
 
-  async lipsync(input: {
-    video_url: string;
-    audio_url: string;
-  }): Promise<FalResult> {
-    return this.runLong(MODELS.LIPSYNC, input);
-  }
+// Submissions are POSTed to the endpoint on this host; everything else about a job is under /requests/
+const QUEUE_HOST = 'queue.fal.run';
 
-  async avatarVideo(input: {
-    image_url: string;
-    audio_url: string;
-  }): Promise<FalResult> {
-    return this.runLong(MODELS.AVATAR_VIDEO, input);
-  }
+// Retry-After seen by the fetch wrapper during the current attempt
+const retryHints = new AsyncLocalStorage<{ retryAfter?: number }>();
 
-  // ─── Image Utilities ───
+export class FalClient {
+  private timeout: number;
+  private longTimeout: number;
+  private retry: RetryPolicy;
+  private breaker: CircuitBreaker;
+  private scheduler: Scheduler;
+  private mock?: MockFalBackend;
 
-  async upscaleImage(input: {
-    image_url: string;
-    scale?: number;
-  }): Promise<FalResult> {
-    return this.run(MODELS.UPSCALE_IMAGE, input);
+  constructor(config: Config) {
+    this.mock = createMockBackend(config);
+    fal.config({ credentials: config.apiKey, fetch: (input, init) => this.fetch(input, init) });
+    this.timeout = config.timeout;
+    this.longTimeout = config.longTimeout;
+    this.retry = config.retry;
+    this.breaker = new CircuitBreaker(config.circuitBreaker);
+    this.scheduler = new Scheduler(config.concurrency);
   }
 
-  async upscaleVideo(input: {
-    video_url: string;
-    scale?: number;
-  }): Promise<FalResult> {
-    return this.runLong(MODELS.UPSCALE_VIDEO, input);
+  // Quick models (images, utilities, speech)
+  async run(model: string, input: Record<string, any>, options: RunOptions = {}): Promise<FalResult> {
+    return this.schedule('fast', model, input, options.timeout ?? this.timeout, options);
   }
 
-  async removeBackground(input: {
-    image_url: string;
-  }): Promise<FalResult> {
-    return this.run(MODELS.REMOVE_BACKGROUND, input);
+  // Video, music and 3D models get an extended timeout and their own concurrency pool
+  async runLong(model: string, input: Record<string, any>, options: RunOptions = {}): Promise<FalResult> {
+    return this.schedule('long', model, input, options.timeout ?? this.longTimeout, options);
   }
 
-  async removeVideoBackground(input: {
-    video_url: string;
-  }): Promise<FalResult> {
-    return this.runLong(MODELS.REMOVE_VIDEO_BACKGROUND, input);
+  // Wait for a free slot in the pool; the timeout only starts once the request is sent
+  private async schedule(
+    pool: Pool,
+    model: string,
+    input: Record<string, any>,
+    timeout: number,
+    options: RunOptions
+  ): Promise<FalResult> {
+    return this.scheduler.run(pool, model, () => this.subscribe(model, input, timeout, options), {
+      signal: options.signal,
+      onQueued: options.onQueued
+    });
   }
 
-  async faceSwapImage(input: {
-    base_image_url: string;
-    swap_image_url: string;
-  }): Promise<FalResult> {
-    return this.run(MODELS.FACE_SWAP_IMAGE, input);
+  private async subscribe(
+    model: string,
+    input: Record<string, any>,
+    timeout: number,
+    options: RunOptions
+  ): Promise<FalResult> {
+    if (options.signal?.aborted) throw new Error('Request cancelled');
+
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(new Error('Request timeout')), timeout);
+    const onAbort = () => controller.abort(new Error('Request cancelled'));
+    options.signal?.addEventListener('abort', onAbort, { once: true });
+    const aborted = new Promise<never>((_, reject) =>
+      controller.signal.addEventListener('abort', () => reject(controller.signal.reason), { once: true })
+    );
+    aborted.catch(() => {});
+
+    let requestId: string | undefined;
+    let logs: RequestLog[] = [];
+    let retries = 0;
+    const onQueueUpdate = (status: QueueStatus) => {
+      if (status.status !== 'IN_QUEUE' && status.logs?.length) logs = status.logs;
+      options.onUpdate?.(status);
+    };
+
+    try {
+      const result = await this.withRetry(
+        () => {
+          // Once fal has a request id the job exists: resubmitting would run (and bill) it
+          // twice, so later attempts only resume waiting for it
+          const attempt = requestId
+            ? this.resume(model, requestId, controller.signal, onQueueUpdate)
+            : fal.subscribe(model, {
+              input,
+              logs: true,
+              abortSignal: controller.signal,
+              onEnqueue: (id) => {
+                requestId = id;
+              },
+              onQueueUpdate
+            });
+          return Promise.race([attempt, aborted]);
+        },
+        {
+          signal: controller.signal,
+          onRetry: (retry) => {
+            retries += 1;
+            options.onRetry?.(retry);
+          },
+          // Until fal assigns a request id, a failed submission may still have been queued
+          retryable: (error) => (requestId ? isTransient(error) : isUnsent(error))
+        }
+      );
+      return { ...(result as FalResult), retries };
+    } catch (error: any) {
+      // Stop the remote job as well, otherwise it keeps running (and billing)
+      if (controller.signal.aborted && requestId) {
+        await this.cancel(model, requestId).catch(() => {});
+      }
+      // Keep the model's logs so handleError can show what happened
+      if (logs.length && error && typeof error === 'object') error.logs = logs;
+      throw error;
+    } finally {
+      clearTimeout(timer);
+      options.signal?.removeEventListener('abort', onAbort);
+    }
   }
 
-  async faceSwapVideo(input: {
-    base_video_url: string;
-    swap_image_url: string;
-  }): Promise<FalResult> {
-    return this.runLong(MODELS.FACE_SWAP_VIDEO, input);
+  // Wait for an already submitted request and fetch its result
+  private async resume(
+    model: string,
+    requestId: string,
+    signal: AbortSignal,
+    onQueueUpdate: (status: QueueStatus) => void
+  ): Promise<FalResult> {
+    await fal.queue.subscribeToStatus(model, { requestId, logs: true, abortSignal: signal, onQueueUpdate });
+    return fal.queue.result(model, { requestId, abortSignal: signal });
   }
 
-  async segmentImage(input: {
-    image_url: string;
-    prompt?: string;
-  }): Promise<FalResult> {
-    return this.run(MODELS.SEGMENT_IMAGE, input);
+  // ─── Retries ───
+
+  // Run `operation`, retrying transient failures with jittered exponential backoff.
+  // Errors that give up are tagged with the number of attempts made.
+  private async withRetry<T>(
+    operation: () => Promise<T>,
+    { signal, onRetry, retryable = isTransient }: RetryOptions = {}
+  ): Promise<T> {
+    for (let attempt = 1; ; attempt++) {
+      this.breaker.check();
+      const hints: { retryAfter?: number } = {};
+      try {
+        const result = await retryHints.run(hints, operation);
+        this.breaker.recordSuccess();
+        return result;
+      } catch (error: any) {
+        if (signal?.aborted) throw error;
+        // Anything but a transient error means fal itself answered
+        const transient = isTransient(error);
+        if (transient) this.breaker.recordFailure();
+        else this.breaker.recordSuccess();
+
+        if (!retryable(error) || attempt >= this.retry.maxAttempts) {
+          if (error && typeof error === 'object') error.attempts = attempt;
+          throw error;
+        }
+        const delay = backoffDelay(attempt, this.retry, hints.retryAfter);
+        onRetry?.({ attempt: attempt + 1, maxAttempts: this.retry.maxAttempts, delay, error });
+        await sleep(delay, signal);
+      }
+    }
   }
 
-  async estimateDepth(input: {
-    image_url: string;
-  }): Promise<FalResult> {
-    return this.run(MODELS.ESTIMATE_DEPTH, input);
+  // Global fetch (or the mock backend), noting any Retry-After header for the attempt in progress
+  private async fetch(input: RequestInfo | URL, init?: RequestInit): Promise<Response> {
+    const response = this.mock ? await this.mock.fetch(input, init) : await fetch(input, init);
+    const retryAfter = parseRetryAfter(response.headers.get('retry-after'));
+    const hints = retryHints.getStore();
+    if (hints && retryAfter !== undefined) hints.retryAfter = retryAfter;
+    // fal's client resubmits after a 5xx by itself, but the job may already be queued. Thrown
+    // as a plain error, which it passes on instead of retrying.
+    if (response.status >= 500 && isSubmission(input, init)) {
+      const body = await response.json().catch(() => undefined);
+      throw Object.assign(
+        new Error(`${body?.detail ?? response.statusText ?? 'Server error'} (HTTP ${response.status} while submitting; the job may still have been queued, so it was not resubmitted)`),
+        { status: response.status, body }
+      );
+    }
+    return response;
   }
 
-  // ─── Audio & Music ───
+  // ─── Queue (async jobs) ───
 
-  async generateMusic(input: {
-    prompt: string;
-    duration?: number;
-  }): Promise<FalResult> {
-    return this.runLong(MODELS.GENERATE_MUSIC, input);
+  // Submission is only retried when it certainly did not reach fal, so that a lost response
+  // cannot queue the job twice
+  async submit(model: string, input: Record<string, any>): Promise<string> {
+    const { request_id } = await this.withRetry(() => fal.queue.submit(model, { input }), { retryable: isUnsent });
+    return request_id;
   }
 
-  async textToSpeech(input: {
-    text: string;
-    voice_id?: string;
-    speed?: number;
-  }): Promise<FalResult> {
-    return this.run(MODELS.TEXT_TO_SPEECH, input);
+  async status(model: string, requestId: string): Promise<QueueStatus> {
+    return this.withRetry(() => fal.queue.status(model, { requestId, logs: true }));
   }
 
-  async generateSoundEffect(input: {
-    prompt: string;
-    duration_seconds?: number;
-  }): Promise<FalResult> {
-    return this.run(MODELS.SOUND_EFFECT, input);
+  async result(model: string, requestId: string): Promise<FalResult> {
+    return this.withRetry(() => fal.queue.result(model, { requestId }));
   }
 
-  // ─── 3D ───
-
-  async imageTo3D(input: {
-    image_url: string;
-  }): Promise<FalResult> {
-    return this.runLong(MODELS.IMAGE_TO_3D, input);
-  }
-
-  async retexture3D(input: {
-    model_url: string;
-    prompt: string;
-    reference_image_url?: string;
-  }): Promise<FalResult> {
-    return this.runLong(MODELS.RETEXTURE_3D, input);
+  async cancel(model: string, requestId: string): Promise<void> {
+    await this.withRetry(() => fal.queue.cancel(model, { requestId }));
   }
 
   // ─── Error Handling ───
 
   handleError(error: any): Error {
+    const handled = this.describeError(error);
+    if (error?.attempts > 1) handled.message += ` (gave up after ${error.attempts} attempts)`;
+    const logs: RequestLog[] | undefined = error?.logs;
+    if (logs?.length) {
+      const tail = logs.slice(-ERROR_LOG_TAIL).map((log) => log.message).join('\n');
+      handled.message += `\n\nModel logs:\n${tail}`;
+    }
+    return handled;
+  }
+
+  private describeError(error: any): Error {
     if (error.message === 'Request timeout') {
-      return new Error('fal.ai request timed out. This model may take longer — try again or increase FAL_TIMEOUT.');
+      return new Error('fal.ai request timed out and was cancelled. This model may take longer — try again or increase FAL_TIMEOUT, FAL_TIMEOUT_LONG or the tool\'s timeout in the config file.');
+    }
+    if (error.message === 'Request cancelled') {
+      return new Error('fal.ai request cancelled. The fal job was stopped and no output was saved.');
+    }
+    if (error.message === 'Circuit open') {
+      return new Error(`fal.ai appears to be down: the last ${error.failures} requests failed. Not sending requests for another ${Math.ceil(error.retryIn / 1000)}s.`);
+    }
+    if (error.message === 'Local queue full') {
+      return new Error(`Too many fal.ai requests are already waiting (${error.waiting}). Try again when some have finished, or raise FAL_QUEUE_LIMIT.`);
     }
     if (error.status === 401 || error.status === 403) {
       return new Error('Invalid fal.ai API key. Please check your FAL_KEY environment variable.');
@@ -247,6 +294,11 @@ export class FalClient {
   }
 }
 
+function isSubmission(input: RequestInfo | URL, init?: RequestInit): boolean {
+  const url = new URL(input instanceof Request ? input.url : String(input));
+  return url.hostname === QUEUE_HOST && (init?.method ?? 'GET').toUpperCase() === 'POST' && !url.pathname.includes('/requests/');
+}
+
 export function createFalClient(config: Config): FalClient {
   return new FalClient(config);
 }
@@ -0,0 +1,136 @@
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import { Config } from './config.js';
+
+export type GenerationStatus = 'submitted' | 'completed' | 'failed' | 'cancelled';
+
+// One model call made through the server, as recorded in the history file
+export interface Generation {
+  id: string;
+  tool: string;
+  // Tool arguments as the client sent them, so the call can be replayed with regenerate
+  arguments: Record<string, any>;
+  model?: string;
+  request_id?: string;
+  status: GenerationStatus;
+  seed?: number;
+  files: string[];
+  error?: string;
+  started_at: string;
+  completed_at?: string;
+  // Set when this call was made by regenerate
+  regenerated_from?: string;
+  // Set when the prompt was rewritten with enhance_prompt; `arguments` holds the enhanced one
+  original_prompt?: string;
+  enhanced_prompt?: string;
+  // Set when the outputs were copied from the result cache instead of running the model
+  cache_hit?: boolean;
+}
+
+export interface GenerationFilter {
+  tool?: string;
+  // Case-insensitive text to look for in the prompt
+  text?: string;
+  since?: Date;
+  until?: Date;
+}
+
+// The prompt-like text of a call, used for search and listings
+export function promptOf(generation: Generation): string | undefined {
+  const args = generation.arguments;
+  const prompt = args.prompt ?? args.input?.prompt ?? args.text ?? args.input?.text;
+  return typeof prompt === 'string' ? prompt : undefined;
+}
+
+// Replace data: URIs in the raw arguments with the URLs they were uploaded to, so the
+// history file does not fill up with base64
+export function compactArguments(raw: any, resolved: any): any {
+  if (typeof raw === 'string') return /^data:/i.test(raw) && typeof resolved === 'string' ? resolved : raw;
+  if (Array.isArray(raw)) return raw.map((item, index) => compactArguments(item, resolved?.[index]));
+  if (!raw || typeof raw !== 'object') return raw;
+  return Object.fromEntries(Object.entries(raw).map(([key, value]) => [key, compactArguments(value, resolved?.[key])]));
+}
+
+// Every generation, appended to a JSONL file. A later line with the same id replaces an
+// earlier one, so updates (e.g. an async job finishing) are appends too.
+export class HistoryStore {
+  private generations: Map<string, Generation>;
+
+  constructor(private file: string) {
+    this.generations = this.load();
+  }
+
+  newId(): string {
+    let id: string;
+    do {
+      id = crypto.randomBytes(4).toString('hex');
+    } while (this.generations.has(id));
+    return id;
+  }
+
+  record(generation: Generation): Generation {
+    this.generations.set(generation.id, generation);
+    this.append(generation);
+    return generation;
+  }
+
+  update(id: string, changes: Partial<Generation>): Generation {
+    const generation = this.generations.get(id);
+    if (!generation) throw new Error(`Unknown generation: ${id}`);
+    return this.record({ ...generation, ...changes });
+  }
+
+  get(id: string): Generation | undefined {
+    return this.generations.get(id);
+  }
+
+  // The generation submitted as an async job with this request id
+  findByRequestId(requestId: string): Generation | undefined {
+    return [...this.generations.values()].find((generation) => generation.request_id === requestId);
+  }
+
+  // Newest first
+  list(filter: GenerationFilter = {}): Generation[] {
+    const text = filter.text?.toLowerCase();
+    return [...this.generations.values()]
+      .filter((generation) => !filter.tool || generation.tool === filter.tool)
+      .filter((generation) => !text || (promptOf(generation) ?? '').toLowerCase().includes(text))
+      .filter((generation) => !filter.since || new Date(generation.started_at) >= filter.since)
+      .filter((generation) => !filter.until || new Date(generation.started_at) <= filter.until)
+      .sort((a, b) => b.started_at.localeCompare(a.started_at));
+  }
+
+  private load(): Map<string, Generation> {
+    const generations = new Map<string, Generation>();
+    let lines: string[];
+    try {
+      lines = fs.readFileSync(this.file, 'utf-8').split('\n');
+    } catch {
+      return generations;
+    }
+    for (const line of lines) {
+      if (!line.trim()) continue;
+      try {
+        const generation: Generation = JSON.parse(line);
+        generations.set(generation.id, generation);
+      } catch {
+        // Skip a line left half-written by a crash
+      }
+    }
+    return generations;
+  }
+
+  private append(generation: Generation): void {
+    try {
+      fs.mkdirSync(path.dirname(this.file), { recursive: true });
+      fs.appendFileSync(this.file, JSON.stringify(generation) + '\n');
+    } catch (error: any) {
+      console.error(`Failed to write generation history: ${error.message}`);
+    }
+  }
+}
+
+export function createHistoryStore(config: Config): HistoryStore {
+  return new HistoryStore(path.resolve(config.outputDir, '.history.jsonl'));
+}
@@ -0,0 +1,175 @@
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { SSEServerTransport } from '@modelcontextprotocol/sdk/server/sse.js';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { isInitializeRequest } from '@modelcontextprotocol/sdk/types.js';
+import { createHash, randomUUID, timingSafeEqual } from 'crypto';
+import * as http from 'http';
+import { Config } from './config.js';
+
+export interface HttpOptions {
+  host: string;
+  port: number;
+  // Accepted bearer tokens; empty means no authentication (only allowed on loopback)
+  tokens: string[];
+  // Browser origins allowed to call the server, or ['*']
+  corsOrigins: string[];
+  // Directories besides the output directory that clients may read inputs from and save to
+  allowedDirs: string[];
+}
+
+// Streamable HTTP endpoint, and the legacy SSE stream and the endpoint its messages are posted to
+const MCP_PATH = '/mcp';
+const SSE_PATH = '/sse';
+const MESSAGES_PATH = '/messages';
+
+// Request bodies can carry data: URIs, so allow more than a typical JSON API would
+const MAX_BODY_BYTES = 32 * 1024 * 1024;
+
+// A session and a hash of the bearer token that opened it. Only requests with the same token
+// reach the session, so one client cannot answer another's confirmations or sampling requests.
+interface Session<T> {
+  transport: T;
+  owner: string;
+}
+
+// Serves MCP over Streamable HTTP (and legacy SSE) for several clients at once. Each
+// session gets its own MCP server from `createServer`; the fal account and stores are shared.
+export class HttpTransportServer {
+  private streamable = new Map<string, Session<StreamableHTTPServerTransport>>();
+  private sse = new Map<string, Session<SSEServerTransport>>();
+  private httpServer?: http.Server;
+
+  constructor(private options: HttpOptions, private createServer: () => Server) {}
+
+  listen(): Promise<void> {
+    this.httpServer = http.createServer((req, res) => {
+      this.handle(req, res).catch((error: any) => {
+        console.error(`HTTP request failed: ${error.message}`);
+        if (!res.headersSent) sendError(res, error.status ?? 500, error.status ? error.message : 'Internal server error');
+      });
+    });
+    return new Promise((resolve, reject) => {
+      this.httpServer!.once('error', reject);
+      this.httpServer!.listen(this.options.port, this.options.host, () => resolve());
+    });
+  }
+
+  async close(): Promise<void> {
+    await Promise.all([...this.streamable.values(), ...this.sse.values()].map((session) => session.transport.close()));
+    await new Promise((resolve) => (this.httpServer ? this.httpServer.close(resolve) : resolve(undefined)));
+  }
+
+  private async handle(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+    if (!this.applyCors(req, res)) return sendError(res, 403, 'Origin not allowed');
+    if (req.method === 'OPTIONS') {
+      res.writeHead(204).end();
+      return;
+    }
+    const owner = this.ownerOf(req);
+    if (owner === undefined) {
+      res.setHeader('WWW-Authenticate', 'Bearer');
+      return sendError(res, 401, 'Missing or invalid bearer token');
+    }
+
+    const url = new URL(req.url ?? '/', 'http://localhost');
+    if (url.pathname === MCP_PATH) return this.handleStreamable(req, res, owner);
+    if (url.pathname === SSE_PATH && req.method === 'GET') return this.openSse(res, owner);
+    if (url.pathname === MESSAGES_PATH && req.method === 'POST') {
+      const session = this.sse.get(url.searchParams.get('sessionId') ?? '');
+      if (session?.owner !== owner) return sendError(res, 404, 'Session not found');
+      return session.transport.handlePostMessage(req, res, await readJson(req));
+    }
+    sendError(res, 404, 'Not found');
+  }
+
+  private async handleStreamable(req: http.IncomingMessage, res: http.ServerResponse, owner: string): Promise<void> {
+    const sessionId = req.headers['mcp-session-id'];
+    const body = req.method === 'POST' ? await readJson(req) : undefined;
+
+    if (typeof sessionId === 'string') {
+      const session = this.streamable.get(sessionId);
+      if (session?.owner !== owner) return sendError(res, 404, 'Session not found');
+      return session.transport.handleRequest(req, res, body);
+    }
+    if (req.method !== 'POST' || !isInitializeRequest(body)) {
+      return sendError(res, 400, 'No session: send an initialize request first');
+    }
+
+    const transport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => randomUUID(),
+      onsessioninitialized: (id) => {
+        this.streamable.set(id, { transport, owner });
+      }
+    });
+    transport.onclose = () => {
+      if (transport.sessionId) this.streamable.delete(transport.sessionId);
+    };
+    await this.createServer().connect(transport);
+    await transport.handleRequest(req, res, body);
+  }
+
+  private async openSse(res: http.ServerResponse, owner: string): Promise<void> {
+    const transport = new SSEServerTransport(MESSAGES_PATH, res);
+    this.sse.set(transport.sessionId, { transport, owner });
+    res.on('close', () => {
+      this.sse.delete(transport.sessionId);
+      transport.close().catch(() => {});
+    });
+    await this.createServer().connect(transport);
+  }
+
+  // A hash of the request's bearer token if it is one of the accepted tokens, or undefined.
+  // Without tokens every request is accepted, all as the same owner.
+  private ownerOf(req: http.IncomingMessage): string | undefined {
+    if (!this.options.tokens.length) return '';
+    const match = req.headers.authorization?.match(/^Bearer\s+(.+)$/i);
+    if (!match) return undefined;
+    const given = Buffer.from(match[1].trim());
+    const accepted = this.options.tokens.some((token) => {
+      const expected = Buffer.from(token);
+      return expected.length === given.length && timingSafeEqual(expected, given);
+    });
+    return accepted ? createHash('sha256').update(given).digest('hex') : undefined;
+  }
+
+  // Requests without an Origin (anything but a browser) are always allowed
+  private applyCors(req: http.IncomingMessage, res: http.ServerResponse): boolean {
+    const origin = req.headers.origin;
+    if (!origin) return true;
+    const { corsOrigins } = this.options;
+    if (!corsOrigins.includes('*') && !corsOrigins.includes(origin)) return false;
+
+    res.setHeader('Access-Control-Allow-Origin', corsOrigins.includes('*') ? '*' : origin);
+    res.setHeader('Vary', 'Origin');
+    res.setHeader('Access-Control-Allow-Methods', 'GET, POST, DELETE, OPTIONS');
+    res.setHeader('Access-Control-Allow-Headers', 'Authorization, Content-Type, Mcp-Session-Id, Mcp-Protocol-Version, Last-Event-ID');
+    res.setHeader('Access-Control-Expose-Headers', 'Mcp-Session-Id');
+    return true;
+  }
+}
+
+async function readJson(req: http.IncomingMessage): Promise<unknown> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) throw Object.assign(new Error('Request body too large'), { status: 413 });
+    chunks.push(chunk);
+  }
+  if (!size) return undefined;
+  try {
+    return JSON.parse(Buffer.concat(chunks).toString('utf-8'));
+  } catch {
+    return undefined;
+  }
+}
+
+// Errors in JSON-RPC form, as MCP clients expect
+function sendError(res: http.ServerResponse, status: number, message: string): void {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify({ jsonrpc: '2.0', error: { code: -32000, message }, id: null }));
+}
+
+export function createHttpTransportServer(config: Config, createServer: () => Server): HttpTransportServer {
+  return new HttpTransportServer(config.http!, createServer);
+}
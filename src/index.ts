@@ -2,419 +2,866 @@
 
 import { Server } from '@modelcontextprotocol/sdk/server/index.js';
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
+import { RequestOptions } from '@modelcontextprotocol/sdk/shared/protocol.js';
 import {
   CallToolRequestSchema,
-  ListToolsRequestSchema
+  CallToolResult,
+  GetPromptRequestSchema,
+  ListPromptsRequestSchema,
+  ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
+  ListToolsRequestSchema,
+  ReadResourceRequestSchema,
+  RequestId,
+  SubscribeRequestSchema,
+  Tool,
+  UnsubscribeRequestSchema
 } from '@modelcontextprotocol/sdk/types.js';
+import { QueueStatus } from '@fal-ai/client';
 import { z } from 'zod';
 import * as fs from 'fs';
 import * as path from 'path';
-import { loadConfig } from './config.js';
-import { createFalClient } from './fal-client.js';
+import { Readable } from 'stream';
+import { pipeline } from 'stream/promises';
+import { Capability, describeConfig, loadConfig, MODEL_NAMES, MODELS, outputDirFor, timeoutFor, TOOL_MODELS } from './config.js';
+import {
+  BATCH_CONCURRENCY,
+  BatchResults,
+  describeFailedRows,
+  MAX_BATCH_CONCURRENCY,
+  readManifest,
+  resultsPathFor,
+  runPool
+} from './batch.js';
+import {
+  ComparisonRun,
+  describeComparison,
+  MAX_COMPARED_MODELS,
+  MAX_COMPARED_SEEDS,
+  randomSeed,
+  runLabel
+} from './compare.js';
+import { CacheEntry, CacheMode, createResultCache, describeCacheStats, megabytes } from './cache.js';
+import { createConfirmationGate } from './confirm.js';
+import { buildContactSheet } from './contact-sheet.js';
+import { createPromptEnhancer, Enhancement, guideForTool } from './enhance.js';
+import { createFalClient, FalResult, RunOptions, ToolCall } from './fal-client.js';
+import { compactArguments, createHistoryStore, Generation, promptOf } from './history.js';
+import { createInputResolver } from './inputs.js';
+import { createJobStore, isFinished, Job } from './jobs.js';
+import {
+  extract3DUrl,
+  extractAudioUrl,
+  extractImageUrls,
+  extractVideoUrl,
+  FilenameVars,
+  findMediaFiles,
+  mediaExtension,
+  renderFilename,
+  stripMediaFiles
+} from './media.js';
+import { createModelRegistry } from './models.js';
+import { createPathPolicy } from './paths.js';
+import { createPricing, createSpendLedger, describeEstimate, formatUsd } from './pricing.js';
+import { createHttpTransportServer } from './http.js';
+import { createMediaPreviewer } from './preview.js';
+import { ProgressReporter } from './progress.js';
+import { findPromptGuide, PROMPT_GUIDES, renderPromptGuide } from './prompts.js';
+import { createMediaResources, MediaResources } from './resources.js';
+import { collectInputUrls, embedProvenance, Provenance, writeSidecar } from './provenance.js';
+import {
+  budgetOutput,
+  BATCH_OUTPUT_SCHEMA,
+  CACHE_CLEAR_OUTPUT_SCHEMA,
+  CACHE_STATS_OUTPUT_SCHEMA,
+  callOutput,
+  comparisonRunOutput,
+  COMPARISON_OUTPUT_SCHEMA,
+  CONFIG_OUTPUT_SCHEMA,
+  COST_ESTIMATE_OUTPUT_SCHEMA,
+  GENERATION_LIST_OUTPUT_SCHEMA,
+  GENERATION_OUTPUT_SCHEMA,
+  GENERATION_RECORD_OUTPUT_SCHEMA,
+  JOB_LIST_OUTPUT_SCHEMA,
+  JOB_OUTPUT_SCHEMA,
+  jobOutput,
+  MODEL_LIST_OUTPUT_SCHEMA,
+  resultOutput,
+  SavedFile,
+  savedFile,
+  SPENDING_OUTPUT_SCHEMA,
+  spendingOutput,
+  WORKFLOW_OUTPUT_SCHEMA
+} from './structured.js';
+import { createWorkflowRunner, StepReport, workflowStepSchema } from './workflow.js';
 
 async function main() {
   try {
     const config = loadConfig();
     const client = createFalClient(config);
-
-    const server = new Server(
-      { name: 'fal-ai-mcp-server', version: '1.0.0' },
-      { capabilities: { tools: {} } }
-    );
-
-    // Helper: download a URL to a local file
-    async function downloadFile(url: string, savePath: string): Promise<string> {
-      const dir = path.dirname(savePath);
-      if (!fs.existsSync(dir)) {
-        fs.mkdirSync(dir, { recursive: true });
-      }
-      const response = await fetch(url);
-      if (!response.ok) throw new Error(`Failed to download: ${response.statusText}`);
-      const buffer = Buffer.from(await response.arrayBuffer());
-      fs.writeFileSync(savePath, buffer);
-      return savePath;
+    const inputs = createInputResolver(config);
+    const paths = createPathPolicy(config);
+    const jobs = createJobStore(config);
+    const models = createModelRegistry(config);
+    const history = createHistoryStore(config);
+    const pricing = createPricing(config);
+    const ledger = createSpendLedger(config);
+    const resultCache = createResultCache(config);
+    const previewer = createMediaPreviewer(config);
+    const workflows = createWorkflowRunner(config);
+
+    const sessions = new Set<{ server: Server; resources: MediaResources }>();
+
+    // Helper: tell every connected client about a newly written output file
+    function announceFile(savePath: string): void {
+      for (const { server, resources } of sessions) {
+        const uri = resources.uriFor(savePath);
+        if (!uri) continue;
+        server.sendResourceListChanged().catch(() => {});
+        if (resources.isSubscribed(uri)) server.sendResourceUpdated({ uri }).catch(() => {});
+      }
     }
 
-    // Helper: auto save path
-    function getAutoSavePath(prefix: string, ext: string): string {
-      const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
-      const filename = `${prefix}-${timestamp}.${ext}`;
-      return path.resolve(config.outputDir, filename);
-    }
+    // One MCP server per connected client; over stdio there is only ever one
+    function createServer(): Server {
+      const server = new Server(
+        { name: 'fal-ai-mcp-server', version: '1.0.0' },
+        { capabilities: { tools: {}, logging: {}, resources: { subscribe: true, listChanged: true }, prompts: {} } }
+      );
+      const enhancer = createPromptEnhancer(config, server);
+      const gate = createConfirmationGate(config, server);
+      const resources = createMediaResources(config);
+      const session = { server, resources };
+      sessions.add(session);
+      server.onclose = () => sessions.delete(session);
+
+      // Helper: download a URL to a local file, removing the partial file if aborted or failed
+      async function downloadFile(url: string, savePath: string, signal?: AbortSignal): Promise<string> {
+        const dir = path.dirname(savePath);
+        if (!fs.existsSync(dir)) {
+          fs.mkdirSync(dir, { recursive: true });
+        }
+        const response = await fetch(url, { signal });
+        if (!response.ok || !response.body) throw new Error(`Failed to download: ${response.statusText}`);
+        const partialPath = `${savePath}.part`;
+        try {
+          await pipeline(Readable.fromWeb(response.body as import('stream/web').ReadableStream), fs.createWriteStream(partialPath), { signal });
+          fs.renameSync(partialPath, savePath);
+        } catch (error: any) {
+          fs.rmSync(partialPath, { force: true });
+          throw signal?.aborted ? new Error('Request cancelled') : error;
+        }
+        return savePath;
+      }
 
-    // Helper: extract image URLs from result
-    function extractImageUrls(data: any): string[] {
-      if (data.images && Array.isArray(data.images)) {
-        return data.images.map((img: any) => img.url || img).filter(Boolean);
+      // Helper: write the provenance sidecar (and embedded metadata) for a saved output
+      function recordProvenance(savePath: string, provenance: Provenance): void {
+        try {
+          if (config.sidecars) writeSidecar(savePath, provenance);
+          if (config.embedMetadata) embedProvenance(savePath, provenance);
+        } catch (error: any) {
+          console.error(`Failed to record provenance for ${savePath}: ${error.message}`);
+        }
       }
-      if (data.image?.url) return [data.image.url];
-      if (data.image_url) return [data.image_url];
-      if (data.output?.url) return [data.output.url];
-      if (data.url) return [data.url];
-      return [];
-    }
 
-    // Helper: extract video URL from result
-    function extractVideoUrl(data: any): string | null {
-      if (data.video?.url) return data.video.url;
-      if (data.video_url) return data.video_url;
-      if (data.output?.url) return data.output.url;
-      if (data.url) return data.url;
-      return null;
-    }
+      // Helper: render file names from a template; several outputs are numbered from 1
+      function renderSavePaths(template: string, dir: string, vars: FilenameVars, count: number): string[] {
+        const numbered = count > 1 && !template.includes('{index}')
+          ? template.replace(/(\.\{ext\})?$/, '-{index}$1')
+          : template;
+        return Array.from({ length: count }, (_, i) =>
+          path.resolve(dir, renderFilename(numbered, { ...vars, index: count > 1 ? i + 1 : undefined }))
+        );
+      }
 
-    // Helper: extract audio URL from result
-    function extractAudioUrl(data: any): string | null {
-      if (data.audio?.url) return data.audio.url;
-      if (data.audio_url) return data.audio_url;
-      if (data.audio_file?.url) return data.audio_file.url;
-      if (data.output?.url) return data.output.url;
-      if (data.url) return data.url;
-      return null;
-    }
+      // Helper: the absolute path for a path argument, kept inside the allowed directories over
+      // HTTP. A trailing separator still marks a directory.
+      function localPath(value: string, name: string): string {
+        const resolved = paths.resolve(value, name);
+        return /[\\/]$/.test(value) ? resolved + path.sep : resolved;
+      }
 
-    // Helper: extract 3D model URL from result
-    function extract3DUrl(data: any): string | null {
-      if (data.model?.url) return data.model.url;
-      if (data.model_url) return data.model_url;
-      if (data.mesh?.url) return data.mesh.url;
-      if (data.output?.url) return data.output.url;
-      if (data.glb?.url) return data.glb.url;
-      if (data.url) return data.url;
-      return null;
-    }
+      // Helper: where to save `count` outputs. save_path may be a file, a directory or a template.
+      function getSavePaths(
+        savePath: string | undefined,
+        prefix: string,
+        ext: string,
+        count: number,
+        vars: Pick<FilenameVars, 'tool' | 'seed'> = {}
+      ): string[] {
+        const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
+        const fileVars: FilenameVars = { ...vars, prefix, ext, timestamp };
+
+        if (!savePath) return renderSavePaths(config.filenameTemplate, outputDirFor(config, vars.tool), fileVars, count);
+        if (savePath.includes('{')) {
+          return renderSavePaths(path.basename(savePath), path.dirname(savePath), fileVars, count);
+        }
+        const isDirectory = /[\\/]$/.test(savePath) || (fs.existsSync(savePath) && fs.statSync(savePath).isDirectory());
+        if (isDirectory) return renderSavePaths(config.filenameTemplate, savePath, fileVars, count);
+        if (count === 1) return [savePath];
 
-    // Register tools/list handler
-    server.setRequestHandler(ListToolsRequestSchema, async () => {
-      return {
-        tools: [
-          // ─── Image Generation ───
-          {
-            name: 'generate_image',
-            description: 'Generate images from text prompts using Flux Pro Kontext Max. Returns high-quality images with excellent prompt adherence and typography support.',
-            inputSchema: {
-              type: 'object',
-              properties: {
-                prompt: { type: 'string', description: 'Text prompt describing the image to generate' },
-                image_size: { type: 'string', description: 'Image size preset: "square_hd", "square", "portrait_4_3", "portrait_16_9", "landscape_4_3", "landscape_16_9"', enum: ['square_hd', 'square', 'portrait_4_3', 'portrait_16_9', 'landscape_4_3', 'landscape_16_9'] },
-                num_images: { type: 'integer', description: 'Number of images to generate (1-4)', minimum: 1, maximum: 4 },
-                seed: { type: 'integer', description: 'Seed for reproducible generation' },
-                output_format: { type: 'string', description: 'Output format: "png" or "jpeg"', enum: ['png', 'jpeg'] },
-                save_path: { type: 'string', description: 'File path to save the image. If not provided, auto-saves to output directory.' }
-              },
-              required: ['prompt']
-            }
-          },
-          {
-            name: 'edit_image',
-            description: 'Edit an existing image using text instructions with Flux Pro Kontext Max. Supports local edits, style changes, object addition/removal, and scene transforms.',
-            inputSchema: {
-              type: 'object',
-              properties: {
-                prompt: { type: 'string', description: 'Edit instructions describing what changes to make' },
-                image_url: { type: 'string', description: 'URL of the source image to edit' },
-                image_size: { type: 'string', description: 'Output image size preset', enum: ['square_hd', 'square', 'portrait_4_3', 'portrait_16_9', 'landscape_4_3', 'landscape_16_9'] },
-                seed: { type: 'integer', description: 'Seed for reproducible generation' },
-                save_path: { type: 'string', description: 'File path to save the edited image' }
-              },
-              required: ['prompt', 'image_url']
-            }
-          },
-          {
-            name: 'image_to_image',
-            description: 'Transform an image using a text prompt with Flux General. Applies style, content, or structural changes guided by the prompt while preserving aspects of the original.',
-            inputSchema: {
-              type: 'object',
-              properties: {
-                prompt: { type: 'string', description: 'Text prompt to guide the transformation' },
-                image_url: { type: 'string', description: 'URL of the source image' },
-                strength: { type: 'number', description: 'Prompt influence strength (0.0-1.0). Lower preserves more of the original.', minimum: 0, maximum: 1 },
-                image_size: { type: 'string', description: 'Output image size preset', enum: ['square_hd', 'square', 'portrait_4_3', 'portrait_16_9', 'landscape_4_3', 'landscape_16_9'] },
-                num_inference_steps: { type: 'integer', description: 'Number of inference steps (1-50)', minimum: 1, maximum: 50 },
-                seed: { type: 'integer', description: 'Seed for reproducible generation' },
-                num_images: { type: 'integer', description: 'Number of images to generate (1-4)', minimum: 1, maximum: 4 },
-                output_format: { type: 'string', description: 'Output format', enum: ['png', 'jpeg'] },
-                save_path: { type: 'string', description: 'File path to save the result' }
-              },
-              required: ['prompt', 'image_url']
-            }
-          },
-          {
-            name: 'inpaint',
-            description: 'Fill in masked areas of an image using Flux General Inpainting. Provide an image, a mask (white = areas to fill), and a prompt describing what to generate in the masked region.',
-            inputSchema: {
-              type: 'object',
-              properties: {
-                prompt: { type: 'string', description: 'Text prompt describing what to generate in the masked area' },
-                image_url: { type: 'string', description: 'URL of the source image' },
-                mask_url: { type: 'string', description: 'URL of the mask image (white areas = regions to inpaint)' },
-                image_size: { type: 'string', description: 'Output image size preset', enum: ['square_hd', 'square', 'portrait_4_3', 'portrait_16_9', 'landscape_4_3', 'landscape_16_9'] },
-                num_inference_steps: { type: 'integer', description: 'Number of inference steps', minimum: 1, maximum: 50 },
-                seed: { type: 'integer', description: 'Seed for reproducible generation' },
-                output_format: { type: 'string', description: 'Output format', enum: ['png', 'jpeg'] },
-                save_path: { type: 'string', description: 'File path to save the result' }
-              },
-              required: ['prompt', 'image_url', 'mask_url']
-            }
-          },
-          {
-            name: 'style_transfer',
-            description: 'Apply the style of a reference image to generate a new image using Flux Schnell Redux. Fast style transformation with high-quality output.',
-            inputSchema: {
-              type: 'object',
-              properties: {
-                image_url: { type: 'string', description: 'URL of the style reference image' },
-                image_size: { type: 'string', description: 'Output image size preset', enum: ['square_hd', 'square', 'portrait_4_3', 'portrait_16_9', 'landscape_4_3', 'landscape_16_9'] },
-                num_inference_steps: { type: 'integer', description: 'Number of inference steps (1-4)', minimum: 1, maximum: 4 },
-                seed: { type: 'integer', description: 'Seed for reproducible generation' },
-                num_images: { type: 'integer', description: 'Number of images to generate', minimum: 1, maximum: 4 },
-                save_path: { type: 'string', description: 'File path to save the result' }
-              },
-              required: ['image_url']
+        const { dir, name, ext: fileExt } = path.parse(savePath);
+        return Array.from({ length: count }, (_, i) => path.join(dir, `${name}-${i + 1}${fileExt}`));
+      }
+
+      // Media tools, one per fal capability
+      // Tool descriptions name the model the tool runs by default. When the config replaces the
+      // built-in model, its endpoint is named instead, without the built-in model's strengths.
+      function describeTool(capability: Capability, task: string, strengths: string): string {
+        const { endpoint } = models.defaultFor(capability);
+        return endpoint === MODELS[capability]
+          ? `${task} using ${MODEL_NAMES[capability]}. ${strengths}`
+          : `${task} using ${endpoint}.`;
+      }
+
+      const mediaTools: Tool[] = [
+        // ─── Image Generation ───
+        {
+          name: 'generate_image',
+          description: describeTool('TEXT_TO_IMAGE', 'Generate images from text prompts', 'Returns high-quality images with excellent prompt adherence and typography support.'),
+          inputSchema: {
+            type: 'object',
+            properties: {
+              prompt: { type: 'string', description: 'Text prompt describing the image to generate' },
+              image_size: { type: 'string', description: 'Image size preset: "square_hd", "square", "portrait_4_3", "portrait_16_9", "landscape_4_3", "landscape_16_9"', enum: ['square_hd', 'square', 'portrait_4_3', 'portrait_16_9', 'landscape_4_3', 'landscape_16_9'] },
+              num_images: { type: 'integer', description: 'Number of images to generate (1-4)', minimum: 1, maximum: 4 },
+              seed: { type: 'integer', description: 'Seed for reproducible generation' },
+              output_format: { type: 'string', description: 'Output format: "png" or "jpeg"', enum: ['png', 'jpeg'] },
+              save_path: { type: 'string', description: 'File path to save the image. If not provided, auto-saves to output directory.' }
+            },
+            required: ['prompt']
+          }
+        },
+        {
+          name: 'edit_image',
+          description: describeTool('EDIT_IMAGE', 'Edit an existing image using text instructions', 'Supports local edits, style changes, object addition/removal, and scene transforms.'),
+          inputSchema: {
+            type: 'object',
+            properties: {
+              prompt: { type: 'string', description: 'Edit instructions describing what changes to make' },
+              image_url: { type: 'string', description: 'URL, local path or data URI of the source image to edit' },
+              image_size: { type: 'string', description: 'Output image size preset', enum: ['square_hd', 'square', 'portrait_4_3', 'portrait_16_9', 'landscape_4_3', 'landscape_16_9'] },
+              seed: { type: 'integer', description: 'Seed for reproducible generation' },
+              save_path: { type: 'string', description: 'File path to save the edited image' }
+            },
+            required: ['prompt', 'image_url']
+          }
+        },
+        {
+          name: 'image_to_image',
+          description: describeTool('IMAGE_TO_IMAGE', 'Transform an image using a text prompt', 'Applies style, content, or structural changes guided by the prompt while preserving aspects of the original.'),
+          inputSchema: {
+            type: 'object',
+            properties: {
+              prompt: { type: 'string', description: 'Text prompt to guide the transformation' },
+              image_url: { type: 'string', description: 'URL, local path or data URI of the source image' },
+              strength: { type: 'number', description: 'Prompt influence strength (0.0-1.0). Lower preserves more of the original.', minimum: 0, maximum: 1 },
+              image_size: { type: 'string', description: 'Output image size preset', enum: ['square_hd', 'square', 'portrait_4_3', 'portrait_16_9', 'landscape_4_3', 'landscape_16_9'] },
+              num_inference_steps: { type: 'integer', description: 'Number of inference steps (1-50)', minimum: 1, maximum: 50 },
+              seed: { type: 'integer', description: 'Seed for reproducible generation' },
+              num_images: { type: 'integer', description: 'Number of images to generate (1-4)', minimum: 1, maximum: 4 },
+              output_format: { type: 'string', description: 'Output format', enum: ['png', 'jpeg'] },
+              save_path: { type: 'string', description: 'File path to save the result' }
+            },
+            required: ['prompt', 'image_url']
+          }
+        },
+        {
+          name: 'inpaint',
+          description: describeTool('INPAINT', 'Fill in masked areas of an image', 'Provide an image, a mask (white = areas to fill), and a prompt describing what to generate in the masked region.'),
+          inputSchema: {
+            type: 'object',
+            properties: {
+              prompt: { type: 'string', description: 'Text prompt describing what to generate in the masked area' },
+              image_url: { type: 'string', description: 'URL, local path or data URI of the source image' },
+              mask_url: { type: 'string', description: 'URL, local path or data URI of the mask image (white areas = regions to inpaint)' },
+              image_size: { type: 'string', description: 'Output image size preset', enum: ['square_hd', 'square', 'portrait_4_3', 'portrait_16_9', 'landscape_4_3', 'landscape_16_9'] },
+              num_inference_steps: { type: 'integer', description: 'Number of inference steps', minimum: 1, maximum: 50 },
+              seed: { type: 'integer', description: 'Seed for reproducible generation' },
+              output_format: { type: 'string', description: 'Output format', enum: ['png', 'jpeg'] },
+              save_path: { type: 'string', description: 'File path to save the result' }
+            },
+            required: ['prompt', 'image_url', 'mask_url']
+          }
+        },
+        {
+          name: 'style_transfer',
+          description: describeTool('STYLE_TRANSFER', 'Apply the style of a reference image to generate a new image', 'Fast style transformation with high-quality output.'),
+          inputSchema: {
+            type: 'object',
+            properties: {
+              image_url: { type: 'string', description: 'URL, local path or data URI of the style reference image' },
+              image_size: { type: 'string', description: 'Output image size preset', enum: ['square_hd', 'square', 'portrait_4_3', 'portrait_16_9', 'landscape_4_3', 'landscape_16_9'] },
+              num_inference_steps: { type: 'integer', description: 'Number of inference steps (1-4)', minimum: 1, maximum: 4 },
+              seed: { type: 'integer', description: 'Seed for reproducible generation' },
+              num_images: { type: 'integer', description: 'Number of images to generate', minimum: 1, maximum: 4 },
+              save_path: { type: 'string', description: 'File path to save the result' }
+            },
+            required: ['image_url']
+          }
+        },
+
+        // ─── Video Generation ───
+        {
+          name: 'text_to_video',
+          description: describeTool('TEXT_TO_VIDEO', 'Generate video from a text prompt', 'Top-tier cinematic quality with fluid motion, precise prompt adherence, and optional audio.'),
+          inputSchema: {
+            type: 'object',
+            properties: {
+              prompt: { type: 'string', description: 'Text prompt describing the video content, scene, motion, and camera movement' },
+              duration: { type: 'string', description: 'Video duration in seconds: "5" or "10"', enum: ['5', '10'] },
+              aspect_ratio: { type: 'string', description: 'Aspect ratio: "16:9", "9:16", "1:1"', enum: ['16:9', '9:16', '1:1'] },
+              negative_prompt: { type: 'string', description: 'What to avoid in the video' },
+              save_path: { type: 'string', description: 'File path to save the video' }
+            },
+            required: ['prompt']
+          }
+        },
+        {
+          name: 'image_to_video',
+          description: describeTool('IMAGE_TO_VIDEO', 'Animate a still image into video', 'Generates cinematic video with natural motion from an input image and text prompt.'),
+          inputSchema: {
+            type: 'object',
+            properties: {
+              prompt: { type: 'string', description: 'Text prompt describing the desired motion and scene' },
+              image_url: { type: 'string', description: 'URL, local path or data URI of the input image to animate' },
+              duration: { type: 'string', description: 'Video duration: "5" or "10"', enum: ['5', '10'] },
+              aspect_ratio: { type: 'string', description: 'Aspect ratio: "16:9", "9:16", "1:1"', enum: ['16:9', '9:16', '1:1'] },
+              save_path: { type: 'string', description: 'File path to save the video' }
+            },
+            required: ['prompt', 'image_url']
+          }
+        },
+        {
+          name: 'lipsync',
+          description: describeTool('LIPSYNC', 'Synchronize lips in a video to match an audio track', 'The video character will appear to speak the audio naturally.'),
+          inputSchema: {
+            type: 'object',
+            properties: {
+              video_url: { type: 'string', description: 'URL, local path or data URI of the video containing the face to lipsync' },
+              audio_url: { type: 'string', description: 'URL, local path or data URI of the audio to sync lips to' },
+              save_path: { type: 'string', description: 'File path to save the result' }
+            },
+            required: ['video_url', 'audio_url']
+          }
+        },
+        {
+          name: 'avatar_video',
+          description: describeTool('AVATAR_VIDEO', 'Generate a realistic talking avatar video from a portrait image and audio', 'Creates natural head movement, gestures, and lip sync.'),
+          inputSchema: {
+            type: 'object',
+            properties: {
+              image_url: { type: 'string', description: 'URL, local path or data URI of a portrait/headshot image of the person' },
+              audio_url: { type: 'string', description: 'URL, local path or data URI of the audio the avatar should speak' },
+              save_path: { type: 'string', description: 'File path to save the video' }
+            },
+            required: ['image_url', 'audio_url']
+          }
+        },
+
+        // ─── Image Utilities ───
+        {
+          name: 'upscale_image',
+          description: describeTool('UPSCALE_IMAGE', 'Upscale and enhance image resolution', 'Increases quality and detail while preserving sharpness.'),
+          inputSchema: {
+            type: 'object',
+            properties: {
+              image_url: { type: 'string', description: 'URL, local path or data URI of the image to upscale' },
+              scale: { type: 'number', description: 'Upscale factor (e.g., 2 for 2x, 4 for 4x)', minimum: 1, maximum: 8 },
+              save_path: { type: 'string', description: 'File path to save the upscaled image' }
+            },
+            required: ['image_url']
+          }
+        },
+        {
+          name: 'upscale_video',
+          description: describeTool('UPSCALE_VIDEO', 'Upscale and enhance video resolution', 'Professional-grade video upscaling up to 8K with temporal consistency.'),
+          inputSchema: {
+            type: 'object',
+            properties: {
+              video_url: { type: 'string', description: 'URL, local path or data URI of the video to upscale' },
+              scale: { type: 'number', description: 'Upscale factor', minimum: 1, maximum: 4 },
+              save_path: { type: 'string', description: 'File path to save the upscaled video' }
+            },
+            required: ['video_url']
+          }
+        },
+        {
+          name: 'remove_background',
+          description: describeTool('REMOVE_BACKGROUND', 'Remove background from an image', 'Production-grade, commercially licensed background removal with clean edges.'),
+          inputSchema: {
+            type: 'object',
+            properties: {
+              image_url: { type: 'string', description: 'URL, local path or data URI of the image to remove the background from' },
+              save_path: { type: 'string', description: 'File path to save the result (PNG with transparency)' }
+            },
+            required: ['image_url']
+          }
+        },
+        {
+          name: 'remove_video_background',
+          description: describeTool('REMOVE_VIDEO_BACKGROUND', 'Remove background from a video', 'Smooth, consistent background removal across all frames.'),
+          inputSchema: {
+            type: 'object',
+            properties: {
+              video_url: { type: 'string', description: 'URL, local path or data URI of the video to remove the background from' },
+              save_path: { type: 'string', description: 'File path to save the result' }
+            },
+            required: ['video_url']
+          }
+        },
+        {
+          name: 'face_swap_image',
+          description: describeTool('FACE_SWAP_IMAGE', 'Swap a face in an image with another face', 'Realistically blends the swap face onto the base image while maintaining natural appearance.'),
+          inputSchema: {
+            type: 'object',
+            properties: {
+              base_image_url: { type: 'string', description: 'URL, local path or data URI of the target image (face to be replaced)' },
+              swap_image_url: { type: 'string', description: 'URL, local path or data URI of the source face image (face to use)' },
+              save_path: { type: 'string', description: 'File path to save the result' }
+            },
+            required: ['base_image_url', 'swap_image_url']
+          }
+        },
+        {
+          name: 'face_swap_video',
+          description: describeTool('FACE_SWAP_VIDEO', 'Swap a face throughout a video clip', 'Replaces the target face in every frame while maintaining natural movement and expressions.'),
+          inputSchema: {
+            type: 'object',
+            properties: {
+              base_video_url: { type: 'string', description: 'URL, local path or data URI of the target video (face to be replaced)' },
+              swap_image_url: { type: 'string', description: 'URL, local path or data URI of the source face image (face to use)' },
+              save_path: { type: 'string', description: 'File path to save the result' }
+            },
+            required: ['base_video_url', 'swap_image_url']
+          }
+        },
+        {
+          name: 'segment_image',
+          description: describeTool('SEGMENT_IMAGE', 'Detect and segment objects in an image', 'Returns segmentation masks for objects, optionally guided by a text prompt.'),
+          inputSchema: {
+            type: 'object',
+            properties: {
+              image_url: { type: 'string', description: 'URL, local path or data URI of the image to segment' },
+              prompt: { type: 'string', description: 'Optional text prompt to guide which objects to segment (e.g., "the red car")' },
+              save_path: { type: 'string', description: 'File path to save the segmentation result' }
+            },
+            required: ['image_url']
+          }
+        },
+        {
+          name: 'estimate_depth',
+          description: describeTool('ESTIMATE_DEPTH', 'Generate a depth map from an image', 'Outputs a grayscale depth map useful for 3D scene understanding and visualization.'),
+          inputSchema: {
+            type: 'object',
+            properties: {
+              image_url: { type: 'string', description: 'URL, local path or data URI of the image to estimate depth from' },
+              save_path: { type: 'string', description: 'File path to save the depth map' }
+            },
+            required: ['image_url']
+          }
+        },
+
+        // ─── Audio & Music ───
+        {
+          name: 'generate_music',
+          description: describeTool('GENERATE_MUSIC', 'Generate royalty-free instrumental music', 'Creates music from text descriptions of genre, mood, tempo, and instruments.'),
+          inputSchema: {
+            type: 'object',
+            properties: {
+              prompt: { type: 'string', description: 'Description of the music: genre, mood, tempo, instruments, energy' },
+              duration: { type: 'number', description: 'Duration in seconds' },
+              save_path: { type: 'string', description: 'File path to save the audio file' }
+            },
+            required: ['prompt']
+          }
+        },
+        {
+          name: 'text_to_speech',
+          description: describeTool('TEXT_TO_SPEECH', 'Convert text to natural-sounding speech', 'High-quality voice synthesis with optional voice selection and speed control.'),
+          inputSchema: {
+            type: 'object',
+            properties: {
+              text: { type: 'string', description: 'The text to convert to speech' },
+              voice_id: { type: 'string', description: 'Voice ID to use (optional, uses default if not specified)' },
+              speed: { type: 'number', description: 'Speech speed multiplier (0.5-2.0)', minimum: 0.5, maximum: 2.0 },
+              save_path: { type: 'string', description: 'File path to save the audio file' }
+            },
+            required: ['text']
+          }
+        },
+        {
+          name: 'generate_sound_effect',
+          description: describeTool('SOUND_EFFECT', 'Generate sound effects from text descriptions', 'Create professional-grade SFX for any scenario.'),
+          inputSchema: {
+            type: 'object',
+            properties: {
+              prompt: { type: 'string', description: 'Description of the sound effect (e.g., "thunder crack in a canyon", "footsteps on gravel")' },
+              duration_seconds: { type: 'number', description: 'Duration in seconds' },
+              save_path: { type: 'string', description: 'File path to save the audio file' }
+            },
+            required: ['prompt']
+          }
+        },
+
+        // ─── 3D ───
+        {
+          name: 'image_to_3d',
+          description: describeTool('IMAGE_TO_3D', 'Convert a 2D image into a 3D model', 'Generates a full 3D mesh with textures from a single image.'),
+          inputSchema: {
+            type: 'object',
+            properties: {
+              image_url: { type: 'string', description: 'URL, local path or data URI of the image to convert to 3D' },
+              save_path: { type: 'string', description: 'File path to save the 3D model (GLB format)' }
+            },
+            required: ['image_url']
+          }
+        },
+        {
+          name: 'retexture_3d',
+          description: describeTool('RETEXTURE_3D', 'Apply new textures to an existing 3D model', 'Generates high-quality PBR textures from text prompts or reference images.'),
+          inputSchema: {
+            type: 'object',
+            properties: {
+              model_url: { type: 'string', description: 'URL, local path or data URI of the 3D model file (GLB/OBJ) to retexture' },
+              prompt: { type: 'string', description: 'Text description of the desired texture style' },
+              reference_image_url: { type: 'string', description: 'Optional reference image (URL, local path or data URI) for texture style' },
+              save_path: { type: 'string', description: 'File path to save the retextured model' }
+            },
+            required: ['model_url', 'prompt']
+          }
+        }
+      ];
+
+      // Only offered when the result cache is on
+      const cacheOption = config.cache && {
+        cache: { type: 'string', enum: ['bypass', 'refresh'], description: 'Identical earlier requests are answered from the result cache for free. "bypass" skips the cache for this call; "refresh" runs the model again and replaces the cached outputs.' }
+      };
+
+      // Options accepted by every media tool on top of its own parameters
+      function withCommonOptions(tool: Tool): Tool {
+        const { capability } = TOOL_MODELS[tool.name];
+        const choices = Object.keys(models.aliases(capability));
+        return {
+          ...tool,
+          inputSchema: {
+            ...tool.inputSchema,
+            properties: {
+              ...tool.inputSchema.properties,
+              model: { type: 'string', description: `Model to use instead of the default (${models.defaultFor(capability).endpoint}). Accepts a name or an endpoint id from: ${choices.join(', ')}. See list_models.` },
+              async: { type: 'boolean', description: 'Submit to the fal queue and return a job id immediately instead of waiting. Collect the output later with job_result.' },
+              dry_run: { type: 'boolean', description: 'Validate the arguments and return the estimated cost without submitting anything.' },
+              ...(tool.inputSchema.properties?.prompt && guideForTool(tool.name) && {
+                enhance_prompt: { type: 'boolean', description: `Have your own model rewrite the prompt with the matching prompt guide before submitting (needs sampling support). Default: ${config.enhancePrompts}.` }
+              }),
+              ...cacheOption
             }
           },
+          outputSchema: GENERATION_OUTPUT_SCHEMA
+        };
+      }
 
-          // ─── Video Generation ───
-          {
-            name: 'text_to_video',
-            description: 'Generate video from a text prompt using Kling v3 Pro. Top-tier cinematic quality with fluid motion, precise prompt adherence, and optional audio.',
-            inputSchema: {
-              type: 'object',
-              properties: {
-                prompt: { type: 'string', description: 'Text prompt describing the video content, scene, motion, and camera movement' },
-                duration: { type: 'string', description: 'Video duration in seconds: "5" or "10"', enum: ['5', '10'] },
-                aspect_ratio: { type: 'string', description: 'Aspect ratio: "16:9", "9:16", "1:1"', enum: ['16:9', '9:16', '1:1'] },
-                negative_prompt: { type: 'string', description: 'What to avoid in the video' },
-                save_path: { type: 'string', description: 'File path to save the video' }
-              },
-              required: ['prompt']
-            }
+      // Tools for jobs submitted with async: true
+      const jobTools: Tool[] = [
+        {
+          name: 'job_status',
+          description: 'Check the status of an async job: queue position, progress and recent model logs.',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              job_id: { type: 'string', description: 'Job id returned when the job was submitted' }
+            },
+            required: ['job_id']
           },
-          {
-            name: 'image_to_video',
-            description: 'Animate a still image into video using Kling v3 Pro. Generates cinematic video with natural motion from an input image and text prompt.',
-            inputSchema: {
-              type: 'object',
-              properties: {
-                prompt: { type: 'string', description: 'Text prompt describing the desired motion and scene' },
-                image_url: { type: 'string', description: 'URL of the input image to animate' },
-                duration: { type: 'string', description: 'Video duration: "5" or "10"', enum: ['5', '10'] },
-                aspect_ratio: { type: 'string', description: 'Aspect ratio: "16:9", "9:16", "1:1"', enum: ['16:9', '9:16', '1:1'] },
-                save_path: { type: 'string', description: 'File path to save the video' }
-              },
-              required: ['prompt', 'image_url']
-            }
+          outputSchema: JOB_OUTPUT_SCHEMA
+        },
+        {
+          name: 'job_result',
+          description: 'Fetch the output of a finished async job. Downloads and saves the result exactly as the synchronous tool would.',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              job_id: { type: 'string', description: 'Job id returned when the job was submitted' }
+            },
+            required: ['job_id']
           },
-          {
-            name: 'lipsync',
-            description: 'Synchronize lips in a video to match an audio track using Sync LipSync v2. The video character will appear to speak the audio naturally.',
-            inputSchema: {
-              type: 'object',
-              properties: {
-                video_url: { type: 'string', description: 'URL of the video containing the face to lipsync' },
-                audio_url: { type: 'string', description: 'URL of the audio to sync lips to' },
-                save_path: { type: 'string', description: 'File path to save the result' }
-              },
-              required: ['video_url', 'audio_url']
-            }
+          outputSchema: GENERATION_OUTPUT_SCHEMA
+        },
+        {
+          name: 'job_cancel',
+          description: 'Cancel an async job that is still queued or running.',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              job_id: { type: 'string', description: 'Job id returned when the job was submitted' }
+            },
+            required: ['job_id']
           },
-          {
-            name: 'avatar_video',
-            description: 'Generate a realistic talking avatar video from a portrait image and audio using ByteDance OmniHuman v1.5. Creates natural head movement, gestures, and lip sync.',
-            inputSchema: {
-              type: 'object',
-              properties: {
-                image_url: { type: 'string', description: 'URL of a portrait/headshot image of the person' },
-                audio_url: { type: 'string', description: 'URL of the audio the avatar should speak' },
-                save_path: { type: 'string', description: 'File path to save the video' }
-              },
-              required: ['image_url', 'audio_url']
+          outputSchema: JOB_OUTPUT_SCHEMA
+        },
+        {
+          name: 'list_jobs',
+          description: 'List async jobs, newest first. Jobs are kept across server restarts.',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              state: { type: 'string', description: 'Only list jobs in this state', enum: ['IN_QUEUE', 'IN_PROGRESS', 'COMPLETED', 'FAILED', 'CANCELLED'] },
+              limit: { type: 'integer', description: 'Maximum number of jobs to list (default 20)', minimum: 1 }
             }
           },
-
-          // ─── Image Utilities ───
-          {
-            name: 'upscale_image',
-            description: 'Upscale and enhance image resolution using Topaz AI. Increases quality and detail while preserving sharpness.',
-            inputSchema: {
-              type: 'object',
-              properties: {
-                image_url: { type: 'string', description: 'URL of the image to upscale' },
-                scale: { type: 'number', description: 'Upscale factor (e.g., 2 for 2x, 4 for 4x)', minimum: 1, maximum: 8 },
-                save_path: { type: 'string', description: 'File path to save the upscaled image' }
-              },
-              required: ['image_url']
+          outputSchema: JOB_LIST_OUTPUT_SCHEMA
+        }
+      ];
+
+      // Tools describing the model registry, and running endpoints outside it
+      const modelTools: Tool[] = [
+        {
+          name: 'list_models',
+          description: 'Show which fal endpoint each tool will use and why (built-in default, config file or environment variable), plus the alternative models selectable with the `model` argument.',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              tool: { type: 'string', description: 'Only show this tool (e.g. "generate_image")' }
             }
           },
-          {
-            name: 'upscale_video',
-            description: 'Upscale and enhance video resolution using Topaz AI. Professional-grade video upscaling up to 8K with temporal consistency.',
-            inputSchema: {
-              type: 'object',
-              properties: {
-                video_url: { type: 'string', description: 'URL of the video to upscale' },
-                scale: { type: 'number', description: 'Upscale factor', minimum: 1, maximum: 4 },
-                save_path: { type: 'string', description: 'File path to save the upscaled video' }
-              },
-              required: ['video_url']
-            }
+          outputSchema: MODEL_LIST_OUTPUT_SCHEMA
+        },
+        {
+          name: 'run_model',
+          description: 'Run any fal.ai endpoint by id with a free-form input object. Image, video, audio and 3D outputs found anywhere in the result are downloaded and saved; the rest of the result is returned as JSON. While a spending budget is set, endpoints without a known price are refused unless the server is configured to allow them.',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              endpoint: { type: 'string', description: 'fal endpoint id, e.g. "fal-ai/flux/dev" or "fal-ai/recraft/v3/text-to-image"' },
+              input: { type: 'object', description: 'Input for the endpoint, as documented on its fal.ai model page. *_url fields accept local paths and data URIs.' },
+              long: { type: 'boolean', description: 'Use the extended timeout for slow models such as video, music and 3D' },
+              save_dir: { type: 'string', description: 'Directory to save outputs in. Defaults to the output directory.' },
+              async: { type: 'boolean', description: 'Submit to the fal queue and return a job id immediately instead of waiting. Collect the output later with job_result.' },
+              dry_run: { type: 'boolean', description: 'Validate the arguments and return the estimated cost without submitting anything.' },
+              ...cacheOption
+            },
+            required: ['endpoint', 'input']
           },
-          {
-            name: 'remove_background',
-            description: 'Remove background from an image using Bria RMBG 2.0. Production-grade, commercially licensed background removal with clean edges.',
-            inputSchema: {
-              type: 'object',
-              properties: {
-                image_url: { type: 'string', description: 'URL of the image to remove the background from' },
-                save_path: { type: 'string', description: 'File path to save the result (PNG with transparency)' }
-              },
-              required: ['image_url']
+          outputSchema: GENERATION_OUTPUT_SCHEMA
+        }
+      ];
+
+      // Tools for browsing and replaying past generations
+      const historyTools: Tool[] = [
+        {
+          name: 'list_generations',
+          description: 'List past generations from the local history, newest first. Filter by tool, prompt text or date.',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              tool: { type: 'string', description: 'Only list calls to this tool (e.g. "generate_image")' },
+              text: { type: 'string', description: 'Only list generations whose prompt contains this text (case-insensitive)' },
+              since: { type: 'string', description: 'Only list generations started at or after this date/time (ISO 8601, e.g. "2025-01-31")' },
+              until: { type: 'string', description: 'Only list generations started at or before this date/time (ISO 8601). A date alone includes that whole day.' },
+              limit: { type: 'integer', description: 'Maximum number of generations to list (default 20)', minimum: 1 }
             }
           },
-          {
-            name: 'remove_video_background',
-            description: 'Remove background from a video using Bria Video Background Removal. Smooth, consistent background removal across all frames.',
-            inputSchema: {
-              type: 'object',
-              properties: {
-                video_url: { type: 'string', description: 'URL of the video to remove the background from' },
-                save_path: { type: 'string', description: 'File path to save the result' }
-              },
-              required: ['video_url']
-            }
+          outputSchema: GENERATION_LIST_OUTPUT_SCHEMA
+        },
+        {
+          name: 'get_generation',
+          description: 'Show everything recorded about a past generation: arguments, model, seed, saved files and errors.',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              id: { type: 'string', description: 'Generation id from list_generations' }
+            },
+            required: ['id']
           },
-          {
-            name: 'face_swap_image',
-            description: 'Swap a face in an image with another face. Realistically blends the swap face onto the base image while maintaining natural appearance.',
-            inputSchema: {
-              type: 'object',
-              properties: {
-                base_image_url: { type: 'string', description: 'URL of the target image (face to be replaced)' },
-                swap_image_url: { type: 'string', description: 'URL of the source face image (face to use)' },
-                save_path: { type: 'string', description: 'File path to save the result' }
-              },
-              required: ['base_image_url', 'swap_image_url']
-            }
+          outputSchema: GENERATION_RECORD_OUTPUT_SCHEMA
+        },
+        {
+          name: 'regenerate',
+          description: 'Re-run a past generation with the same arguments, optionally overriding some of them (e.g. a new seed or image_size). Outputs are saved under new names unless save_path is overridden.',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              id: { type: 'string', description: 'Generation id from list_generations' },
+              overrides: { type: 'object', description: 'Arguments to change, e.g. { "image_size": "landscape_16_9", "seed": 1234 }. For run_model they are applied to the endpoint input.' },
+              async: { type: 'boolean', description: 'Submit to the fal queue and return a job id immediately instead of waiting.' }
+            },
+            required: ['id']
           },
-          {
-            name: 'face_swap_video',
-            description: 'Swap a face throughout a video clip. Replaces the target face in every frame while maintaining natural movement and expressions.',
-            inputSchema: {
-              type: 'object',
-              properties: {
-                base_video_url: { type: 'string', description: 'URL of the target video (face to be replaced)' },
-                swap_image_url: { type: 'string', description: 'URL of the source face image (face to use)' },
-                save_path: { type: 'string', description: 'File path to save the result' }
+          outputSchema: GENERATION_OUTPUT_SCHEMA
+        }
+      ];
+
+      // Tool for chaining media tools in one call, with named workflows from the config file
+      const savedWorkflows = workflows.names();
+      const workflowTools: Tool[] = [
+        {
+          name: 'run_workflow',
+          description: 'Run several media tools in one call, passing each step\'s output to the next. A step\'s missing required image_url, video_url, audio_url or model_url is filled from the steps it needs; other arguments can use "{{step_id}}" or "{{step_id.image}}" (also .video, .audio, .model3d) for another step\'s output URL. Steps run as soon as the steps they need finish. Intermediate outputs are not downloaded unless save_intermediates is set.'
+            + (savedWorkflows.length ? ` Saved workflows: ${savedWorkflows.join(', ')}.` : ''),
+          inputSchema: {
+            type: 'object',
+            properties: {
+              name: { type: 'string', description: 'Run a workflow saved in the config file instead of giving steps' },
+              inputs: { type: 'object', description: 'Values for a saved workflow\'s {{inputs.name}} placeholders' },
+              steps: {
+                type: 'array',
+                description: 'Steps to run. By default each step needs the one before it, so a plain list is a chain.',
+                items: {
+                  type: 'object',
+                  properties: {
+                    id: { type: 'string', description: 'Name to refer to this step by (default: its position, "1", "2", ...)' },
+                    tool: { type: 'string', description: 'Media tool to call, e.g. "generate_image", or "run_model"' },
+                    arguments: { type: 'object', description: 'The tool\'s arguments' },
+                    needs: { type: 'array', items: { type: 'string' }, description: 'Ids of the steps whose outputs this step uses. [] makes it independent.' }
+                  },
+                  required: ['tool']
+                }
               },
-              required: ['base_video_url', 'swap_image_url']
+              save_intermediates: { type: 'boolean', description: 'Also download the outputs of steps that feed later ones (default false)' },
+              dry_run: { type: 'boolean', description: 'Check the steps and estimate the total cost without submitting anything' }
             }
           },
-          {
-            name: 'segment_image',
-            description: 'Detect and segment objects in an image using SAM 3. Returns segmentation masks for objects, optionally guided by a text prompt.',
-            inputSchema: {
-              type: 'object',
-              properties: {
-                image_url: { type: 'string', description: 'URL of the image to segment' },
-                prompt: { type: 'string', description: 'Optional text prompt to guide which objects to segment (e.g., "the red car")' },
-                save_path: { type: 'string', description: 'File path to save the segmentation result' }
-              },
-              required: ['image_url']
-            }
+          outputSchema: WORKFLOW_OUTPUT_SCHEMA
+        }
+      ];
+
+      // Tool for running many calls from a manifest file
+      const batchTools: Tool[] = [
+        {
+          name: 'run_batch',
+          description: 'Run many tool calls from a CSV or JSONL manifest file, one call per row, a few at a time. Results and failures are written to an output manifest, and running the same manifest again resumes it: rows that already completed are skipped.',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              manifest: { type: 'string', description: 'Path to a .csv (header row of argument names, plus optional "id" and "tool" columns) or .jsonl file (one object per line with "tool" and "arguments", or the arguments at the top level)' },
+              tool: { type: 'string', description: 'Tool for rows that do not name one, e.g. "generate_image"' },
+              output: { type: 'string', description: 'Path of the output manifest (default: <manifest name>.results.jsonl next to the manifest)' },
+              concurrency: { type: 'integer', description: `Rows running at once (default ${BATCH_CONCURRENCY}, at most ${MAX_BATCH_CONCURRENCY}). fal requests are also limited by FAL_CONCURRENCY_*.`, minimum: 1, maximum: MAX_BATCH_CONCURRENCY },
+              resume: { type: 'boolean', description: 'Skip rows that already completed with the same arguments (default true). false runs every row again.' },
+              dry_run: { type: 'boolean', description: 'Check every row and estimate the total cost without submitting anything' }
+            },
+            required: ['manifest']
           },
-          {
-            name: 'estimate_depth',
-            description: 'Generate a depth map from an image using Marigold Depth Estimation. Outputs a grayscale depth map useful for 3D scene understanding and visualization.',
-            inputSchema: {
-              type: 'object',
-              properties: {
-                image_url: { type: 'string', description: 'URL of the image to estimate depth from' },
-                save_path: { type: 'string', description: 'File path to save the depth map' }
-              },
-              required: ['image_url']
-            }
+          outputSchema: BATCH_OUTPUT_SCHEMA
+        }
+      ];
+
+      // Tool for trying one prompt on several models
+      const compareTools: Tool[] = [
+        {
+          name: 'compare_models',
+          description: 'Run the same arguments and seed on several models for a tool (e.g. Flux variants for generate_image, Kling versions for text_to_video) and compare them side by side. Each output is saved under the model\'s name, and the result has a contact sheet image and a table of time and cost per model. Optionally sweeps several seeds.',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              tool: { type: 'string', description: 'Media tool to run, e.g. "generate_image" or "text_to_video"' },
+              arguments: { type: 'object', description: 'The tool\'s arguments, e.g. { "prompt": "..." }, without model' },
+              models: { type: 'array', items: { type: 'string' }, description: `Models to compare, by name or endpoint id as listed by list_models (at most ${MAX_COMPARED_MODELS})` },
+              seeds: { type: 'array', items: { type: 'integer' }, description: `Seeds to run every model with (at most ${MAX_COMPARED_SEEDS}). Default: one shared seed, taken from arguments or picked at random.` },
+              save_dir: { type: 'string', description: 'Directory for the outputs and contact sheet (default: a new compare-<timestamp> directory in the output directory)' },
+              dry_run: { type: 'boolean', description: 'Check the runs and estimate their cost without submitting anything' }
+            },
+            required: ['tool', 'arguments', 'models']
           },
-
-          // ─── Audio & Music ───
-          {
-            name: 'generate_music',
-            description: 'Generate royalty-free instrumental music using Beatoven. Creates music from text descriptions of genre, mood, tempo, and instruments.',
-            inputSchema: {
-              type: 'object',
-              properties: {
-                prompt: { type: 'string', description: 'Description of the music: genre, mood, tempo, instruments, energy' },
-                duration: { type: 'number', description: 'Duration in seconds' },
-                save_path: { type: 'string', description: 'File path to save the audio file' }
-              },
-              required: ['prompt']
-            }
+          outputSchema: COMPARISON_OUTPUT_SCHEMA
+        }
+      ];
+
+      // Tools for what calls cost and what has been spent
+      const costTools: Tool[] = [
+        {
+          name: 'estimate_cost',
+          description: 'Estimate what a tool call would cost on fal.ai, using approximate list prices, without running it. Also shows how much of the daily and monthly budgets is left.',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              tool: { type: 'string', description: 'Tool to estimate, e.g. "text_to_video" or "run_model"' },
+              arguments: { type: 'object', description: 'Arguments the tool would be called with' }
+            },
+            required: ['tool']
           },
-          {
-            name: 'text_to_speech',
-            description: 'Convert text to natural-sounding speech using MiniMax Speech-02 HD. High-quality voice synthesis with optional voice selection and speed control.',
-            inputSchema: {
-              type: 'object',
-              properties: {
-                text: { type: 'string', description: 'The text to convert to speech' },
-                voice_id: { type: 'string', description: 'Voice ID to use (optional, uses default if not specified)' },
-                speed: { type: 'number', description: 'Speech speed multiplier (0.5-2.0)', minimum: 0.5, maximum: 2.0 },
-                save_path: { type: 'string', description: 'File path to save the audio file' }
-              },
-              required: ['text']
+          outputSchema: COST_ESTIMATE_OUTPUT_SCHEMA
+        },
+        {
+          name: 'spending_report',
+          description: 'Show spending so far today and this month, per tool, against the configured budgets.',
+          inputSchema: { type: 'object', properties: {} },
+          outputSchema: SPENDING_OUTPUT_SCHEMA
+        }
+      ];
+
+      // Tools for the result cache
+      const cacheTools: Tool[] = [
+        {
+          name: 'cache_stats',
+          description: 'Show what the result cache holds: entries and disk use per tool, hits and misses, and roughly how much the hits saved.',
+          inputSchema: { type: 'object', properties: {} },
+          outputSchema: CACHE_STATS_OUTPUT_SCHEMA
+        },
+        {
+          name: 'cache_clear',
+          description: 'Delete cached results, so the next identical request runs the model again. Saved outputs in the output directory are not touched.',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              tool: { type: 'string', description: 'Only delete entries made by this tool, e.g. "generate_image"' },
+              expired: { type: 'boolean', description: 'Only delete entries older than the cache\'s time to live' }
             }
           },
-          {
-            name: 'generate_sound_effect',
-            description: 'Generate sound effects from text descriptions using Stable Audio. Create professional-grade SFX for any scenario.',
-            inputSchema: {
-              type: 'object',
-              properties: {
-                prompt: { type: 'string', description: 'Description of the sound effect (e.g., "thunder crack in a canyon", "footsteps on gravel")' },
-                duration_seconds: { type: 'number', description: 'Duration in seconds' },
-                save_path: { type: 'string', description: 'File path to save the audio file' }
-              },
-              required: ['prompt']
+          outputSchema: CACHE_CLEAR_OUTPUT_SCHEMA
+        }
+      ];
+
+      // Tools for the server's own settings
+      const configTools: Tool[] = [
+        {
+          name: 'show_config',
+          description: 'Show the effective configuration, merged from ~/.falrc.json, the project config file and environment variables, with the API key and tokens redacted. With tool, show the timeout, default arguments and output directory that tool\'s calls get.',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              section: { type: 'string', description: 'Only show this part of the configuration, e.g. "tools", "models" or "budgets"' },
+              tool: { type: 'string', description: 'Show the settings a tool\'s calls get, e.g. "generate_image"' }
             }
           },
+          outputSchema: CONFIG_OUTPUT_SCHEMA
+        }
+      ];
 
-          // ─── 3D ───
-          {
-            name: 'image_to_3d',
-            description: 'Convert a 2D image into a 3D model using Tripo3D. Generates a full 3D mesh with textures from a single image.',
-            inputSchema: {
-              type: 'object',
-              properties: {
-                image_url: { type: 'string', description: 'URL of the image to convert to 3D' },
-                save_path: { type: 'string', description: 'File path to save the 3D model (GLB format)' }
-              },
-              required: ['image_url']
-            }
-          },
-          {
-            name: 'retexture_3d',
-            description: 'Apply new textures to an existing 3D model using Meshy-5 Retexture. Generates high-quality PBR textures from text prompts or reference images.',
-            inputSchema: {
-              type: 'object',
-              properties: {
-                model_url: { type: 'string', description: 'URL of the 3D model file (GLB/OBJ) to retexture' },
-                prompt: { type: 'string', description: 'Text description of the desired texture style' },
-                reference_image_url: { type: 'string', description: 'Optional reference image URL for texture style' },
-                save_path: { type: 'string', description: 'File path to save the retextured model' }
-              },
-              required: ['model_url', 'prompt']
-            }
-          }
-        ]
-      };
-    });
+      // Register tools/list handler
+      server.setRequestHandler(ListToolsRequestSchema, async () => {
+        return {
+          tools: [...mediaTools.map(withCommonOptions), ...jobTools, ...modelTools, ...historyTools, ...costTools, ...workflowTools, ...batchTools, ...compareTools, ...cacheTools, ...configTools]
+        };
+      });
+
+      // Resolve a media tool call to the fal endpoint and input it maps to
+      function prepareCall(name: string, args: Record<string, unknown>): ToolCall {
+        if (name === 'run_model') {
+          const schema = z.object({
+            endpoint: z.string().regex(/^[\w.-]+\/[\w.\/-]+$/, 'Expected a fal endpoint id such as "fal-ai/flux/dev"'),
+            input: z.record(z.any()),
+            long: z.boolean().optional(),
+            save_dir: z.string().optional()
+          });
+          const params = schema.parse(args);
+          if (params.save_dir !== undefined) params.save_dir = localPath(params.save_dir, 'save_dir');
+          return { tool: name, model: params.endpoint, long: params.long ?? false, input: params.input, params };
+        }
 
-    // Register tools/call handler
-    server.setRequestHandler(CallToolRequestSchema, async (request) => {
-      try {
-        const { name, arguments: args } = request.params;
+        const tool = TOOL_MODELS[name];
+        if (!tool) throw new Error(`Unknown tool: ${name}`);
 
-        switch (name) {
+        const { model, ...toolArgs } = args;
+        const { input, params } = parseToolArgs(name, toolArgs);
+        if (typeof params.save_path === 'string') params.save_path = localPath(params.save_path, 'save_path');
+        const choice = models.resolve(tool.capability, typeof model === 'string' ? model : undefined);
+        return { tool: name, model: choice.endpoint, long: tool.long, input, params };
+      }
 
+      // Validate a media tool's own arguments and split off local-only options
+      function parseToolArgs(name: string, args: unknown): { input: Record<string, any>; params: Record<string, any> } {
+        switch (name) {
           // ─── Image Generation ───
 
           case 'generate_image': {
@@ -426,25 +873,9 @@ async function main() {
               output_format: z.string().optional(),
               save_path: z.string().optional()
             });
-            const input = schema.parse(args);
-            const { save_path, ...apiInput } = input;
-            const result = await client.generateImage(apiInput);
-            const urls = extractImageUrls(result.data);
-
-            if (urls.length === 0) {
-              return { content: [{ type: 'text', text: 'No image was generated. Try rephrasing your prompt.' }], isError: true };
-            }
-
-            const savePath = save_path || getAutoSavePath('generated', input.output_format || 'png');
-            await downloadFile(urls[0], savePath);
-
-            const textParts = [`Image generated and saved to: ${savePath}`];
-            if (urls.length > 1) {
-              textParts.push(`\nAdditional images: ${urls.slice(1).join(', ')}`);
-            }
-            if (result.data.seed !== undefined) textParts.push(`\nSeed: ${result.data.seed}`);
-
-            return { content: [{ type: 'text', text: textParts.join('') }] };
+            const params = schema.parse(args);
+            const { save_path, ...input } = params;
+            return { input, params };
           }
 
           case 'edit_image': {
@@ -455,19 +886,9 @@ async function main() {
               seed: z.number().int().optional(),
               save_path: z.string().optional()
             });
-            const input = schema.parse(args);
-            const { save_path, ...apiInput } = input;
-            const result = await client.editImage(apiInput);
-            const urls = extractImageUrls(result.data);
-
-            if (urls.length === 0) {
-              return { content: [{ type: 'text', text: 'No edited image was generated. Try rephrasing your prompt.' }], isError: true };
-            }
-
-            const savePath = save_path || getAutoSavePath('edited', 'png');
-            await downloadFile(urls[0], savePath);
-
-            return { content: [{ type: 'text', text: `Edited image saved to: ${savePath}` }] };
+            const params = schema.parse(args);
+            const { save_path, ...input } = params;
+            return { input, params };
           }
 
           case 'image_to_image': {
@@ -482,19 +903,9 @@ async function main() {
               output_format: z.string().optional(),
               save_path: z.string().optional()
             });
-            const input = schema.parse(args);
-            const { save_path, ...apiInput } = input;
-            const result = await client.imageToImage(apiInput);
-            const urls = extractImageUrls(result.data);
-
-            if (urls.length === 0) {
-              return { content: [{ type: 'text', text: 'No image was generated. Try rephrasing your prompt.' }], isError: true };
-            }
-
-            const savePath = save_path || getAutoSavePath('img2img', input.output_format || 'png');
-            await downloadFile(urls[0], savePath);
-
-            return { content: [{ type: 'text', text: `Transformed image saved to: ${savePath}` }] };
+            const params = schema.parse(args);
+            const { save_path, ...input } = params;
+            return { input, params };
           }
 
           case 'inpaint': {
@@ -508,19 +919,9 @@ async function main() {
               output_format: z.string().optional(),
               save_path: z.string().optional()
             });
-            const input = schema.parse(args);
-            const { save_path, ...apiInput } = input;
-            const result = await client.inpaint(apiInput);
-            const urls = extractImageUrls(result.data);
-
-            if (urls.length === 0) {
-              return { content: [{ type: 'text', text: 'Inpainting failed. Try a different prompt or mask.' }], isError: true };
-            }
-
-            const savePath = save_path || getAutoSavePath('inpainted', input.output_format || 'png');
-            await downloadFile(urls[0], savePath);
-
-            return { content: [{ type: 'text', text: `Inpainted image saved to: ${savePath}` }] };
+            const params = schema.parse(args);
+            const { save_path, ...input } = params;
+            return { input, params };
           }
 
           case 'style_transfer': {
@@ -532,19 +933,9 @@ async function main() {
               num_images: z.number().int().min(1).max(4).optional(),
               save_path: z.string().optional()
             });
-            const input = schema.parse(args);
-            const { save_path, ...apiInput } = input;
-            const result = await client.styleTransfer(apiInput);
-            const urls = extractImageUrls(result.data);
-
-            if (urls.length === 0) {
-              return { content: [{ type: 'text', text: 'Style transfer failed. Try a different reference image.' }], isError: true };
-            }
-
-            const savePath = save_path || getAutoSavePath('style-transfer', 'png');
-            await downloadFile(urls[0], savePath);
-
-            return { content: [{ type: 'text', text: `Style transfer result saved to: ${savePath}` }] };
+            const params = schema.parse(args);
+            const { save_path, ...input } = params;
+            return { input, params };
           }
 
           // ─── Video Generation ───
@@ -557,19 +948,9 @@ async function main() {
               negative_prompt: z.string().optional(),
               save_path: z.string().optional()
             });
-            const input = schema.parse(args);
-            const { save_path, ...apiInput } = input;
-            const result = await client.textToVideo(apiInput);
-            const url = extractVideoUrl(result.data);
-
-            if (!url) {
-              return { content: [{ type: 'text', text: 'No video was generated. Try rephrasing your prompt.' }], isError: true };
-            }
-
-            const savePath = save_path || getAutoSavePath('text2video', 'mp4');
-            await downloadFile(url, savePath);
-
-            return { content: [{ type: 'text', text: `Video generated and saved to: ${savePath}` }] };
+            const params = schema.parse(args);
+            const { save_path, ...input } = params;
+            return { input, params };
           }
 
           case 'image_to_video': {
@@ -580,19 +961,9 @@ async function main() {
               aspect_ratio: z.string().optional(),
               save_path: z.string().optional()
             });
-            const input = schema.parse(args);
-            const { save_path, ...apiInput } = input;
-            const result = await client.imageToVideo(apiInput);
-            const url = extractVideoUrl(result.data);
-
-            if (!url) {
-              return { content: [{ type: 'text', text: 'No video was generated. Try a different image or prompt.' }], isError: true };
-            }
-
-            const savePath = save_path || getAutoSavePath('img2video', 'mp4');
-            await downloadFile(url, savePath);
-
-            return { content: [{ type: 'text', text: `Video generated and saved to: ${savePath}` }] };
+            const params = schema.parse(args);
+            const { save_path, ...input } = params;
+            return { input, params };
           }
 
           case 'lipsync': {
@@ -601,19 +972,9 @@ async function main() {
               audio_url: z.string().min(1),
               save_path: z.string().optional()
             });
-            const input = schema.parse(args);
-            const { save_path, ...apiInput } = input;
-            const result = await client.lipsync(apiInput);
-            const url = extractVideoUrl(result.data);
-
-            if (!url) {
-              return { content: [{ type: 'text', text: 'Lipsync failed. Check that the video contains a visible face and the audio is clear.' }], isError: true };
-            }
-
-            const savePath = save_path || getAutoSavePath('lipsync', 'mp4');
-            await downloadFile(url, savePath);
-
-            return { content: [{ type: 'text', text: `Lipsync video saved to: ${savePath}` }] };
+            const params = schema.parse(args);
+            const { save_path, ...input } = params;
+            return { input, params };
           }
 
           case 'avatar_video': {
@@ -622,19 +983,9 @@ async function main() {
               audio_url: z.string().min(1),
               save_path: z.string().optional()
             });
-            const input = schema.parse(args);
-            const { save_path, ...apiInput } = input;
-            const result = await client.avatarVideo(apiInput);
-            const url = extractVideoUrl(result.data);
-
-            if (!url) {
-              return { content: [{ type: 'text', text: 'Avatar video generation failed. Ensure the image is a clear portrait/headshot.' }], isError: true };
-            }
-
-            const savePath = save_path || getAutoSavePath('avatar', 'mp4');
-            await downloadFile(url, savePath);
-
-            return { content: [{ type: 'text', text: `Avatar video saved to: ${savePath}` }] };
+            const params = schema.parse(args);
+            const { save_path, ...input } = params;
+            return { input, params };
           }
 
           // ─── Image Utilities ───
@@ -645,19 +996,9 @@ async function main() {
               scale: z.number().min(1).max(8).optional(),
               save_path: z.string().optional()
             });
-            const input = schema.parse(args);
-            const { save_path, ...apiInput } = input;
-            const result = await client.upscaleImage(apiInput);
-            const urls = extractImageUrls(result.data);
-
-            if (urls.length === 0) {
-              return { content: [{ type: 'text', text: 'Upscaling failed.' }], isError: true };
-            }
-
-            const savePath = save_path || getAutoSavePath('upscaled', 'png');
-            await downloadFile(urls[0], savePath);
-
-            return { content: [{ type: 'text', text: `Upscaled image saved to: ${savePath}` }] };
+            const params = schema.parse(args);
+            const { save_path, ...input } = params;
+            return { input, params };
           }
 
           case 'upscale_video': {
@@ -666,19 +1007,9 @@ async function main() {
               scale: z.number().min(1).max(4).optional(),
               save_path: z.string().optional()
             });
-            const input = schema.parse(args);
-            const { save_path, ...apiInput } = input;
-            const result = await client.upscaleVideo(apiInput);
-            const url = extractVideoUrl(result.data);
-
-            if (!url) {
-              return { content: [{ type: 'text', text: 'Video upscaling failed.' }], isError: true };
-            }
-
-            const savePath = save_path || getAutoSavePath('upscaled', 'mp4');
-            await downloadFile(url, savePath);
-
-            return { content: [{ type: 'text', text: `Upscaled video saved to: ${savePath}` }] };
+            const params = schema.parse(args);
+            const { save_path, ...input } = params;
+            return { input, params };
           }
 
           case 'remove_background': {
@@ -686,19 +1017,9 @@ async function main() {
               image_url: z.string().min(1),
               save_path: z.string().optional()
             });
-            const input = schema.parse(args);
-            const { save_path, ...apiInput } = input;
-            const result = await client.removeBackground(apiInput);
-            const urls = extractImageUrls(result.data);
-
-            if (urls.length === 0) {
-              return { content: [{ type: 'text', text: 'Background removal failed.' }], isError: true };
-            }
-
-            const savePath = save_path || getAutoSavePath('no-bg', 'png');
-            await downloadFile(urls[0], savePath);
-
-            return { content: [{ type: 'text', text: `Background removed. Saved to: ${savePath}` }] };
+            const params = schema.parse(args);
+            const { save_path, ...input } = params;
+            return { input, params };
           }
 
           case 'remove_video_background': {
@@ -706,19 +1027,9 @@ async function main() {
               video_url: z.string().min(1),
               save_path: z.string().optional()
             });
-            const input = schema.parse(args);
-            const { save_path, ...apiInput } = input;
-            const result = await client.removeVideoBackground(apiInput);
-            const url = extractVideoUrl(result.data);
-
-            if (!url) {
-              return { content: [{ type: 'text', text: 'Video background removal failed.' }], isError: true };
-            }
-
-            const savePath = save_path || getAutoSavePath('no-bg-video', 'mp4');
-            await downloadFile(url, savePath);
-
-            return { content: [{ type: 'text', text: `Video background removed. Saved to: ${savePath}` }] };
+            const params = schema.parse(args);
+            const { save_path, ...input } = params;
+            return { input, params };
           }
 
           case 'face_swap_image': {
@@ -727,19 +1038,9 @@ async function main() {
               swap_image_url: z.string().min(1),
               save_path: z.string().optional()
             });
-            const input = schema.parse(args);
-            const { save_path, ...apiInput } = input;
-            const result = await client.faceSwapImage(apiInput);
-            const urls = extractImageUrls(result.data);
-
-            if (urls.length === 0) {
-              return { content: [{ type: 'text', text: 'Face swap failed. Ensure both images contain clear, visible faces.' }], isError: true };
-            }
-
-            const savePath = save_path || getAutoSavePath('face-swap', 'png');
-            await downloadFile(urls[0], savePath);
-
-            return { content: [{ type: 'text', text: `Face swap result saved to: ${savePath}` }] };
+            const params = schema.parse(args);
+            const { save_path, ...input } = params;
+            return { input, params };
           }
 
           case 'face_swap_video': {
@@ -748,19 +1049,9 @@ async function main() {
               swap_image_url: z.string().min(1),
               save_path: z.string().optional()
             });
-            const input = schema.parse(args);
-            const { save_path, ...apiInput } = input;
-            const result = await client.faceSwapVideo(apiInput);
-            const url = extractVideoUrl(result.data);
-
-            if (!url) {
-              return { content: [{ type: 'text', text: 'Video face swap failed. Ensure the video has a clear face and the swap image is a good headshot.' }], isError: true };
-            }
-
-            const savePath = save_path || getAutoSavePath('face-swap-video', 'mp4');
-            await downloadFile(url, savePath);
-
-            return { content: [{ type: 'text', text: `Face swap video saved to: ${savePath}` }] };
+            const params = schema.parse(args);
+            const { save_path, ...input } = params;
+            return { input, params };
           }
 
           case 'segment_image': {
@@ -769,20 +1060,9 @@ async function main() {
               prompt: z.string().optional(),
               save_path: z.string().optional()
             });
-            const input = schema.parse(args);
-            const { save_path, ...apiInput } = input;
-            const result = await client.segmentImage(apiInput);
-
-            let responseText = `Segmentation complete.\n\nRaw result:\n${JSON.stringify(result.data, null, 2)}`;
-
-            // Try to save mask if available
-            const urls = extractImageUrls(result.data);
-            if (urls.length > 0 && save_path) {
-              await downloadFile(urls[0], save_path);
-              responseText += `\n\nMask saved to: ${save_path}`;
-            }
-
-            return { content: [{ type: 'text', text: responseText }] };
+            const params = schema.parse(args);
+            const { save_path, ...input } = params;
+            return { input, params };
           }
 
           case 'estimate_depth': {
@@ -790,19 +1070,9 @@ async function main() {
               image_url: z.string().min(1),
               save_path: z.string().optional()
             });
-            const input = schema.parse(args);
-            const { save_path, ...apiInput } = input;
-            const result = await client.estimateDepth(apiInput);
-            const urls = extractImageUrls(result.data);
-
-            if (urls.length === 0) {
-              return { content: [{ type: 'text', text: `Depth estimation complete.\n\nRaw result:\n${JSON.stringify(result.data, null, 2)}` }] };
-            }
-
-            const savePath = save_path || getAutoSavePath('depth', 'png');
-            await downloadFile(urls[0], savePath);
-
-            return { content: [{ type: 'text', text: `Depth map saved to: ${savePath}` }] };
+            const params = schema.parse(args);
+            const { save_path, ...input } = params;
+            return { input, params };
           }
 
           // ─── Audio & Music ───
@@ -813,60 +1083,392 @@ async function main() {
               duration: z.number().optional(),
               save_path: z.string().optional()
             });
-            const input = schema.parse(args);
-            const { save_path, ...apiInput } = input;
-            const result = await client.generateMusic(apiInput);
-            const url = extractAudioUrl(result.data);
+            const params = schema.parse(args);
+            const { save_path, ...input } = params;
+            return { input, params };
+          }
+
+          case 'text_to_speech': {
+            const schema = z.object({
+              text: z.string().min(1),
+              voice_id: z.string().optional(),
+              speed: z.number().min(0.5).max(2.0).optional(),
+              save_path: z.string().optional()
+            });
+            const params = schema.parse(args);
+            const { save_path, ...input } = params;
+            return { input, params };
+          }
+
+          case 'generate_sound_effect': {
+            const schema = z.object({
+              prompt: z.string().min(1),
+              duration_seconds: z.number().optional(),
+              save_path: z.string().optional()
+            });
+            const params = schema.parse(args);
+            const { save_path, ...input } = params;
+            return { input, params };
+          }
+
+          // ─── 3D ───
+
+          case 'image_to_3d': {
+            const schema = z.object({
+              image_url: z.string().min(1),
+              save_path: z.string().optional()
+            });
+            const params = schema.parse(args);
+            const { save_path, ...input } = params;
+            return { input, params };
+          }
+
+          case 'retexture_3d': {
+            const schema = z.object({
+              model_url: z.string().min(1),
+              prompt: z.string().min(1),
+              reference_image_url: z.string().optional(),
+              save_path: z.string().optional()
+            });
+            const params = schema.parse(args);
+            const { save_path, ...input } = params;
+            return { input, params };
+          }
+
+          default:
+            throw new Error(`Unknown tool: ${name}`);
+        }
+      }
+
+      // Download and save a finished fal result the way each tool reports it
+      async function finishCall(
+        call: ToolCall,
+        result: FalResult,
+        {
+          signal,
+          startedAt,
+          localCopies,
+          onSave
+        }: {
+          signal?: AbortSignal;
+          startedAt?: string;
+          // Copies of the outputs already on disk (from the result cache), by their fal URL
+          localCopies?: Map<string, string>;
+          onSave?: (savePath: string, url: string) => void;
+        } = {}
+      ): Promise<CallToolResult> {
+        const input = call.params;
+        const completedAt = new Date().toISOString();
+        const save_path: string | undefined = input.save_path;
+        // Save path(s) for this call's outputs, named after the tool and seed
+        const savePathsFor = (prefix: string, ext: string, count = 1) =>
+          getSavePaths(save_path, prefix, ext, count, { tool: call.tool, seed: result.data?.seed });
+        // Download one output and record where it came from next to it
+        const save = async (url: string, savePath: string, index = 1, count = 1) => {
+          paths.check(savePath, 'save_path');
+          const copy = localCopies?.get(url);
+          if (copy) {
+            fs.mkdirSync(path.dirname(savePath), { recursive: true });
+            fs.copyFileSync(copy, savePath);
+          } else {
+            await downloadFile(url, savePath, signal);
+          }
+          onSave?.(savePath, url);
+          recordProvenance(savePath, {
+            tool: call.tool,
+            model: call.model,
+            request_id: result.requestId,
+            input: call.input,
+            params: call.params,
+            seed: result.data?.seed,
+            source_url: url,
+            input_urls: collectInputUrls(call.input),
+            output: { file: path.basename(savePath), index, count },
+            timings: {
+              started_at: startedAt,
+              completed_at: completedAt,
+              duration_ms: startedAt ? Date.parse(completedAt) - Date.parse(startedAt) : undefined,
+              model: result.data?.timings
+            },
+            created_at: new Date().toISOString()
+          });
+          announceFile(savePath);
+        };
+        const saveAll = async (urls: string[], savePaths: string[]) => {
+          for (const [index, url] of urls.entries()) {
+            await save(url, savePaths[index], index + 1, urls.length);
+          }
+        };
+        const listSaved = (paths: string[]) => (paths.length === 1 ? paths[0] : `\n${paths.map((p) => `- ${p}`).join('\n')}`);
+
+        switch (call.tool) {
+          // ─── Image Generation ───
+
+          case 'generate_image': {
+            const urls = extractImageUrls(result.data);
+
+            if (urls.length === 0) {
+              return { content: [{ type: 'text', text: 'No image was generated. Try rephrasing your prompt.' }], isError: true };
+            }
+
+            const savePaths = savePathsFor('generated', input.output_format || 'png', urls.length);
+            await saveAll(urls, savePaths);
+
+            const textParts = [`${urls.length > 1 ? 'Images' : 'Image'} generated and saved to: ${listSaved(savePaths)}`];
+            if (result.data.seed !== undefined) textParts.push(`\nSeed: ${result.data.seed}`);
+
+            return { content: [{ type: 'text', text: textParts.join('') }] };
+          }
+
+          case 'edit_image': {
+            const urls = extractImageUrls(result.data);
+
+            if (urls.length === 0) {
+              return { content: [{ type: 'text', text: 'No edited image was generated. Try rephrasing your prompt.' }], isError: true };
+            }
+
+            const [savePath] = savePathsFor('edited', 'png');
+            await save(urls[0], savePath);
+
+            return { content: [{ type: 'text', text: `Edited image saved to: ${savePath}` }] };
+          }
+
+          case 'image_to_image': {
+            const urls = extractImageUrls(result.data);
+
+            if (urls.length === 0) {
+              return { content: [{ type: 'text', text: 'No image was generated. Try rephrasing your prompt.' }], isError: true };
+            }
+
+            const savePaths = savePathsFor('img2img', input.output_format || 'png', urls.length);
+            await saveAll(urls, savePaths);
+
+            return { content: [{ type: 'text', text: `Transformed ${urls.length > 1 ? 'images' : 'image'} saved to: ${listSaved(savePaths)}` }] };
+          }
+
+          case 'inpaint': {
+            const urls = extractImageUrls(result.data);
+
+            if (urls.length === 0) {
+              return { content: [{ type: 'text', text: 'Inpainting failed. Try a different prompt or mask.' }], isError: true };
+            }
+
+            const [savePath] = savePathsFor('inpainted', input.output_format || 'png');
+            await save(urls[0], savePath);
+
+            return { content: [{ type: 'text', text: `Inpainted image saved to: ${savePath}` }] };
+          }
+
+          case 'style_transfer': {
+            const urls = extractImageUrls(result.data);
+
+            if (urls.length === 0) {
+              return { content: [{ type: 'text', text: 'Style transfer failed. Try a different reference image.' }], isError: true };
+            }
+
+            const savePaths = savePathsFor('style-transfer', 'png', urls.length);
+            await saveAll(urls, savePaths);
+
+            return { content: [{ type: 'text', text: `Style transfer ${urls.length > 1 ? 'results' : 'result'} saved to: ${listSaved(savePaths)}` }] };
+          }
+
+          // ─── Video Generation ───
+
+          case 'text_to_video': {
+            const url = extractVideoUrl(result.data);
+
+            if (!url) {
+              return { content: [{ type: 'text', text: 'No video was generated. Try rephrasing your prompt.' }], isError: true };
+            }
+
+            const [savePath] = savePathsFor('text2video', 'mp4');
+            await save(url, savePath);
+
+            return { content: [{ type: 'text', text: `Video generated and saved to: ${savePath}` }] };
+          }
+
+          case 'image_to_video': {
+            const url = extractVideoUrl(result.data);
+
+            if (!url) {
+              return { content: [{ type: 'text', text: 'No video was generated. Try a different image or prompt.' }], isError: true };
+            }
+
+            const [savePath] = savePathsFor('img2video', 'mp4');
+            await save(url, savePath);
+
+            return { content: [{ type: 'text', text: `Video generated and saved to: ${savePath}` }] };
+          }
+
+          case 'lipsync': {
+            const url = extractVideoUrl(result.data);
+
+            if (!url) {
+              return { content: [{ type: 'text', text: 'Lipsync failed. Check that the video contains a visible face and the audio is clear.' }], isError: true };
+            }
+
+            const [savePath] = savePathsFor('lipsync', 'mp4');
+            await save(url, savePath);
+
+            return { content: [{ type: 'text', text: `Lipsync video saved to: ${savePath}` }] };
+          }
+
+          case 'avatar_video': {
+            const url = extractVideoUrl(result.data);
+
+            if (!url) {
+              return { content: [{ type: 'text', text: 'Avatar video generation failed. Ensure the image is a clear portrait/headshot.' }], isError: true };
+            }
+
+            const [savePath] = savePathsFor('avatar', 'mp4');
+            await save(url, savePath);
+
+            return { content: [{ type: 'text', text: `Avatar video saved to: ${savePath}` }] };
+          }
+
+          // ─── Image Utilities ───
+
+          case 'upscale_image': {
+            const urls = extractImageUrls(result.data);
+
+            if (urls.length === 0) {
+              return { content: [{ type: 'text', text: 'Upscaling failed.' }], isError: true };
+            }
+
+            const [savePath] = savePathsFor('upscaled', 'png');
+            await save(urls[0], savePath);
+
+            return { content: [{ type: 'text', text: `Upscaled image saved to: ${savePath}` }] };
+          }
+
+          case 'upscale_video': {
+            const url = extractVideoUrl(result.data);
+
+            if (!url) {
+              return { content: [{ type: 'text', text: 'Video upscaling failed.' }], isError: true };
+            }
+
+            const [savePath] = savePathsFor('upscaled', 'mp4');
+            await save(url, savePath);
+
+            return { content: [{ type: 'text', text: `Upscaled video saved to: ${savePath}` }] };
+          }
+
+          case 'remove_background': {
+            const urls = extractImageUrls(result.data);
+
+            if (urls.length === 0) {
+              return { content: [{ type: 'text', text: 'Background removal failed.' }], isError: true };
+            }
+
+            const [savePath] = savePathsFor('no-bg', 'png');
+            await save(urls[0], savePath);
+
+            return { content: [{ type: 'text', text: `Background removed. Saved to: ${savePath}` }] };
+          }
+
+          case 'remove_video_background': {
+            const url = extractVideoUrl(result.data);
+
+            if (!url) {
+              return { content: [{ type: 'text', text: 'Video background removal failed.' }], isError: true };
+            }
+
+            const [savePath] = savePathsFor('no-bg-video', 'mp4');
+            await save(url, savePath);
+
+            return { content: [{ type: 'text', text: `Video background removed. Saved to: ${savePath}` }] };
+          }
+
+          case 'face_swap_image': {
+            const urls = extractImageUrls(result.data);
+
+            if (urls.length === 0) {
+              return { content: [{ type: 'text', text: 'Face swap failed. Ensure both images contain clear, visible faces.' }], isError: true };
+            }
+
+            const [savePath] = savePathsFor('face-swap', 'png');
+            await save(urls[0], savePath);
+
+            return { content: [{ type: 'text', text: `Face swap result saved to: ${savePath}` }] };
+          }
+
+          case 'face_swap_video': {
+            const url = extractVideoUrl(result.data);
+
+            if (!url) {
+              return { content: [{ type: 'text', text: 'Video face swap failed. Ensure the video has a clear face and the swap image is a good headshot.' }], isError: true };
+            }
+
+            const [savePath] = savePathsFor('face-swap-video', 'mp4');
+            await save(url, savePath);
+
+            return { content: [{ type: 'text', text: `Face swap video saved to: ${savePath}` }] };
+          }
+
+          case 'segment_image': {
+            let responseText = `Segmentation complete.\n\nRaw result:\n${JSON.stringify(result.data, null, 2)}`;
+
+            // Try to save mask if available
+            const urls = extractImageUrls(result.data);
+            if (urls.length > 0 && save_path) {
+              await save(urls[0], save_path);
+              responseText += `\n\nMask saved to: ${save_path}`;
+            }
+
+            return { content: [{ type: 'text', text: responseText }] };
+          }
+
+          case 'estimate_depth': {
+            const urls = extractImageUrls(result.data);
+
+            if (urls.length === 0) {
+              return { content: [{ type: 'text', text: `Depth estimation complete.\n\nRaw result:\n${JSON.stringify(result.data, null, 2)}` }] };
+            }
+
+            const [savePath] = savePathsFor('depth', 'png');
+            await save(urls[0], savePath);
+
+            return { content: [{ type: 'text', text: `Depth map saved to: ${savePath}` }] };
+          }
+
+          // ─── Audio & Music ───
+
+          case 'generate_music': {
+            const url = extractAudioUrl(result.data);
 
             if (!url) {
               return { content: [{ type: 'text', text: `Music generation result:\n${JSON.stringify(result.data, null, 2)}` }] };
             }
 
-            const savePath = save_path || getAutoSavePath('music', 'mp3');
-            await downloadFile(url, savePath);
+            const [savePath] = savePathsFor('music', 'mp3');
+            await save(url, savePath);
 
             return { content: [{ type: 'text', text: `Music generated and saved to: ${savePath}` }] };
           }
 
           case 'text_to_speech': {
-            const schema = z.object({
-              text: z.string().min(1),
-              voice_id: z.string().optional(),
-              speed: z.number().min(0.5).max(2.0).optional(),
-              save_path: z.string().optional()
-            });
-            const input = schema.parse(args);
-            const { save_path, ...apiInput } = input;
-            const result = await client.textToSpeech(apiInput);
             const url = extractAudioUrl(result.data);
 
             if (!url) {
               return { content: [{ type: 'text', text: `TTS result:\n${JSON.stringify(result.data, null, 2)}` }] };
             }
 
-            const savePath = save_path || getAutoSavePath('speech', 'mp3');
-            await downloadFile(url, savePath);
+            const [savePath] = savePathsFor('speech', 'mp3');
+            await save(url, savePath);
 
             return { content: [{ type: 'text', text: `Speech audio saved to: ${savePath}` }] };
           }
 
           case 'generate_sound_effect': {
-            const schema = z.object({
-              prompt: z.string().min(1),
-              duration_seconds: z.number().optional(),
-              save_path: z.string().optional()
-            });
-            const input = schema.parse(args);
-            const { save_path, ...apiInput } = input;
-            const result = await client.generateSoundEffect(apiInput);
             const url = extractAudioUrl(result.data);
 
             if (!url) {
               return { content: [{ type: 'text', text: `Sound effect result:\n${JSON.stringify(result.data, null, 2)}` }] };
             }
 
-            const savePath = save_path || getAutoSavePath('sfx', 'mp3');
-            await downloadFile(url, savePath);
+            const [savePath] = savePathsFor('sfx', 'mp3');
+            await save(url, savePath);
 
             return { content: [{ type: 'text', text: `Sound effect saved to: ${savePath}` }] };
           }
@@ -874,76 +1476,1124 @@ async function main() {
           // ─── 3D ───
 
           case 'image_to_3d': {
-            const schema = z.object({
-              image_url: z.string().min(1),
-              save_path: z.string().optional()
-            });
-            const input = schema.parse(args);
-            const { save_path, ...apiInput } = input;
-            const result = await client.imageTo3D(apiInput);
             const url = extract3DUrl(result.data);
 
             if (!url) {
               return { content: [{ type: 'text', text: `3D generation result:\n${JSON.stringify(result.data, null, 2)}` }] };
             }
 
-            const savePath = save_path || getAutoSavePath('model', 'glb');
-            await downloadFile(url, savePath);
+            const [savePath] = savePathsFor('model', 'glb');
+            await save(url, savePath);
 
             return { content: [{ type: 'text', text: `3D model saved to: ${savePath}` }] };
           }
 
           case 'retexture_3d': {
-            const schema = z.object({
-              model_url: z.string().min(1),
-              prompt: z.string().min(1),
-              reference_image_url: z.string().optional(),
-              save_path: z.string().optional()
-            });
-            const input = schema.parse(args);
-            const { save_path, ...apiInput } = input;
-            const result = await client.retexture3D(apiInput);
             const url = extract3DUrl(result.data);
 
             if (!url) {
               return { content: [{ type: 'text', text: `Retexture result:\n${JSON.stringify(result.data, null, 2)}` }] };
             }
 
-            const savePath = save_path || getAutoSavePath('retextured', 'glb');
-            await downloadFile(url, savePath);
+            const [savePath] = savePathsFor('retextured', 'glb');
+            await save(url, savePath);
 
             return { content: [{ type: 'text', text: `Retextured 3D model saved to: ${savePath}` }] };
           }
 
+          // ─── Any Endpoint ───
+
+          case 'run_model': {
+            const files = findMediaFiles(result.data);
+            const prefix = call.model.replace(/^fal-ai\//, '').replace(/[^\w.-]+/g, '-');
+            const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
+            const saved: { kind: string; path: string; url: string }[] = [];
+
+            for (const [index, file] of files.entries()) {
+              const vars = { tool: call.tool, prefix, ext: mediaExtension(file), timestamp, seed: result.data?.seed };
+              const savePath = renderSavePaths(config.filenameTemplate, input.save_dir ?? outputDirFor(config, call.tool), vars, files.length)[index];
+              await save(file.url, savePath, index + 1, files.length);
+              saved.push({ kind: file.kind, path: savePath, url: file.url });
+            }
+
+            const data = stripMediaFiles(result.data, files);
+            const textParts = [`${call.model} finished.`];
+            if (saved.length) textParts.push(`\n\nSaved files:\n${saved.map((file) => `- ${file.kind}: ${file.path}`).join('\n')}`);
+            if (Object.keys(data).length) textParts.push(`\n\nResult:\n${JSON.stringify(data, null, 2)}`);
+
+            return { content: [{ type: 'text', text: textParts.join('') }] };
+          }
+
+          default:
+            throw new Error(`Unknown tool: ${call.tool}`);
+        }
+      }
+
+      // Helper: add thumbnails, audio and links to the saved files to a tool response
+      async function withPreviews(response: CallToolResult, files: string[]): Promise<CallToolResult> {
+        const blocks = await Promise.all(files.map((file) => previewer.contentFor(file, resources.uriFor(file))));
+        return { ...response, content: [...response.content, ...blocks.flat()] };
+      }
+
+      // Helper: look up a job or fail with a clear message
+      function getJob(id: string): Job {
+        const job = jobs.get(id);
+        if (!job) throw new Error(`Unknown job id: ${id}. Use list_jobs to see known jobs.`);
+        return job;
+      }
+
+      // Helper: refresh a job's state from the fal queue
+      async function refreshJob(job: Job): Promise<{ job: Job; status?: QueueStatus }> {
+        if (isFinished(job.state)) return { job };
+        const status = await client.status(job.model, job.id);
+        const updated = jobs.update(job.id, {
+          state: status.status,
+          queuePosition: status.status === 'IN_QUEUE' ? status.queue_position : undefined
+        });
+        return { job: updated, status };
+      }
+
+      function describeJob(job: Job): string {
+        const lines = [`Job ${job.id} (${job.tool}): ${job.state}`];
+        if (job.queuePosition !== undefined) lines.push(`Queue position: ${job.queuePosition}`);
+        lines.push(`Model: ${job.model}`, `Submitted: ${job.submittedAt}`);
+        if (job.error) lines.push(`Error: ${job.error}`);
+        return lines.join('\n');
+      }
+
+      async function handleJobTool(name: string, args: unknown, signal: AbortSignal): Promise<CallToolResult> {
+        const jobIdSchema = z.object({ job_id: z.string().min(1) });
+
+        switch (name) {
+          case 'job_status': {
+            const { job_id } = jobIdSchema.parse(args);
+            const { job, status } = await refreshJob(getJob(job_id));
+
+            let text = describeJob(job);
+            const logs = status && 'logs' in status ? status.logs : [];
+            if (logs?.length) {
+              text += `\n\nRecent logs:\n${logs.slice(-10).map((log) => log.message).join('\n')}`;
+            }
+            if (job.state === 'COMPLETED' && !job.response) text += '\n\nUse job_result to download the output.';
+
+            return { content: [{ type: 'text', text }], structuredContent: jobOutput(job, logs?.slice(-10).map((log) => log.message)) };
+          }
+
+          case 'job_result': {
+            const { job_id } = jobIdSchema.parse(args);
+            const { job } = await refreshJob(getJob(job_id));
+
+            const generation = history.findByRequestId(job.id)?.id;
+            if (job.response) {
+              // Jobs saved before results were structured only kept their text and files
+              const structuredContent = job.response.structuredContent
+                ?? callOutput('completed', job, { generation, request_id: job.id, files: (job.files ?? []).map(savedFile) });
+              return withPreviews({ ...job.response, structuredContent }, job.files ?? []);
+            }
+            if (job.state !== 'COMPLETED') {
+              return {
+                content: [{ type: 'text', text: `${describeJob(job)}\n\nThe job has not finished yet. Check again later.` }],
+                structuredContent: callOutput('pending', job, { generation, request_id: job.id, job_state: job.state }),
+                isError: job.state === 'FAILED' || job.state === 'CANCELLED'
+              };
+            }
+
+            try {
+              const result = await client.result(job.model, job.id);
+              const saved: SavedFile[] = [];
+              const response = await finishCall(job, result, {
+                signal,
+                startedAt: job.submittedAt,
+                onSave: (savePath, url) => saved.push({ path: savePath, url })
+              });
+              const files = saved.map((file) => file.path);
+              if (!response.isError) {
+                if (job.cacheKey) storeInCache(job.cacheKey, job, result, saved);
+                response.structuredContent = resultOutput(job, result, saved, {
+                  generation,
+                  startedAt: job.submittedAt,
+                  cost_usd: pricing.actual(job.model, job.input, result.data).usd
+                });
+              }
+              jobs.update(job.id, { response, files });
+              updateJobHistory(job.id, { status: 'completed', seed: result.data?.seed, files });
+              recordSpend(job, job.id, result.data);
+              return withPreviews(response, files);
+            } catch (error: any) {
+              const handled = client.handleError(error);
+              jobs.update(job.id, { state: 'FAILED', error: handled.message });
+              updateJobHistory(job.id, { status: 'failed', error: handled.message });
+              throw error;
+            }
+          }
+
+          case 'job_cancel': {
+            const { job_id } = jobIdSchema.parse(args);
+            const { job } = await refreshJob(getJob(job_id));
+
+            if (isFinished(job.state)) {
+              return { content: [{ type: 'text', text: `Job ${job.id} has already finished (${job.state}).` }], structuredContent: jobOutput(job) };
+            }
+
+            await client.cancel(job.model, job.id);
+            // Jobs that never left the queue are not billed
+            const charge = ledger.get(job.id);
+            if (job.state === 'IN_QUEUE' && charge) ledger.record({ ...charge, usd: 0, pending: false });
+            const cancelled = jobs.update(job.id, { state: 'CANCELLED', queuePosition: undefined });
+            updateJobHistory(job.id, { status: 'cancelled' });
+            return { content: [{ type: 'text', text: `Job ${job.id} cancelled.` }], structuredContent: jobOutput(cancelled) };
+          }
+
+          case 'list_jobs': {
+            const schema = z.object({
+              state: z.enum(['IN_QUEUE', 'IN_PROGRESS', 'COMPLETED', 'FAILED', 'CANCELLED']).optional(),
+              limit: z.number().int().min(1).optional()
+            });
+            const { state, limit } = schema.parse(args ?? {});
+            const listed = jobs.list(state).slice(0, limit ?? 20);
+
+            const structuredContent = { jobs: listed.map((job) => jobOutput(job)) };
+            if (listed.length === 0) {
+              return { content: [{ type: 'text', text: 'No jobs found.' }], structuredContent };
+            }
+
+            const lines = listed.map((job) => `${job.id}  ${job.tool}  ${job.state}  ${job.submittedAt}`);
+            return { content: [{ type: 'text', text: lines.join('\n') }], structuredContent };
+          }
+
           default:
             throw new Error(`Unknown tool: ${name}`);
         }
-      } catch (error: any) {
-        const handled = client.handleError(error);
-        return {
-          content: [{ type: 'text', text: handled.message }],
-          isError: true
+      }
+
+      async function handleModelTool(name: string, args: unknown): Promise<CallToolResult> {
+        switch (name) {
+          case 'list_models': {
+            const { tool } = z.object({ tool: z.string().optional() }).parse(args ?? {});
+            if (tool && !TOOL_MODELS[tool]) throw new Error(`Unknown tool: ${tool}`);
+
+            const listed = Object.entries(TOOL_MODELS)
+              .filter(([name]) => !tool || name === tool)
+              .map(([name, { capability }]) => {
+                const choice = models.defaultFor(capability);
+                const alternatives = Object.entries(models.aliases(capability))
+                  .filter(([alias]) => alias !== 'default')
+                  .map(([alias, endpoint]) => ({ name: alias, endpoint }));
+                return { tool: name, capability, endpoint: choice.endpoint, source: choice.reason, alternatives };
+              });
+            const sections = listed.map(({ tool: name, capability, endpoint, source, alternatives }) => {
+              const lines = [`${name} → ${endpoint}`, `  Capability: ${capability}`, `  Source: ${source}`];
+              if (alternatives.length) lines.push(`  Alternatives: ${alternatives.map((alt) => `${alt.name} (${alt.endpoint})`).join(', ')}`);
+              return lines.join('\n');
+            });
+
+            let text = sections.join('\n\n');
+            if (config.configFiles.length) text += `\n\nConfig files: ${config.configFiles.join(', ')}`;
+            return { content: [{ type: 'text', text }], structuredContent: { tools: listed, config_files: config.configFiles } };
+          }
+
+          default:
+            throw new Error(`Unknown tool: ${name}`);
+        }
+      }
+
+      // Helper: record the outcome of an async job on its history entry
+      function updateJobHistory(jobId: string, changes: Partial<Generation>): void {
+        const generation = history.findByRequestId(jobId);
+        if (generation) history.update(generation.id, { ...changes, completed_at: new Date().toISOString() });
+      }
+
+      function describeGeneration(generation: Generation): string {
+        const prompt = promptOf(generation);
+        const summary = prompt ? `  "${prompt.length > 60 ? `${prompt.slice(0, 57)}...` : prompt}"` : '';
+        const seed = generation.seed !== undefined ? `  seed ${generation.seed}` : '';
+        return `${generation.id}  ${generation.started_at}  ${generation.tool}  ${generation.status}${seed}${summary}`;
+      }
+
+      // Parse an ISO date argument, failing clearly on anything Date cannot read
+      // A date without a time is midnight UTC, or with `endOfDay` the last moment of that day,
+      // so that `until: "2025-01-31"` includes the 31st
+      function parseDate(value: string | undefined, name: string, { endOfDay = false } = {}): Date | undefined {
+        if (value === undefined) return undefined;
+        const date = new Date(value);
+        if (isNaN(date.getTime())) throw new Error(`Invalid ${name} date: ${value}`);
+        if (endOfDay && /^\d{4}-\d{2}-\d{2}$/.test(value.trim())) date.setUTCHours(23, 59, 59, 999);
+        return date;
+      }
+
+      async function handleHistoryTool(name: string, args: unknown, context: CallContext): Promise<CallToolResult> {
+        const idSchema = z.object({ id: z.string().min(1) });
+        const getGeneration = (id: string): Generation => {
+          const generation = history.get(id);
+          if (!generation) throw new Error(`Unknown generation id: ${id}. Use list_generations to see past generations.`);
+          return generation;
         };
+
+        switch (name) {
+          case 'list_generations': {
+            const schema = z.object({
+              tool: z.string().optional(),
+              text: z.string().optional(),
+              since: z.string().optional(),
+              until: z.string().optional(),
+              limit: z.number().int().min(1).optional()
+            });
+            const { tool, text, since, until, limit } = schema.parse(args ?? {});
+            const listed = history
+              .list({ tool, text, since: parseDate(since, 'since'), until: parseDate(until, 'until', { endOfDay: true }) })
+              .slice(0, limit ?? 20);
+
+            const structuredContent = { generations: listed };
+            if (listed.length === 0) {
+              return { content: [{ type: 'text', text: 'No generations found.' }], structuredContent };
+            }
+            return { content: [{ type: 'text', text: listed.map(describeGeneration).join('\n') }], structuredContent };
+          }
+
+          case 'get_generation': {
+            const { id } = idSchema.parse(args);
+            const generation = getGeneration(id);
+            return { content: [{ type: 'text', text: JSON.stringify(generation, null, 2) }], structuredContent: { ...generation } };
+          }
+
+          case 'regenerate': {
+            const schema = idSchema.extend({
+              overrides: z.record(z.any()).optional(),
+              async: z.boolean().optional()
+            });
+            const { id, overrides = {}, async: runAsync } = schema.parse(args);
+            const generation = getGeneration(id);
+
+            // Never overwrite the original outputs unless asked to
+            const { save_path, ...original } = generation.arguments;
+            const replayed: Record<string, any> = generation.tool === 'run_model'
+              ? { ...original, input: { ...original.input, ...overrides } }
+              : { ...original, ...overrides };
+            if (runAsync !== undefined) replayed.async = runAsync;
+
+            return callTool(generation.tool, replayed, context, { regeneratedFrom: id });
+          }
+
+          default:
+            throw new Error(`Unknown tool: ${name}`);
+        }
       }
-    });
 
-    // Start server with stdio transport
-    const transport = new StdioServerTransport();
-    await server.connect(transport);
+      // Helper: record what a finished call cost, replacing the estimate of an async job
+      function recordSpend(call: ToolCall, requestId: string, data: any): void {
+        const cost = pricing.actual(call.model, call.input, data);
+        if (cost.usd === null) return;
+        ledger.record({ id: requestId, tool: call.tool, model: call.model, usd: cost.usd, timestamp: new Date().toISOString() });
+      }
 
-    console.error('fal.ai MCP Server v1.0.0 running');
+      // Helper: upload a call's local inputs, once it is going ahead
+      async function resolveInputs(call: ToolCall): Promise<ToolCall> {
+        const params = await inputs.resolveArgs(call.params);
+        // run_model sends its `input` argument; media tools send their arguments less the local-only ones
+        const input = call.tool === 'run_model'
+          ? params.input
+          : Object.fromEntries(Object.keys(call.input).map((key) => [key, params[key]]));
+        return { ...call, input, params };
+      }
 
-    process.on('SIGINT', async () => {
-      console.error('Shutting down fal.ai MCP Server...');
-      await server.close();
-      process.exit(0);
-    });
+      // Helper: the argument properties a tool lists, common options included
+      function argumentTypes(name: string): Record<string, { type?: unknown }> | undefined {
+        const tool = [...mediaTools.map(withCommonOptions), ...modelTools].find((candidate) => candidate.name === name);
+        return tool?.inputSchema.properties as Record<string, { type?: unknown }> | undefined;
+      }
+
+      // Generations differ from run to run unless the seed is pinned, so only calls with a seed
+      // and calls to deterministic tools are cached
+      function isRepeatable(call: ToolCall): boolean {
+        return call.input.seed !== undefined || TOOL_MODELS[call.tool]?.deterministic === true;
+      }
+
+      // Helper: keep a finished call's outputs for identical requests. A failure here must
+      // not fail a call that has already been paid for.
+      function storeInCache(key: string, call: ToolCall, result: FalResult, saved: SavedFile[]): void {
+        try {
+          const usd = pricing.actual(call.model, call.input, result.data).usd;
+          resultCache?.put(key, { tool: call.tool, endpoint: call.model, requestId: result.requestId, data: result.data, usd }, saved);
+        } catch (error: any) {
+          console.error(`Failed to cache the result of ${call.tool}: ${error.message}`);
+        }
+      }
+
+      function describeCacheHit(entry: CacheEntry): string {
+        const saving = entry.usd ? `, saving about ${formatUsd(entry.usd)}` : '';
+        return `From the result cache (first made ${entry.created_at}), so nothing was charged${saving}. Pass cache: "refresh" to run the model again.`;
+      }
+
+      // Helper: estimate a call and the budget left, as reported by dry runs and estimate_cost
+      function describeCost(call: ToolCall): string {
+        const lines = [describeEstimate(pricing.estimate(call.model, call.input)), ...ledger.describeBudgets()];
+        return lines.join('\n');
+      }
+
+      async function handleCostTool(name: string, args: unknown): Promise<CallToolResult> {
+        switch (name) {
+          case 'estimate_cost': {
+            const schema = z.object({ tool: z.string().min(1), arguments: z.record(z.any()).optional() });
+            const { tool, arguments: toolArgs = {} } = schema.parse(args);
+            // Tool schemas drop async and dry_run, so the arguments can be passed as they are
+            const call = prepareCall(tool, toolArgs);
+            const estimate = pricing.estimate(call.model, call.input);
+            return {
+              content: [{ type: 'text', text: describeCost(call) }],
+              structuredContent: {
+                tool,
+                model: call.model,
+                cost_usd: estimate.usd,
+                assumptions: estimate.assumptions,
+                budget: budgetOutput(ledger.summary(), config.budgets)
+              }
+            };
+          }
+
+          case 'spending_report': {
+            const summary = ledger.summary();
+            const lines = [`Spent today: ${formatUsd(summary.today)}`, `Spent this month: ${formatUsd(summary.month)}`];
+            lines.push(...ledger.describeBudgets(summary));
+            const tools = Object.entries(summary.byTool).sort(([, a], [, b]) => b.month - a.month);
+            if (tools.length) {
+              lines.push('', 'By tool (today / this month):');
+              lines.push(...tools.map(([tool, spent]) => `- ${tool}: ${formatUsd(spent.today)} / ${formatUsd(spent.month)}`));
+            }
+            return { content: [{ type: 'text', text: lines.join('\n') }], structuredContent: spendingOutput(summary, config.budgets) };
+          }
+
+          default:
+            throw new Error(`Unknown tool: ${name}`);
+        }
+      }
+
+      function handleCacheTool(name: string, args: unknown): CallToolResult {
+        if (!resultCache) {
+          const off = 'The result cache is off. Set FAL_CACHE=true, or "cache": { "enabled": true } in the config file, to turn it on.';
+          if (name === 'cache_stats') return { content: [{ type: 'text', text: off }], structuredContent: { enabled: false } };
+          throw new Error(off);
+        }
+
+        switch (name) {
+          case 'cache_stats': {
+            const stats = resultCache.stats();
+            return {
+              content: [{ type: 'text', text: describeCacheStats(stats, config.cache!.dir) }],
+              structuredContent: { enabled: true, dir: config.cache!.dir, ...stats }
+            };
+          }
+
+          case 'cache_clear': {
+            const { tool, expired } = z.object({ tool: z.string().optional(), expired: z.boolean().optional() }).parse(args ?? {});
+            const removed = resultCache.clear({ tool, expired });
+            const text = `Removed ${removed.entries} cached ${removed.entries === 1 ? 'result' : 'results'} (${megabytes(removed.bytes)}).`;
+            return { content: [{ type: 'text', text }], structuredContent: { removed: removed.entries, bytes: removed.bytes } };
+          }
+
+          default:
+            throw new Error(`Unknown tool: ${name}`);
+        }
+      }
+
+      function handleConfigTool(args: unknown): CallToolResult {
+        const schema = z.object({ section: z.string().optional(), tool: z.string().optional() });
+        const { section, tool } = schema.parse(args);
+        const layers = [...config.configFiles, 'environment variables'];
+        let shown: unknown;
+
+        if (tool) {
+          const settings = TOOL_MODELS[tool] ?? (tool === 'run_model' ? { long: false } : undefined);
+          if (!settings) throw new Error(`Unknown tool: ${tool}`);
+          shown = {
+            tool,
+            timeout: timeoutFor(config, tool, settings.long),
+            defaults: config.tools[tool]?.defaults ?? {},
+            output_dir: path.resolve(outputDirFor(config, tool))
+          };
+        } else {
+          const described = describeConfig(config);
+          if (section && !(section in described)) {
+            throw new Error(`Unknown section "${section}". Sections: ${Object.keys(described).join(', ')}`);
+          }
+          shown = section ? described[section] : described;
+        }
+
+        const text = `Layers, lowest precedence first: ${layers.join(' → ')} → call arguments\n\n${JSON.stringify(shown ?? null, null, 2)}`;
+        return { content: [{ type: 'text', text }], structuredContent: { layers, config: shown ?? null } };
+      }
+
+      // Show the client what was sent when the prompt was rewritten, or why it was not
+      function withEnhancement(response: CallToolResult, enhancement?: Enhancement): CallToolResult {
+        if (!enhancement) return response;
+        const text = enhancement.enhanced
+          ? `Original prompt: ${enhancement.original}\nEnhanced prompt: ${enhancement.enhanced}`
+          : `Prompt not enhanced: ${enhancement.skipped}. The original prompt was used.`;
+        response.content.push({ type: 'text', text });
+        return response;
+      }
+
+      async function handleWorkflowTool(args: unknown, context: CallContext): Promise<CallToolResult> {
+        const schema = z.object({
+          name: z.string().optional(),
+          inputs: z.record(z.any()).optional(),
+          steps: z.array(workflowStepSchema).min(1).optional(),
+          save_intermediates: z.boolean().optional(),
+          dry_run: z.boolean().optional()
+        }).refine((params) => !params.name !== !params.steps, 'Give either the name of a saved workflow or steps');
+        const params = schema.parse(args);
+        const dryRun = params.dry_run === true;
+
+        const steps = workflows.plan(params.name ? workflows.get(params.name) : { steps: params.steps! }, params.inputs);
+        for (const step of steps) {
+          if (step.tool !== 'run_model' && !TOOL_MODELS[step.tool]) throw new Error(`Step ${step.id}: ${step.tool} cannot be used in a workflow`);
+        }
+
+        const reports = await workflows.run(steps, async (step, stepArgs, { save }) => {
+          // Steps always wait for their result, since later steps need it
+          const { async: _async, dry_run: _dryRun, ...toolArgs } = stepArgs;
+          let data: any;
+          try {
+            const response = await callTool(step.tool, dryRun ? { ...toolArgs, dry_run: true } : toolArgs, context, {
+              save,
+              onResult: (result) => { data = result.data; }
+            });
+            return { response, data };
+          } catch (error: any) {
+            throw client.handleError(error);
+          }
+        }, {
+          dryRun,
+          saveIntermediates: params.save_intermediates,
+          requiredUrls: (tool) => (mediaTools.find((other) => other.name === tool)?.inputSchema.required ?? []).filter((name) => name.endsWith('_url')),
+          onStep: (step) => context.progress.notify(`Step ${step.id}: ${step.tool}`)
+        });
+
+        const completed = reports.filter((report) => report.status === 'completed').length;
+        const title = params.name ? `Workflow "${params.name}"` : 'Workflow';
+        const lines = [
+          dryRun
+            ? `Dry run: ${title} is valid and nothing was submitted.`
+            : `${title}: ${completed} of ${reports.length} steps completed.`,
+          '',
+          ...reports.map((report) => describeStep(report, dryRun))
+        ];
+        if (dryRun) lines.push('', describeWorkflowCost(reports));
+
+        const content: CallToolResult['content'] = [{ type: 'text', text: lines.join('\n') }];
+        for (const report of reports) {
+          if (report.status !== 'completed' || !report.response) continue;
+          content.push({ type: 'text', text: `Step ${report.id} (${report.tool}):` }, ...report.response.content);
+        }
+        const structuredContent = {
+          status: dryRun ? 'dry_run' : completed < reports.length ? 'partial' : 'completed',
+          ...(params.name && { name: params.name }),
+          completed,
+          ...(dryRun && { cost_usd: estimateWorkflow(reports).total }),
+          steps: reports.map((report) => ({
+            id: report.id,
+            tool: report.tool,
+            status: report.status,
+            ...(report.error && { error: report.error }),
+            ...(report.response?.structuredContent && { result: report.response.structuredContent })
+          }))
+        };
+        return { content, structuredContent, ...(completed < reports.length && { isError: true }) };
+      }
+
+      function describeStep(report: StepReport, dryRun: boolean): string {
+        const line = `Step ${report.id} (${report.tool}): ${dryRun && report.status === 'completed' ? 'valid' : report.status}`;
+        if (report.status === 'skipped') return `${line} (${report.error})`;
+        return report.error ? `${line}: ${report.error}` : line;
+      }
+
+      // The sum of the steps' estimates, as for estimate_cost, and how many steps have no known price
+      function estimateWorkflow(reports: StepReport[]): { total: number; unknown: number } {
+        let total = 0;
+        let unknown = 0;
+        for (const report of reports) {
+          const call = report.arguments && report.status === 'completed' ? prepareCall(report.tool, report.arguments) : undefined;
+          const estimate = call && pricing.estimate(call.model, call.input);
+          if (estimate?.usd === null || estimate?.usd === undefined) unknown += 1;
+          else total += estimate.usd;
+        }
+        return { total, unknown };
+      }
+
+      function describeWorkflowCost(reports: StepReport[]): string {
+        const { total, unknown } = estimateWorkflow(reports);
+        const note = unknown ? ` (plus ${unknown} ${unknown === 1 ? 'step' : 'steps'} without a known price)` : '';
+        return [`Estimated total: ${formatUsd(total)}${note}`, ...ledger.describeBudgets()].join('\n');
+      }
+
+      async function handleBatchTool(args: unknown, context: CallContext): Promise<CallToolResult> {
+        const schema = z.object({
+          manifest: z.string().min(1),
+          tool: z.string().optional(),
+          output: z.string().optional(),
+          concurrency: z.number().int().min(1).max(MAX_BATCH_CONCURRENCY).optional(),
+          resume: z.boolean().optional(),
+          dry_run: z.boolean().optional()
+        });
+        const params = schema.parse(args);
+        const manifest = localPath(params.manifest, 'manifest');
+        const output = params.output !== undefined ? localPath(params.output, 'output') : resultsPathFor(manifest);
+        const rows = readManifest(manifest, params.tool, argumentTypes);
+        const results = new BatchResults(output);
+        const pending = params.resume === false ? rows : rows.filter((row) => !results.isDone(row));
+        const alreadyDone = rows.length - pending.length;
+
+        // Check and price every row before anything is submitted
+        const planned = pending.map((row) => {
+          try {
+            const call = prepareCall(row.tool, row.arguments);
+            return { row, call, estimate: pricing.estimate(call.model, call.input) };
+          } catch (error: any) {
+            return { row, error: describeRowError(error) };
+          }
+        });
+        const valid = planned.flatMap((item) => (item.call ? [{ row: item.row, call: item.call, estimate: item.estimate }] : []));
+        const invalid = planned.flatMap((item) => (item.error !== undefined ? [{ row: item.row, error: item.error }] : []));
+        const total = valid.reduce((sum, { estimate }) => sum + (estimate.usd ?? 0), 0);
+        const name = path.basename(manifest);
+
+        if (params.dry_run === true) {
+          const lines = [
+            `Dry run: nothing was submitted. ${name} has ${rows.length} rows: ${valid.length} to run, ${invalid.length} invalid, ${alreadyDone} already done.`,
+            `Estimated total: ${formatUsd(total)}${valid.some(({ estimate }) => estimate.usd === null) ? ' (some rows have no known price)' : ''}`,
+            ...ledger.describeBudgets(),
+            ...describeFailedRows(invalid, 'Invalid rows:')
+          ];
+          const structuredContent = {
+            status: 'dry_run',
+            manifest,
+            rows: rows.length,
+            already_done: alreadyDone,
+            to_run: valid.length,
+            cost_usd: total,
+            failures: invalid.map(({ row, error }) => ({ id: row.id, tool: row.tool, error }))
+          };
+          return { content: [{ type: 'text', text: lines.join('\n') }], structuredContent };
+        }
+
+        for (const { call, estimate } of valid) if (estimate.usd === null) ledger.checkPriced(call.model);
+        if (total > 0) ledger.checkBudget(total);
+        const confirmation = await gate.confirmMany(`a batch of ${valid.length} calls from ${name}`, valid, clientRequestOptions(context));
+        if (confirmation.status === 'declined' || confirmation.status === 'denied') {
+          return {
+            content: [{ type: 'text', text: confirmation.message }],
+            structuredContent: { status: 'declined', manifest, rows: rows.length },
+            ...(confirmation.status === 'denied' && { isError: true })
+          };
+        }
+
+        const finishedAt = () => new Date().toISOString();
+        for (const { row, error } of invalid) {
+          results.record({ id: row.id, tool: row.tool, status: 'failed', hash: row.hash, error, finished_at: finishedAt() });
+        }
+
+        // Rows report progress for the batch as a whole, not each fal request
+        const rowContext: CallContext = {
+          ...context,
+          progress: new ProgressReporter(server, { sendNotification: async () => {} }, 'run_batch')
+        };
+        const failed = [...invalid];
+        let completed = 0;
+        await runPool(valid, params.concurrency ?? BATCH_CONCURRENCY, async ({ row }) => {
+          let generation: Generation | undefined;
+          try {
+            const { async: _async, dry_run: _dryRun, ...rowArgs } = row.arguments;
+            const response = await callTool(row.tool, rowArgs, rowContext, {
+              confirmed: true,
+              onComplete: (complete) => { generation = complete; }
+            });
+            if (!generation || response.isError) throw new Error(response.content.map((block) => (block.type === 'text' ? block.text : '')).join('\n'));
+            results.record({
+              id: row.id,
+              tool: row.tool,
+              status: 'completed',
+              hash: row.hash,
+              generation: generation.id,
+              request_id: generation.request_id,
+              files: generation.files,
+              finished_at: finishedAt()
+            });
+            completed += 1;
+          } catch (error: any) {
+            const message = describeRowError(error);
+            results.record({ id: row.id, tool: row.tool, status: 'failed', hash: row.hash, generation: generation?.id, error: message, finished_at: finishedAt() });
+            failed.push({ row, error: message });
+          }
+          context.progress.notify(`${completed + failed.length - invalid.length} of ${valid.length} rows finished (${failed.length} failed)`);
+        }, context.signal);
+
+        const notRun = valid.length - completed - (failed.length - invalid.length);
+        const lines = [
+          `Batch ${name}: ${completed} of ${pending.length} rows completed, ${failed.length} failed${alreadyDone ? `, ${alreadyDone} already done before` : ''}${notRun ? `, ${notRun} not run (cancelled)` : ''}.`,
+          `Results: ${output}`,
+          ...describeFailedRows(failed)
+        ];
+        if (failed.length || notRun) lines.push('', 'Run run_batch again with the same manifest to retry the rows that did not complete.');
+        const structuredContent = {
+          status: failed.length || notRun ? 'partial' : 'completed',
+          manifest,
+          output,
+          rows: rows.length,
+          already_done: alreadyDone,
+          to_run: pending.length,
+          completed,
+          failed: failed.length,
+          not_run: notRun,
+          failures: failed.map(({ row, error }) => ({ id: row.id, tool: row.tool, error }))
+        };
+        return { content: [{ type: 'text', text: lines.join('\n') }], structuredContent, ...(failed.length > 0 && { isError: true }) };
+      }
+
+      async function handleCompareTool(args: unknown, context: CallContext): Promise<CallToolResult> {
+        const schema = z.object({
+          tool: z.string().min(1),
+          arguments: z.record(z.any()),
+          models: z.array(z.string().min(1)).min(1).max(MAX_COMPARED_MODELS),
+          seeds: z.array(z.number().int()).min(1).max(MAX_COMPARED_SEEDS).optional(),
+          save_dir: z.string().optional(),
+          dry_run: z.boolean().optional()
+        });
+        const params = schema.parse(args);
+        const tool = mediaTools.find((other) => other.name === params.tool);
+        if (!tool) throw new Error(`compare_models runs media tools such as generate_image, not ${params.tool}`);
+        const hasSeed = 'seed' in (tool.inputSchema.properties ?? {});
+        if (params.seeds && !hasSeed) throw new Error(`${params.tool} takes no seed, so seeds cannot be swept`);
+
+        // Every model starts from the same seed, so differences come from the model
+        const { model: _model, save_path: _savePath, async: _async, dry_run: _dryRun, ...shared } = params.arguments;
+        const seeds: (number | undefined)[] = params.seeds ?? [hasSeed ? shared.seed ?? randomSeed() : undefined];
+        const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
+        const dir = params.save_dir !== undefined
+          ? localPath(params.save_dir, 'save_dir')
+          : path.resolve(config.outputDir, `compare-${timestamp}`);
+        const argsFor = (base: Record<string, any>, model: string, seed: number | undefined) => {
+          const label = `${runLabel(model)}${seed !== undefined ? `-seed${seed}` : ''}`;
+          return { ...base, model, ...(seed !== undefined && { seed }), save_path: path.join(dir, `${label}.{ext}`) };
+        };
+
+        // Priced and confirmed with the local inputs as given; they are uploaded once it goes ahead
+        const planned = [...new Set(params.models)].flatMap((model) => seeds.map((seed) => {
+          const call = prepareCall(params.tool, argsFor(shared, model, seed));
+          return { model, seed, call, estimate: pricing.estimate(call.model, call.input) };
+        }));
+        const total = planned.reduce((sum, { estimate }) => sum + (estimate.usd ?? 0), 0);
+
+        if (params.dry_run === true) {
+          const runs: ComparisonRun[] = planned.map(({ model, seed, call, estimate }) => ({
+            model, endpoint: call.model, seed, status: 'planned', usd: estimate.usd, files: []
+          }));
+          const lines = [`Dry run: nothing was submitted. ${planned.length} runs of ${params.tool}:`, '', describeComparison(runs), '', `Estimated total: ${formatUsd(total)}`, ...ledger.describeBudgets()];
+          return {
+            content: [{ type: 'text', text: lines.join('\n') }],
+            structuredContent: { status: 'dry_run', tool: params.tool, dir, cost_usd: total, runs: runs.map(comparisonRunOutput) }
+          };
+        }
+
+        for (const { call, estimate } of planned) if (estimate.usd === null) ledger.checkPriced(call.model);
+        if (total > 0) ledger.checkBudget(total);
+        const confirmation = await gate.confirmMany(`a comparison of ${planned.length} ${params.tool} runs`, planned, clientRequestOptions(context));
+        if (confirmation.status === 'declined' || confirmation.status === 'denied') {
+          return {
+            content: [{ type: 'text', text: confirmation.message }],
+            structuredContent: { status: 'declined', tool: params.tool, runs: [] },
+            ...(confirmation.status === 'denied' && { isError: true })
+          };
+        }
+        // Once for every run, rather than each run uploading the same files
+        const baseArgs = await inputs.resolveArgs(shared);
+
+        // Runs report progress for the comparison as a whole
+        const runContext: CallContext = {
+          ...context,
+          progress: new ProgressReporter(server, { sendNotification: async () => {} }, 'compare_models')
+        };
+        let finished = 0;
+        const runs = await Promise.all(planned.map(async ({ model, seed, call }): Promise<ComparisonRun> => {
+          const started = Date.now();
+          let data: any;
+          let generation: Generation | undefined;
+          try {
+            const response = await callTool(params.tool, argsFor(baseArgs, model, seed), runContext, {
+              confirmed: true,
+              onResult: (result) => { data = result.data; },
+              onComplete: (complete) => { generation = complete; }
+            });
+            if (!generation || response.isError) throw new Error(response.content.map((block) => (block.type === 'text' ? block.text : '')).join('\n'));
+            return {
+              model,
+              endpoint: call.model,
+              seed,
+              status: 'completed',
+              ms: Date.now() - started,
+              inferenceSeconds: typeof data?.timings?.inference === 'number' ? data.timings.inference : undefined,
+              usd: pricing.actual(call.model, call.input, data).usd,
+              files: generation.files
+            };
+          } catch (error: any) {
+            return { model, endpoint: call.model, seed, status: 'failed', usd: null, files: [], error: client.handleError(error).message };
+          } finally {
+            finished += 1;
+            context.progress.notify(`${finished} of ${planned.length} runs finished`);
+          }
+        }));
+
+        const completed = runs.filter((run) => run.status === 'completed');
+        const count = new Set(params.models).size;
+        const lines = [`Compared ${count} ${count === 1 ? 'model' : 'models'} on ${params.tool}: ${completed.length} of ${runs.length} runs completed.`, '', describeComparison(runs)];
+        const files: string[] = [];
+        let contactSheet: string | undefined;
+        if (completed.length) {
+          lines.push('', `Saved to: ${dir}`);
+          context.progress.notify('Building contact sheet');
+          const models = [...new Set(params.models)];
+          const sheet = path.join(dir, 'contact-sheet.png');
+          try {
+            const built = await buildContactSheet({
+              columns: models,
+              rows: seeds.map((seed) => (seed === undefined ? '' : `seed ${seed}`)),
+              cells: seeds.map((seed) => models.map((model) => runs.find((run) => run.model === model && (seed === undefined || run.seed === seed))?.files[0]))
+            }, sheet);
+            if (built) {
+              contactSheet = sheet;
+              files.push(sheet);
+              announceFile(sheet);
+              lines.push(`Contact sheet: ${sheet}`);
+            } else {
+              lines.push('No contact sheet: it needs the optional sharp package.');
+            }
+          } catch (error: any) {
+            lines.push(`No contact sheet: ${error.message}`);
+          }
+        }
+        const structuredContent = {
+          status: completed.length === runs.length ? 'completed' : 'partial',
+          tool: params.tool,
+          dir,
+          ...(contactSheet && { contact_sheet: contactSheet }),
+          runs: runs.map(comparisonRunOutput)
+        };
+        return withPreviews({ content: [{ type: 'text', text: lines.join('\n') }], structuredContent, ...(!completed.length && { isError: true }) }, files);
+      }
+
+      // One line per failed row: which arguments were invalid, or what fal.ai said
+      function describeRowError(error: any): string {
+        if (error instanceof z.ZodError) {
+          return error.issues.map((issue) => `${issue.path.join('.') || 'arguments'}: ${issue.message}`).join('; ');
+        }
+        return client.handleError(error).message.split('\n')[0];
+      }
+
+      interface CallContext {
+        signal: AbortSignal;
+        progress: ProgressReporter;
+        // The tools/call request, so that requests to the client travel on its stream
+        requestId?: RequestId;
+      }
+
+      // Options for sampling and elicitation requests made while handling a call
+      function clientRequestOptions(context: CallContext): RequestOptions {
+        return { signal: context.signal, relatedRequestId: context.requestId };
+      }
+
+      interface CallOptions {
+        // Set when the call is made by regenerate
+        regeneratedFrom?: string;
+        // false to leave the outputs on fal instead of downloading them (workflow intermediates)
+        save?: boolean;
+        // Called with the fal result before its outputs are saved
+        onResult?: (result: FalResult) => void;
+        // Called with the history entry once the call has completed
+        onComplete?: (generation: Generation) => void;
+        // The caller already asked the user (run_batch asks once for all its rows)
+        confirmed?: boolean;
+      }
+
+      // Run one tool call. Calls that reach a fal model are recorded in the history.
+      async function callTool(
+        name: string,
+        rawArgs: Record<string, any>,
+        context: CallContext,
+        { regeneratedFrom, save = true, onResult, onComplete, confirmed }: CallOptions = {}
+      ): Promise<CallToolResult> {
+        // Each step's arguments are resolved when the step runs
+        if (name === 'run_workflow') {
+          return handleWorkflowTool(rawArgs, context);
+        }
+        if (name === 'run_batch') {
+          return handleBatchTool(rawArgs, context);
+        }
+        if (name === 'compare_models') {
+          return handleCompareTool(rawArgs, context);
+        }
+
+        // Arguments the call leaves out come from the tool's defaults in the config file
+        const args = { ...config.tools[name]?.defaults, ...rawArgs };
+
+        if (jobTools.some((tool) => tool.name === name)) {
+          return handleJobTool(name, args, context.signal);
+        }
+        if (historyTools.some((tool) => tool.name === name)) {
+          return handleHistoryTool(name, args, context);
+        }
+        if (costTools.some((tool) => tool.name === name)) {
+          return handleCostTool(name, args);
+        }
+        if (cacheTools.some((tool) => tool.name === name)) {
+          return handleCacheTool(name, args);
+        }
+        if (name === 'show_config') {
+          return handleConfigTool(args);
+        }
+        // run_model goes through the same path as the media tools below
+        if (name === 'list_models') {
+          return handleModelTool(name, args);
+        }
+
+        const { async: runAsync, dry_run: dryRun, enhance_prompt: enhancePrompt, cache: cacheArg, ...toolArgs } = args;
+        const cacheMode: CacheMode | undefined = z.enum(['bypass', 'refresh']).optional().parse(cacheArg);
+        let enhancement: Enhancement | undefined;
+        if (typeof toolArgs.prompt === 'string' && guideForTool(name) && enhancer.wanted(enhancePrompt)) {
+          context.progress.notify('Enhancing prompt');
+          enhancement = await enhancer.enhance(name, toolArgs.prompt, clientRequestOptions(context));
+          if (enhancement.enhanced) toolArgs.prompt = enhancement.enhanced;
+        }
+        // Local paths, file:// and data: URIs in *_url arguments are left as they are until
+        // the call has passed the budget and confirmation checks
+        let call = prepareCall(name, toolArgs);
+        const estimate = pricing.estimate(call.model, call.input);
+        const prompt = enhancement?.enhanced ? { original: enhancement.original, enhanced: enhancement.enhanced } : undefined;
+
+        if (dryRun === true) {
+          const reason = gate.reasonFor(call, estimate);
+          const note = reason ? `\n\nA real call will ask the user for confirmation first: ${reason}.` : '';
+          return withEnhancement({
+            content: [{ type: 'text', text: `Dry run: the arguments are valid and nothing was submitted.\n\n${describeCost(call)}${note}` }],
+            structuredContent: callOutput('dry_run', call, { cost_usd: estimate.usd, prompt })
+          }, enhancement);
+        }
+
+        // Workflow intermediates are never saved, so there is nothing to cache or copy
+        const cacheKey = resultCache && save && cacheMode !== 'bypass' && isRepeatable(call)
+          ? resultCache.keyFor(call.model, call.input, (value) => inputs.contentHash(value))
+          : undefined;
+        // A hit costs nothing, so it needs neither budget nor confirmation
+        const cached = cacheKey && cacheMode !== 'refresh' ? resultCache!.get(cacheKey) : undefined;
+
+        let reservation: string | undefined;
+        try {
+          if (!cached) {
+            // Held against the budgets until the call ends, so calls running side by side cannot
+            // together go over them
+            reservation = ledger.reserve(estimate.usd, call);
+
+            const confirmation = confirmed ? { status: 'confirmed' as const } : await gate.confirm(call, estimate, clientRequestOptions(context));
+            if (confirmation.status === 'declined' || confirmation.status === 'denied') {
+              return withEnhancement({
+                content: [{ type: 'text', text: confirmation.message }],
+                structuredContent: callOutput('declined', call, { prompt }),
+                ...(confirmation.status === 'denied' && { isError: true })
+              }, enhancement);
+            }
+            // A hit is served from disk, so its inputs are never uploaded
+            call = await resolveInputs(call);
+          }
+
+          const startedAt = new Date().toISOString();
+          const generation = history.record({
+            id: history.newId(),
+            tool: name,
+            // With the enhanced prompt, and enhancement off, so regenerate replays the same request
+            arguments: enhancement?.enhanced
+              ? { ...compactArguments(args, call.params), prompt: enhancement.enhanced, enhance_prompt: false }
+              : compactArguments(args, call.params),
+            model: call.model,
+            status: 'submitted',
+            files: [],
+            started_at: startedAt,
+            ...(regeneratedFrom && { regenerated_from: regeneratedFrom }),
+            ...(enhancement?.enhanced && { original_prompt: enhancement.original, enhanced_prompt: enhancement.enhanced })
+          });
+
+          try {
+            if (runAsync === true && !cached) {
+              const id = await client.submit(call.model, call.input);
+              jobs.add(call, id);
+              // So that job_result can cache the outputs
+              if (cacheKey) jobs.update(id, { cacheKey });
+              history.update(generation.id, { request_id: id });
+              if (estimate.usd !== null) {
+                ledger.record({ id, tool: call.tool, model: call.model, usd: estimate.usd, pending: true, timestamp: startedAt });
+              }
+              return withEnhancement({
+                content: [{ type: 'text', text: `Job submitted: ${id}\nModel: ${call.model}\nGeneration: ${generation.id}\n\nUse job_status to check progress and job_result to download the output.` }],
+                structuredContent: callOutput('submitted', call, { generation: generation.id, request_id: id, cost_usd: estimate.usd, prompt })
+              }, enhancement);
+            }
+
+            const runOptions: RunOptions = {
+              onUpdate: (status) => context.progress.update(status),
+              onQueued: (position) => context.progress.notify(`Queued locally (position ${position})`),
+              onRetry: ({ attempt, maxAttempts, delay, error }) => {
+                context.progress.log('warning', `fal.ai request failed (${error?.message ?? error}), retrying in ${Math.round(delay / 1000)}s`);
+                context.progress.notify(`Retrying (attempt ${attempt} of ${maxAttempts})`);
+              },
+              signal: context.signal,
+              timeout: timeoutFor(config, call.tool, call.long)
+            };
+            const result: FalResult = cached
+              ? { data: cached.data, requestId: cached.request_id }
+              : call.long
+                ? await client.runLong(call.model, call.input, runOptions)
+                : await client.run(call.model, call.input, runOptions);
+            context.progress.notify(cached ? 'Copying cached output' : 'Saving output');
+            if (!cached) recordSpend(call, result.requestId, result.data);
+            onResult?.(result);
+
+            const saved: SavedFile[] = [];
+            const response: CallToolResult = save
+              ? await finishCall(call, result, {
+                signal: context.signal,
+                startedAt,
+                localCopies: cached && resultCache!.filesFor(cached),
+                onSave: (savePath, url) => saved.push({ path: savePath, url })
+              })
+              : { content: [{ type: 'text', text: `Output left on fal.ai: ${findMediaFiles(result.data).map((file) => file.url).join(', ')}` }] };
+            const files = saved.map((file) => file.path);
+            if (!response.isError) {
+              if (cacheKey && !cached) storeInCache(cacheKey, call, result, saved);
+              response.structuredContent = resultOutput(call, result, saved, {
+                generation: generation.id,
+                startedAt,
+                cost_usd: cached ? 0 : pricing.actual(call.model, call.input, result.data).usd,
+                prompt,
+                ...(cacheKey && {
+                  cache: { hit: !!cached, key: cacheKey, ...(cached && { cached_at: cached.created_at, saved_usd: cached.usd }) }
+                })
+              });
+            }
+            const completed = history.update(generation.id, {
+              request_id: result.requestId,
+              status: 'completed',
+              seed: result.data?.seed,
+              files,
+              completed_at: new Date().toISOString(),
+              ...(cached && { cache_hit: true })
+            });
+            onComplete?.(completed);
+            if (cached) response.content.push({ type: 'text', text: describeCacheHit(cached) });
+            if (result.retries) {
+              response.content.push({ type: 'text', text: `Succeeded after ${result.retries} ${result.retries === 1 ? 'retry' : 'retries'}.` });
+            }
+            return withPreviews(withEnhancement(response, enhancement), files);
+          } catch (error: any) {
+            history.update(generation.id, {
+              status: 'failed',
+              error: client.handleError(error).message,
+              completed_at: new Date().toISOString()
+            });
+            throw error;
+          }
+        } finally {
+          ledger.release(reservation);
+        }
+      }
+
+      // Register tools/call handler
+      server.setRequestHandler(CallToolRequestSchema, async (request, extra) => {
+        try {
+          const { name } = request.params;
+          const progress = new ProgressReporter(server, {
+            progressToken: request.params._meta?.progressToken,
+            sessionId: extra.sessionId,
+            sendNotification: extra.sendNotification
+          }, name);
+          return await callTool(name, request.params.arguments ?? {}, { signal: extra.signal, progress, requestId: extra.requestId });
+        } catch (error: any) {
+          const handled = client.handleError(error);
+          return {
+            content: [{ type: 'text', text: handled.message }],
+            isError: true
+          };
+        }
+      });
+
+      // Register resources handlers: saved outputs under the output directory
+      server.setRequestHandler(ListResourcesRequestSchema, async (request) => {
+        return resources.list(request.params?.cursor);
+      });
+
+      server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => {
+        return { resourceTemplates: resources.templates() };
+      });
+
+      server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
+        return resources.read(request.params.uri);
+      });
+
+      server.setRequestHandler(SubscribeRequestSchema, async (request) => {
+        resources.subscribe(request.params.uri);
+        return {};
+      });
+
+      server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+        resources.unsubscribe(request.params.uri);
+        return {};
+      });
+
+      // Register prompts handlers: the prompt-writing guides, usable as slash commands
+      server.setRequestHandler(ListPromptsRequestSchema, async () => {
+        return {
+          prompts: PROMPT_GUIDES.map((guide) => ({
+            name: guide.name,
+            description: guide.description,
+            arguments: [
+              { name: 'subject', description: guide.subject, required: true },
+              { name: 'style', description: 'Style, mood or tone to aim for' },
+              ...(guide.tools.length > 1 ? [{ name: 'tool', description: `Tool to use: ${guide.tools.join(', ')} (default ${guide.tools[0]})` }] : []),
+              ...(guide.extras ?? [])
+            ]
+          }))
+        };
+      });
+
+      server.setRequestHandler(GetPromptRequestSchema, async (request) => {
+        const { name, arguments: args = {} } = request.params;
+        const guide = findPromptGuide(name);
+        if (!guide) throw new Error(`Unknown prompt: ${name}`);
+        if (!args.subject) throw new Error(`The ${name} prompt needs a subject`);
+
+        return {
+          description: guide.description,
+          messages: [{ role: 'user', content: { type: 'text', text: renderPromptGuide(guide, args) } }]
+        };
+      });
+
+      return server;
+    }
+
+    // Start server with the stdio transport, or over HTTP for several clients
+    const httpServer = config.http ? createHttpTransportServer(config, createServer) : undefined;
+    if (httpServer) {
+      await httpServer.listen();
+      console.error(`fal.ai MCP Server v1.0.0 running on http://${config.http!.host}:${config.http!.port}/mcp`);
+    } else {
+      await createServer().connect(new StdioServerTransport());
+      console.error('fal.ai MCP Server v1.0.0 running');
+    }
+    if (config.mock) console.error(`Using the offline fal.ai mock backend (${config.mock.mode}); nothing is sent to fal.ai`);
 
-    process.on('SIGTERM', async () => {
+    const shutdown = async () => {
       console.error('Shutting down fal.ai MCP Server...');
-      await server.close();
+      await httpServer?.close();
+      await Promise.all([...sessions].map(({ server }) => server.close()));
       process.exit(0);
-    });
+    };
+    process.on('SIGINT', shutdown);
+    process.on('SIGTERM', shutdown);
   } catch (error: any) {
     console.error('Failed to start fal.ai MCP Server:', error.message);
     process.exit(1);
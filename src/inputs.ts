@@ -0,0 +1,212 @@
+import { fal } from '@fal-ai/client';
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import { fileURLToPath } from 'url';
+import { Config } from './config.js';
+import { createPathPolicy, PathPolicy } from './paths.js';
+
+// Uploaded files are reused for this long before being uploaded again
+const UPLOAD_CACHE_TTL = 24 * 60 * 60 * 1000;
+
+const MIME_TYPES: Record<string, string> = {
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.webp': 'image/webp',
+  '.gif': 'image/gif',
+  '.bmp': 'image/bmp',
+  '.mp4': 'video/mp4',
+  '.mov': 'video/quicktime',
+  '.webm': 'video/webm',
+  '.mp3': 'audio/mpeg',
+  '.wav': 'audio/wav',
+  '.m4a': 'audio/mp4',
+  '.ogg': 'audio/ogg',
+  '.flac': 'audio/flac',
+  '.glb': 'model/gltf-binary',
+  '.gltf': 'model/gltf+json',
+  '.obj': 'model/obj',
+  '.fbx': 'application/octet-stream'
+};
+
+export function mimeTypeFor(filePath: string): string {
+  return MIME_TYPES[path.extname(filePath).toLowerCase()] || 'application/octet-stream';
+}
+
+export interface Uploader {
+  upload(data: Buffer, contentType: string, fileName: string): Promise<string>;
+}
+
+// Default uploader: fal's own storage, using the credentials configured on the fal client
+export class FalStorageUploader implements Uploader {
+  async upload(data: Buffer, contentType: string): Promise<string> {
+    return fal.storage.upload(new Blob([new Uint8Array(data)], { type: contentType }));
+  }
+}
+
+// Uploads by POSTing raw bytes to an endpoint that replies with `{ "url": ... }` or a plain URL
+export class HttpUploader implements Uploader {
+  constructor(private endpoint: string) {}
+
+  async upload(data: Buffer, contentType: string, fileName: string): Promise<string> {
+    const response = await fetch(this.endpoint, {
+      method: 'POST',
+      headers: { 'Content-Type': contentType, 'X-File-Name': fileName },
+      body: new Uint8Array(data)
+    });
+    if (!response.ok) throw new Error(`Upload failed: ${response.status} ${response.statusText}`);
+
+    const text = (await response.text()).trim();
+    try {
+      const json = JSON.parse(text);
+      if (typeof json.url === 'string') return json.url;
+    } catch {
+      // Not JSON, fall through to plain-text URL
+    }
+    if (/^https?:\/\//i.test(text)) return text;
+    throw new Error('Upload endpoint did not return a URL');
+  }
+}
+
+interface UploadCacheEntry {
+  url: string;
+  uploadedAt: number;
+}
+
+interface LocalInput {
+  data: Buffer;
+  contentType: string;
+  fileName: string;
+}
+
+export class InputResolver {
+  private cache: Record<string, UploadCacheEntry>;
+
+  // Without a cache file, uploads are only reused for as long as the process runs
+  constructor(private uploader: Uploader, private cacheFile: string | undefined, private paths: PathPolicy) {
+    this.cache = this.loadCache();
+  }
+
+  // True for anything that fal cannot fetch by itself: local paths, file:// and data: URIs
+  isLocalReference(value: string): boolean {
+    if (/^https?:\/\//i.test(value)) return false;
+    if (/^(file|data):/i.test(value)) return true;
+    // Anything else with a scheme (gs://, s3://, ...) is passed through untouched
+    return !/^[a-z][a-z0-9+.-]+:\/\//i.test(value);
+  }
+
+  async resolve(value: string): Promise<string> {
+    if (!this.isLocalReference(value)) return value;
+
+    const input = this.readLocal(value);
+    const hash = crypto.createHash('sha256').update(input.data).digest('hex');
+
+    const cached = this.cache[hash];
+    if (cached && Date.now() - cached.uploadedAt < UPLOAD_CACHE_TTL) {
+      return cached.url;
+    }
+
+    const url = await this.uploader.upload(input.data, input.contentType, input.fileName);
+    this.cache[hash] = { url, uploadedAt: Date.now() };
+    this.saveCache();
+    return url;
+  }
+
+  // Content hash of a local input, or of the local file that was uploaded to a URL, without
+  // uploading anything. Undefined for URLs that did not come from here and unreadable files.
+  contentHash(value: string): string | undefined {
+    if (!this.isLocalReference(value)) {
+      return Object.entries(this.cache).find(([, entry]) => entry.url === value)?.[0];
+    }
+    try {
+      return crypto.createHash('sha256').update(this.readLocal(value).data).digest('hex');
+    } catch {
+      return undefined;
+    }
+  }
+
+  // Resolve every `*_url` / `*_urls` field, including inside nested objects and arrays
+  async resolveArgs<T>(args: T): Promise<T> {
+    if (Array.isArray(args)) {
+      return Promise.all(args.map((item) => this.resolveArgs(item))) as Promise<T>;
+    }
+    if (!args || typeof args !== 'object') return args;
+
+    const resolved: Record<string, any> = {};
+    for (const [key, value] of Object.entries(args)) {
+      if (key.endsWith('_url') && typeof value === 'string' && value) {
+        resolved[key] = await this.resolve(value);
+      } else if (key.endsWith('_urls') && Array.isArray(value)) {
+        resolved[key] = await Promise.all(
+          value.map((item) => (typeof item === 'string' && item ? this.resolve(item) : item))
+        );
+      } else {
+        resolved[key] = await this.resolveArgs(value);
+      }
+    }
+    return resolved as T;
+  }
+
+  private readLocal(value: string): LocalInput {
+    if (/^data:/i.test(value)) {
+      const match = value.match(/^data:([^;,]*)((?:;[^;,]*)*),(.*)$/is);
+      if (!match) throw new Error('Invalid data URI');
+      const contentType = match[1] || 'application/octet-stream';
+      const isBase64 = /;base64/i.test(match[2]);
+      const data = isBase64
+        ? Buffer.from(match[3], 'base64')
+        : Buffer.from(decodeURIComponent(match[3]));
+      const ext = Object.keys(MIME_TYPES).find((key) => MIME_TYPES[key] === contentType) || '';
+      return { data, contentType, fileName: `upload${ext}` };
+    }
+
+    const filePath = this.findFile(/^file:/i.test(value) ? fileURLToPath(value) : value);
+    return {
+      data: fs.readFileSync(filePath),
+      contentType: mimeTypeFor(filePath),
+      fileName: path.basename(filePath)
+    };
+  }
+
+  // Relative paths are tried against the working directory first, then the output directory.
+  // Over HTTP, only the output directory is tried and the file must be in an allowed directory.
+  private findFile(filePath: string): string {
+    const candidates = path.isAbsolute(filePath)
+      ? [filePath]
+      : this.paths.baseDirs().map((dir) => path.resolve(dir, filePath));
+    // Checked before looking, so that a remote client cannot probe for files elsewhere
+    for (const candidate of candidates) this.paths.check(candidate, 'Input file');
+    const found = candidates.find((candidate) => fs.existsSync(candidate) && fs.statSync(candidate).isFile());
+    if (!found) throw new Error(`Input file not found: ${filePath}`);
+    return found;
+  }
+
+  private loadCache(): Record<string, UploadCacheEntry> {
+    if (!this.cacheFile) return {};
+    try {
+      return JSON.parse(fs.readFileSync(this.cacheFile, 'utf-8'));
+    } catch {
+      return {};
+    }
+  }
+
+  private saveCache(): void {
+    if (!this.cacheFile) return;
+    try {
+      fs.mkdirSync(path.dirname(this.cacheFile), { recursive: true });
+      fs.writeFileSync(this.cacheFile, JSON.stringify(this.cache, null, 2));
+    } catch (error: any) {
+      console.error(`Failed to write upload cache: ${error.message}`);
+    }
+  }
+}
+
+export function createInputResolver(config: Config): InputResolver {
+  const uploader = config.uploadUrl ? new HttpUploader(config.uploadUrl) : new FalStorageUploader();
+  const outputDir = path.resolve(config.outputDir);
+  // The mock backend keeps uploads in memory on a random port, so its URLs die with the
+  // process and must not be reused by a later session
+  const offline = config.mock && config.mock.mode !== 'record';
+  return new InputResolver(uploader, offline ? undefined : path.join(outputDir, '.upload-cache.json'), createPathPolicy(config));
+}
@@ -0,0 +1,82 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { Config } from './config.js';
+import { ToolCall } from './fal-client.js';
+
+export type JobState = 'IN_QUEUE' | 'IN_PROGRESS' | 'COMPLETED' | 'FAILED' | 'CANCELLED';
+
+export interface Job extends ToolCall {
+  id: string;
+  state: JobState;
+  submittedAt: string;
+  updatedAt: string;
+  queuePosition?: number;
+  error?: string;
+  // Tool response once the result has been downloaded and saved
+  response?: any;
+  files?: string[];
+  // Result cache key, so that job_result can cache the outputs
+  cacheKey?: string;
+}
+
+export function isFinished(state: JobState): boolean {
+  return state === 'COMPLETED' || state === 'FAILED' || state === 'CANCELLED';
+}
+
+// Jobs submitted with `async: true`, persisted so they survive a server restart
+export class JobStore {
+  private jobs: Map<string, Job>;
+
+  constructor(private file: string) {
+    this.jobs = this.load();
+  }
+
+  add(call: ToolCall, id: string): Job {
+    const now = new Date().toISOString();
+    const job: Job = { ...call, id, state: 'IN_QUEUE', submittedAt: now, updatedAt: now };
+    this.jobs.set(id, job);
+    this.save();
+    return job;
+  }
+
+  get(id: string): Job | undefined {
+    return this.jobs.get(id);
+  }
+
+  update(id: string, changes: Partial<Job>): Job {
+    const job = this.jobs.get(id);
+    if (!job) throw new Error(`Unknown job: ${id}`);
+    Object.assign(job, changes, { updatedAt: new Date().toISOString() });
+    this.save();
+    return job;
+  }
+
+  // Newest first
+  list(state?: JobState): Job[] {
+    return [...this.jobs.values()]
+      .filter((job) => !state || job.state === state)
+      .sort((a, b) => b.submittedAt.localeCompare(a.submittedAt));
+  }
+
+  private load(): Map<string, Job> {
+    try {
+      const jobs: Job[] = JSON.parse(fs.readFileSync(this.file, 'utf-8'));
+      return new Map(jobs.map((job) => [job.id, job]));
+    } catch {
+      return new Map();
+    }
+  }
+
+  private save(): void {
+    try {
+      fs.mkdirSync(path.dirname(this.file), { recursive: true });
+      fs.writeFileSync(this.file, JSON.stringify([...this.jobs.values()], null, 2));
+    } catch (error: any) {
+      console.error(`Failed to write job registry: ${error.message}`);
+    }
+  }
+}
+
+export function createJobStore(config: Config): JobStore {
+  return new JobStore(path.resolve(config.outputDir, '.jobs.json'));
+}
@@ -0,0 +1,193 @@
+import * as path from 'path';
+
+export type MediaKind = 'image' | 'video' | 'audio' | 'model3d';
+
+export interface MediaFile {
+  kind: MediaKind;
+  url: string;
+  // Location in the result, e.g. ['images', 0]
+  location: (string | number)[];
+  contentType?: string;
+}
+
+const EXTENSIONS: Record<MediaKind, string[]> = {
+  image: ['png', 'jpg', 'jpeg', 'webp', 'gif', 'bmp', 'tiff'],
+  video: ['mp4', 'mov', 'webm', 'mkv', 'avi'],
+  audio: ['mp3', 'wav', 'm4a', 'ogg', 'flac', 'aac'],
+  model3d: ['glb', 'gltf', 'obj', 'fbx', 'usdz', 'ply', 'stl']
+};
+
+const DEFAULT_EXTENSIONS: Record<MediaKind, string> = {
+  image: 'png',
+  video: 'mp4',
+  audio: 'mp3',
+  model3d: 'glb'
+};
+
+function kindFromContentType(contentType: string | undefined): MediaKind | null {
+  if (!contentType) return null;
+  if (contentType.startsWith('image/')) return 'image';
+  if (contentType.startsWith('video/')) return 'video';
+  if (contentType.startsWith('audio/')) return 'audio';
+  if (contentType.startsWith('model/')) return 'model3d';
+  return null;
+}
+
+function extensionOf(url: string): string {
+  if (url.startsWith('data:')) return '';
+  try {
+    return path.extname(new URL(url).pathname).slice(1).toLowerCase();
+  } catch {
+    return '';
+  }
+}
+
+function kindFromExtension(url: string): MediaKind | null {
+  const ext = extensionOf(url);
+  const kind = (Object.keys(EXTENSIONS) as MediaKind[]).find((k) => EXTENSIONS[k].includes(ext));
+  return kind ?? null;
+}
+
+// Last resort: what the field is called, e.g. "mask_image" or "audio_file"
+function kindFromKey(key: string | number | undefined): MediaKind | null {
+  if (typeof key !== 'string') return null;
+  if (/image|mask|depth|frame|thumbnail/i.test(key)) return 'image';
+  if (/video/i.test(key)) return 'video';
+  if (/audio|music|speech|voice|sound/i.test(key)) return 'audio';
+  if (/model|mesh|glb|3d/i.test(key)) return 'model3d';
+  return null;
+}
+
+function isFileUrl(value: unknown): value is string {
+  return typeof value === 'string' && /^(https?:\/\/|data:)/i.test(value);
+}
+
+// Walk the whole result and collect every file it references, with its media kind
+export function findMediaFiles(data: any): MediaFile[] {
+  const files: MediaFile[] = [];
+
+  function visit(node: any, location: (string | number)[], parentKey?: string | number): void {
+    if (Array.isArray(node)) {
+      node.forEach((item, index) => visit(item, [...location, index], parentKey));
+      return;
+    }
+    if (!node || typeof node !== 'object') return;
+
+    if (isFileUrl(node.url)) {
+      const kind = kindFromContentType(node.content_type)
+        ?? kindFromExtension(node.file_name ? `https://x/${node.file_name}` : node.url)
+        ?? kindFromExtension(node.url)
+        ?? kindFromKey(parentKey);
+      if (kind) {
+        files.push({ kind, url: node.url, location, contentType: node.content_type });
+        return;
+      }
+    }
+
+    for (const [key, value] of Object.entries(node)) {
+      if (/_url$/.test(key) && isFileUrl(value)) {
+        const kind = kindFromExtension(value) ?? kindFromKey(key);
+        if (kind) files.push({ kind, url: value, location: [...location, key] });
+      } else {
+        visit(value, [...location, key], key);
+      }
+    }
+  }
+
+  visit(data, []);
+  return files;
+}
+
+// File extension to save a media file with
+export function mediaExtension(file: MediaFile): string {
+  const ext = extensionOf(file.url);
+  if (ext) return ext;
+  const subtype = file.contentType?.split('/')[1]?.split(/[;+]/)[0];
+  if (subtype && EXTENSIONS[file.kind].includes(subtype)) return subtype;
+  if (subtype === 'mpeg' && file.kind === 'audio') return 'mp3';
+  if (subtype === 'gltf-binary') return 'glb';
+  return DEFAULT_EXTENSIONS[file.kind];
+}
+
+// The result with every media file removed, leaving only its other data
+export function stripMediaFiles(data: any, files: MediaFile[]): any {
+  const locations = new Set(files.map((file) => JSON.stringify(file.location)));
+
+  function strip(node: any, location: (string | number)[]): any {
+    if (locations.has(JSON.stringify(location))) return undefined;
+    if (Array.isArray(node)) {
+      const items = node.map((item, index) => strip(item, [...location, index])).filter((item) => item !== undefined);
+      return items.length ? items : undefined;
+    }
+    if (!node || typeof node !== 'object') return node;
+
+    const entries = Object.entries(node)
+      .map(([key, value]) => [key, strip(value, [...location, key])])
+      .filter(([, value]) => value !== undefined);
+    return entries.length ? Object.fromEntries(entries) : undefined;
+  }
+
+  return strip(data, []) ?? {};
+}
+
+// Values available to output file name templates such as "{tool}-{timestamp}-{index}-{seed}.{ext}"
+export interface FilenameVars {
+  tool?: string;
+  prefix: string;
+  timestamp: string;
+  index?: number;
+  seed?: number | string;
+  ext: string;
+}
+
+export function renderFilename(template: string, vars: FilenameVars): string {
+  const withExt = template.includes('{ext}') ? template : `${template}.{ext}`;
+  const name = withExt.replace(/\{(\w+)\}/g, (match, key: string) => {
+    const value = vars[key as keyof FilenameVars];
+    return value === undefined || value === null ? '' : String(value).replace(/[\\/:*?"<>|]+/g, '-');
+  });
+  // Tidy separators left behind by empty values, e.g. a missing {seed}
+  return name.replace(/([-_]){2,}/g, '$1').replace(/[-_]+\./g, '.').replace(/^[-_]+/, '');
+}
+
+// Extract image URLs from result
+export function extractImageUrls(data: any): string[] {
+  if (data.images && Array.isArray(data.images)) {
+    return data.images.map((img: any) => img.url || img).filter(Boolean);
+  }
+  if (data.image?.url) return [data.image.url];
+  if (data.image_url) return [data.image_url];
+  if (data.output?.url) return [data.output.url];
+  if (data.url) return [data.url];
+  return findMediaFiles(data).filter((file) => file.kind === 'image').map((file) => file.url);
+}
+
+// Extract video URL from result
+export function extractVideoUrl(data: any): string | null {
+  if (data.video?.url) return data.video.url;
+  if (data.video_url) return data.video_url;
+  if (data.output?.url) return data.output.url;
+  if (data.url) return data.url;
+  return findMediaFiles(data).find((file) => file.kind === 'video')?.url ?? null;
+}
+
+// Extract audio URL from result
+export function extractAudioUrl(data: any): string | null {
+  if (data.audio?.url) return data.audio.url;
+  if (data.audio_url) return data.audio_url;
+  if (data.audio_file?.url) return data.audio_file.url;
+  if (data.output?.url) return data.output.url;
+  if (data.url) return data.url;
+  return findMediaFiles(data).find((file) => file.kind === 'audio')?.url ?? null;
+}
+
+// Extract 3D model URL from result
+export function extract3DUrl(data: any): string | null {
+  if (data.model?.url) return data.model.url;
+  if (data.model_url) return data.model_url;
+  if (data.mesh?.url) return data.mesh.url;
+  if (data.output?.url) return data.output.url;
+  if (data.glb?.url) return data.glb.url;
+  if (data.url) return data.url;
+  return findMediaFiles(data).find((file) => file.kind === 'model3d')?.url ?? null;
+}
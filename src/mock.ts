@@ -0,0 +1,397 @@
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import * as path from 'path';
+import * as zlib from 'zlib';
+import { Capability, Config, MODEL_ALTERNATES, MODELS } from './config.js';
+import { mimeTypeFor } from './inputs.js';
+import { findMediaFiles, MediaKind } from './media.js';
+import { mp4Box, pngChunk } from './provenance.js';
+
+// fixtures: made-up results for every endpoint; record: real fal calls, saved as fixtures;
+// replay: the saved fixtures, without touching fal
+export type MockMode = 'fixtures' | 'record' | 'replay';
+
+export interface MockOptions {
+  mode: MockMode;
+  // Recorded results, one <endpoint>.json per endpoint, and their media under media/
+  fixturesDir: string;
+}
+
+// A recorded result. Media URLs are stored as "fixture:<file>" and served locally on replay.
+export interface Fixture {
+  endpoint: string;
+  input: Record<string, any>;
+  data: any;
+  recorded_at: string;
+}
+
+interface MockRequest {
+  endpoint: string;
+  input: Record<string, any>;
+  polls: number;
+  cancelled: boolean;
+}
+
+const QUEUE_HOST = 'queue.fal.run';
+const REST_HOST = 'rest.alpha.fal.ai';
+const FIXTURE_PREFIX = 'fixture:';
+
+// What each capability's model returns
+const CAPABILITY_OUTPUTS: Record<Capability, MediaKind> = {
+  TEXT_TO_IMAGE: 'image',
+  EDIT_IMAGE: 'image',
+  IMAGE_TO_IMAGE: 'image',
+  INPAINT: 'image',
+  STYLE_TRANSFER: 'image',
+  TEXT_TO_VIDEO: 'video',
+  IMAGE_TO_VIDEO: 'video',
+  LIPSYNC: 'video',
+  AVATAR_VIDEO: 'video',
+  UPSCALE_IMAGE: 'image',
+  UPSCALE_VIDEO: 'video',
+  REMOVE_BACKGROUND: 'image',
+  REMOVE_VIDEO_BACKGROUND: 'video',
+  FACE_SWAP_IMAGE: 'image',
+  FACE_SWAP_VIDEO: 'video',
+  SEGMENT_IMAGE: 'image',
+  ESTIMATE_DEPTH: 'image',
+  GENERATE_MUSIC: 'audio',
+  TEXT_TO_SPEECH: 'audio',
+  SOUND_EFFECT: 'audio',
+  IMAGE_TO_3D: 'model3d',
+  RETEXTURE_3D: 'model3d'
+};
+
+const PLACEHOLDERS: Record<MediaKind, { ext: string; contentType: string }> = {
+  image: { ext: 'png', contentType: 'image/png' },
+  video: { ext: 'mp4', contentType: 'video/mp4' },
+  audio: { ext: 'mp3', contentType: 'audio/mpeg' },
+  model3d: { ext: 'glb', contentType: 'model/gltf-binary' }
+};
+
+// Stands in for fal: the fal client's fetch is routed here, and output files are served
+// from a local HTTP server, so every handler can run without an account or credits.
+export class MockFalBackend {
+  private requests = new Map<string, MockRequest>();
+  private uploads = new Map<string, { contentType: string; data: Buffer }>();
+  private baseUrl?: Promise<string>;
+
+  constructor(private options: MockOptions) {}
+
+  async fetch(input: RequestInfo | URL, init?: RequestInit): Promise<Response> {
+    const url = new URL(input instanceof Request ? input.url : String(input));
+    const method = (init?.method ?? 'GET').toUpperCase();
+
+    if (this.options.mode === 'record') {
+      const response = await fetch(input, init);
+      await this.record(url, method, init, response.clone()).catch((error) => {
+        console.error(`Failed to record fal.ai fixture: ${error.message}`);
+      });
+      return response;
+    }
+    if (url.hostname === REST_HOST && url.pathname.startsWith('/storage/upload/initiate')) {
+      return this.initiateUpload(url);
+    }
+    if (url.hostname === QUEUE_HOST) return this.queue(url, method, init);
+    // Uploads to and files from the local server, and anything else
+    return fetch(input, init);
+  }
+
+  // ─── Queue ───
+
+  private async queue(url: URL, method: string, init?: RequestInit): Promise<Response> {
+    const match = url.pathname.match(/\/requests\/([\w-]+)(\/status|\/cancel)?$/);
+    if (!match) {
+      if (method !== 'POST') return failure(405, 'Method not allowed');
+      const endpoint = url.pathname.slice(1);
+      if (this.options.mode === 'replay' && !fs.existsSync(this.fixturePath(endpoint))) return missingFixture(endpoint, this.options);
+      const requestId = crypto.randomUUID();
+      const input = typeof init?.body === 'string' && init.body ? JSON.parse(init.body) : {};
+      this.requests.set(requestId, { endpoint, input, polls: 0, cancelled: false });
+      return json(200, { request_id: requestId, status: 'IN_QUEUE', queue_position: 0 });
+    }
+
+    const [, requestId, action] = match;
+    const request = this.requests.get(requestId);
+    // Requests only live as long as the server process
+    if (!request) return failure(404, `Request ${requestId} not found`);
+
+    if (action === '/cancel') {
+      request.cancelled = true;
+      return json(202, { status: 'CANCELLATION_REQUESTED' });
+    }
+    if (action === '/status') {
+      // One poll in progress, then done
+      request.polls += 1;
+      const logs = [{ message: `Mock backend: running ${request.endpoint}`, level: 'INFO', source: 'user', timestamp: new Date().toISOString() }];
+      return request.polls === 1 && !request.cancelled
+        ? json(200, { status: 'IN_PROGRESS', request_id: requestId, logs })
+        : json(200, { status: 'COMPLETED', request_id: requestId, logs, metrics: { inference_time: 0.5 } });
+    }
+
+    if (request.cancelled) return failure(400, 'Request was cancelled');
+    const data = this.options.mode === 'replay'
+      ? this.replay(request.endpoint, await this.base())
+      : fixtureResult(request.endpoint, request.input, requestId, await this.base());
+    if (!data) return missingFixture(request.endpoint, this.options);
+    return json(200, data, { 'x-fal-request-id': requestId });
+  }
+
+  private async initiateUpload(url: URL): Promise<Response> {
+    if (url.pathname.endsWith('multipart')) return failure(501, 'Uploads over 90 MB are not supported by the mock backend');
+    const id = crypto.randomUUID();
+    const fileUrl = `${await this.base()}/uploads/${id}`;
+    return json(200, { upload_url: fileUrl, file_url: fileUrl });
+  }
+
+  // ─── Record and replay ───
+
+  private async record(url: URL, method: string, init: RequestInit | undefined, response: Response): Promise<void> {
+    if (url.hostname !== QUEUE_HOST || !response.ok) return;
+    const match = url.pathname.match(/\/requests\/([\w-]+)$/);
+    if (!match && method === 'POST') {
+      const { request_id } = await response.json();
+      const input = typeof init?.body === 'string' && init.body ? JSON.parse(init.body) : {};
+      this.requests.set(request_id, { endpoint: url.pathname.slice(1), input, polls: 0, cancelled: false });
+      return;
+    }
+    const request = match && method === 'GET' ? this.requests.get(match[1]) : undefined;
+    if (!request) return;
+
+    // Keep the media too, so replays work offline and after fal's links expire
+    const data = await response.json();
+    const slug = fixtureSlug(request.endpoint);
+    const mediaDir = path.join(this.options.fixturesDir, 'media');
+    fs.mkdirSync(mediaDir, { recursive: true });
+    for (const [index, file] of findMediaFiles(data).entries()) {
+      const download = await fetch(file.url);
+      if (!download.ok) throw new Error(`Failed to download ${file.url}: ${download.statusText}`);
+      const name = `${slug}-${index + 1}${path.extname(new URL(file.url).pathname) || `.${PLACEHOLDERS[file.kind].ext}`}`;
+      fs.writeFileSync(path.join(mediaDir, name), Buffer.from(await download.arrayBuffer()));
+      const node = file.location.reduce((parent: any, key) => parent[key], data);
+      node.url = `${FIXTURE_PREFIX}${name}`;
+    }
+
+    const fixture: Fixture = { endpoint: request.endpoint, input: request.input, data, recorded_at: new Date().toISOString() };
+    fs.writeFileSync(this.fixturePath(request.endpoint), JSON.stringify(fixture, null, 2) + '\n');
+    console.error(`Recorded fal.ai fixture for ${request.endpoint}`);
+  }
+
+  private replay(endpoint: string, baseUrl: string): any {
+    let fixture: Fixture;
+    try {
+      fixture = JSON.parse(fs.readFileSync(this.fixturePath(endpoint), 'utf-8'));
+    } catch {
+      return undefined;
+    }
+    return JSON.parse(JSON.stringify(fixture.data), (_key, value) =>
+      typeof value === 'string' && value.startsWith(FIXTURE_PREFIX)
+        ? `${baseUrl}/fixtures/${encodeURIComponent(value.slice(FIXTURE_PREFIX.length))}`
+        : value
+    );
+  }
+
+  private fixturePath(endpoint: string): string {
+    return path.join(this.options.fixturesDir, `${fixtureSlug(endpoint)}.json`);
+  }
+
+  // ─── Local file server ───
+
+  // Started on first use, on a free port on loopback
+  private base(): Promise<string> {
+    this.baseUrl ??= new Promise((resolve, reject) => {
+      const server = http.createServer((req, res) => this.serve(req, res));
+      server.once('error', reject);
+      server.listen(0, '127.0.0.1', () => {
+        // Do not keep the process alive just for this
+        server.unref();
+        resolve(`http://127.0.0.1:${(server.address() as AddressInfo).port}`);
+      });
+    });
+    return this.baseUrl;
+  }
+
+  private serve(req: http.IncomingMessage, res: http.ServerResponse): void {
+    const [, area, name = ''] = decodeURIComponent(new URL(req.url ?? '/', 'http://localhost').pathname).split('/');
+
+    if (area === 'uploads' && req.method === 'PUT') {
+      const chunks: Buffer[] = [];
+      req.on('data', (chunk) => chunks.push(chunk));
+      req.on('end', () => {
+        this.uploads.set(name, { contentType: req.headers['content-type'] ?? 'application/octet-stream', data: Buffer.concat(chunks) });
+        res.writeHead(200).end();
+      });
+      return;
+    }
+
+    let file: { contentType: string; data: Buffer } | undefined;
+    if (area === 'uploads') {
+      file = this.uploads.get(name);
+    } else if (area === 'files') {
+      const kind = (Object.keys(PLACEHOLDERS) as MediaKind[]).find((k) => name.endsWith(`.${PLACEHOLDERS[k].ext}`));
+      if (kind) file = { contentType: PLACEHOLDERS[kind].contentType, data: placeholder(kind) };
+    } else if (area === 'fixtures') {
+      const filePath = path.join(this.options.fixturesDir, 'media', path.basename(name));
+      if (fs.existsSync(filePath)) file = { contentType: mimeTypeFor(filePath), data: fs.readFileSync(filePath) };
+    }
+
+    if (!file) {
+      res.writeHead(404).end();
+      return;
+    }
+    res.writeHead(200, { 'Content-Type': file.contentType, 'Content-Length': file.data.length });
+    res.end(file.data);
+  }
+}
+
+function json(status: number, body: unknown, headers: Record<string, string> = {}): Response {
+  return new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json', ...headers } });
+}
+
+// Errors as fal reports them; the fal client shows `message`, handleError `detail`
+function failure(status: number, message: string): Response {
+  return json(status, { message, detail: message });
+}
+
+function missingFixture(endpoint: string, options: MockOptions): Response {
+  return failure(404, `No recorded fixture for ${endpoint} in ${options.fixturesDir}. Record one with FAL_MOCK=record.`);
+}
+
+function fixtureSlug(endpoint: string): string {
+  return endpoint.replace(/[^\w.-]+/g, '-');
+}
+
+// The kind of output an endpoint produces, from its capability or else its name
+function outputKind(endpoint: string): MediaKind {
+  const capability = (Object.keys(MODELS) as Capability[]).find((key) =>
+    MODELS[key] === endpoint || Object.values(MODEL_ALTERNATES[key] ?? {}).includes(endpoint)
+  );
+  if (capability) return CAPABILITY_OUTPUTS[capability];
+  if (/video|lipsync|avatar/i.test(endpoint)) return 'video';
+  if (/music|audio|speech|tts|sound/i.test(endpoint)) return 'audio';
+  if (/3d|mesh|retexture/i.test(endpoint)) return 'model3d';
+  return 'image';
+}
+
+// A made-up result in the shape fal's models use for the kind of output
+function fixtureResult(endpoint: string, input: Record<string, any>, requestId: string, baseUrl: string): any {
+  const kind = outputKind(endpoint);
+  const { ext, contentType } = PLACEHOLDERS[kind];
+  const file = (index: number) => ({
+    url: `${baseUrl}/files/${requestId}-${index}.${ext}`,
+    content_type: contentType,
+    file_name: `mock-${index}.${ext}`
+  });
+  const common = { seed: typeof input.seed === 'number' ? input.seed : 42, timings: { inference: 0.5 } };
+
+  switch (kind) {
+    case 'image': {
+      const count = typeof input.num_images === 'number' ? input.num_images : 1;
+      return { images: Array.from({ length: count }, (_, i) => ({ ...file(i + 1), width: PNG_SIZE, height: PNG_SIZE })), ...common };
+    }
+    case 'video':
+      return { video: file(1), ...common };
+    case 'audio':
+      return { audio: file(1), ...common };
+    case 'model3d':
+      return { model: file(1), ...common };
+  }
+}
+
+// ─── Placeholder files ───
+
+const PNG_SIZE = 64;
+const placeholders = new Map<MediaKind, Buffer>();
+
+function placeholder(kind: MediaKind): Buffer {
+  if (!placeholders.has(kind)) {
+    const build = { image: placeholderPng, video: placeholderMp4, audio: placeholderMp3, model3d: placeholderGlb }[kind];
+    placeholders.set(kind, build());
+  }
+  return placeholders.get(kind)!;
+}
+
+// Solid grey RGB image
+function placeholderPng(): Buffer {
+  const header = Buffer.alloc(13);
+  header.writeUInt32BE(PNG_SIZE, 0);
+  header.writeUInt32BE(PNG_SIZE, 4);
+  header.writeUInt8(8, 8);
+  header.writeUInt8(2, 9);
+  // Each row: filter type 0, then RGB pixels
+  const row = Buffer.concat([Buffer.from([0]), Buffer.alloc(PNG_SIZE * 3, 0x80)]);
+  const pixels = zlib.deflateSync(Buffer.concat(Array.from({ length: PNG_SIZE }, () => row)));
+  return Buffer.concat([
+    Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+    pngChunk('IHDR', header),
+    pngChunk('IDAT', pixels),
+    pngChunk('IEND', Buffer.alloc(0))
+  ]);
+}
+
+// A one-second movie with no tracks: enough structure for metadata to be embedded in it
+function placeholderMp4(): Buffer {
+  const ftyp = Buffer.concat([Buffer.from('isom', 'latin1'), uint32(512), Buffer.from('isomiso2mp41', 'latin1')]);
+  const matrix = [0x10000, 0, 0, 0, 0x10000, 0, 0, 0, 0x40000000].map(uint32);
+  const mvhd = Buffer.concat([
+    uint32(0), // version and flags
+    uint32(0), // creation time
+    uint32(0), // modification time
+    uint32(1000), // timescale
+    uint32(1000), // duration
+    uint32(0x10000), // rate 1.0
+    Buffer.from([0x01, 0x00]), // volume 1.0
+    Buffer.alloc(10),
+    ...matrix,
+    Buffer.alloc(24),
+    uint32(1) // next track id
+  ]);
+  return Buffer.concat([mp4Box('ftyp', ftyp), mp4Box('moov', mp4Box('mvhd', mvhd)), mp4Box('mdat', Buffer.alloc(0))]);
+}
+
+// About a second of silent MPEG-1 Layer III frames (128 kbps, 44.1 kHz)
+function placeholderMp3(): Buffer {
+  const frame = Buffer.alloc(417);
+  frame.set([0xff, 0xfb, 0x90, 0x00]);
+  return Buffer.concat(Array.from({ length: 38 }, () => frame));
+}
+
+// glTF binary with a single triangle
+function placeholderGlb(): Buffer {
+  const positions = Buffer.alloc(36);
+  [0, 0, 0, 1, 0, 0, 0, 1, 0].forEach((value, index) => positions.writeFloatLE(value, index * 4));
+  const gltf = {
+    asset: { version: '2.0', generator: 'fal.ai MCP mock backend' },
+    scene: 0,
+    scenes: [{ nodes: [0] }],
+    nodes: [{ mesh: 0 }],
+    meshes: [{ primitives: [{ attributes: { POSITION: 0 } }] }],
+    buffers: [{ byteLength: positions.length }],
+    bufferViews: [{ buffer: 0, byteLength: positions.length }],
+    accessors: [{ bufferView: 0, componentType: 5126, count: 3, type: 'VEC3', min: [0, 0, 0], max: [1, 1, 0] }]
+  };
+  const text = Buffer.from(JSON.stringify(gltf));
+  // Chunks are padded to 4 bytes: JSON with spaces, binary with zeros
+  const jsonChunk = Buffer.concat([text, Buffer.alloc((4 - (text.length % 4)) % 4, 0x20)]);
+  const chunk = (type: string, data: Buffer) => Buffer.concat([uint32le(data.length), Buffer.from(type, 'latin1'), data]);
+  const body = Buffer.concat([chunk('JSON', jsonChunk), chunk('BIN\0', positions)]);
+  return Buffer.concat([Buffer.from('glTF', 'latin1'), uint32le(2), uint32le(12 + body.length), body]);
+}
+
+function uint32(value: number): Buffer {
+  const buffer = Buffer.alloc(4);
+  buffer.writeUInt32BE(value);
+  return buffer;
+}
+
+function uint32le(value: number): Buffer {
+  const buffer = Buffer.alloc(4);
+  buffer.writeUInt32LE(value);
+  return buffer;
+}
+
+export function createMockBackend(config: Config): MockFalBackend | undefined {
+  return config.mock ? new MockFalBackend(config.mock) : undefined;
+}
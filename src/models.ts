@@ -0,0 +1,57 @@
+import { Capability, Config, MODEL_ALTERNATES, MODELS } from './config.js';
+
+export interface ModelChoice {
+  endpoint: string;
+  // Why this endpoint was picked, reported by list_models
+  reason: string;
+}
+
+// Resolves the fal endpoint for a capability from built-in defaults, config overrides and per-call choices
+export class ModelRegistry {
+  constructor(private overrides: Config['models']) {}
+
+  // Named models selectable for a capability. "default" is the configured default and
+  // "builtin" the shipped endpoint, when the two differ.
+  aliases(capability: Capability): Record<string, string> {
+    const { endpoint } = this.defaultFor(capability);
+    return {
+      ...MODEL_ALTERNATES[capability],
+      ...this.overrides[capability]?.aliases,
+      ...(endpoint !== MODELS[capability] && { builtin: MODELS[capability] }),
+      default: endpoint
+    };
+  }
+
+  defaultFor(capability: Capability): ModelChoice {
+    const override = this.overrides[capability];
+    if (override?.default) {
+      const named = { ...MODEL_ALTERNATES[capability], ...override.aliases };
+      return {
+        endpoint: Object.hasOwn(named, override.default) ? named[override.default] : override.default,
+        reason: override.source ?? 'configured default'
+      };
+    }
+    return { endpoint: MODELS[capability], reason: 'built-in default' };
+  }
+
+  resolve(capability: Capability, requested?: string): ModelChoice {
+    if (!requested) return this.defaultFor(capability);
+
+    const aliases = this.aliases(capability);
+    // Own keys only, so "toString" or "constructor" is not taken for an alias
+    if (Object.hasOwn(aliases, requested)) {
+      return { endpoint: aliases[requested], reason: `"${requested}" requested for this call` };
+    }
+    // Endpoint ids are accepted as long as they are on the capability's list
+    if (Object.values(aliases).includes(requested)) {
+      return { endpoint: requested, reason: 'requested for this call' };
+    }
+    throw new Error(
+      `Model "${requested}" is not available for ${capability}. Choose one of: ${Object.keys(aliases).join(', ')}`
+    );
+  }
+}
+
+export function createModelRegistry(config: Config): ModelRegistry {
+  return new ModelRegistry(config.models);
+}
@@ -0,0 +1,66 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { Config } from './config.js';
+
+// Where the paths clients give (input files, save paths, manifests) may point. Over stdio the
+// client is the local user, so any path goes, relative to the working directory. Over HTTP,
+// remote clients are kept inside the output directory and FAL_HTTP_ALLOWED_DIRS, and relative
+// paths are taken from the output directory.
+export class PathPolicy {
+  constructor(private outputDir: string, private roots?: string[]) {}
+
+  get confined(): boolean {
+    return this.roots !== undefined;
+  }
+
+  // Directories relative paths are looked up in, first to last
+  baseDirs(): string[] {
+    return this.confined ? [this.outputDir] : [process.cwd(), this.outputDir];
+  }
+
+  // The absolute path for a path a client gave as `name`. Throws if it is outside the allowed directories.
+  resolve(value: string, name: string): string {
+    const resolved = path.resolve(this.confined ? this.outputDir : process.cwd(), value);
+    this.check(resolved, name);
+    return resolved;
+  }
+
+  // Throws if an absolute path is outside the allowed directories. Symbolic links are
+  // followed, so a link inside the output directory cannot point out of it.
+  check(filePath: string, name: string): void {
+    if (!this.roots) return;
+    const real = realPath(filePath);
+    if (this.roots.some((root) => isInside(realPath(root), real))) return;
+    throw new Error(
+      `${name} ${filePath} is outside the directories this server may use over HTTP. ` +
+      `Use a path inside the output directory (${this.outputDir}) or ask the server's operator to add it to FAL_HTTP_ALLOWED_DIRS.`
+    );
+  }
+}
+
+// The real path of a file that may not exist yet: its nearest existing ancestor's real path,
+// with the rest of the path appended
+function realPath(filePath: string): string {
+  const rest: string[] = [];
+  let current = path.resolve(filePath);
+  for (;;) {
+    try {
+      return path.join(fs.realpathSync(current), ...rest);
+    } catch {
+      const parent = path.dirname(current);
+      if (parent === current) return path.join(current, ...rest);
+      rest.unshift(path.basename(current));
+      current = parent;
+    }
+  }
+}
+
+function isInside(root: string, filePath: string): boolean {
+  const relative = path.relative(root, filePath);
+  return relative !== '..' && !relative.startsWith('..' + path.sep) && !path.isAbsolute(relative);
+}
+
+export function createPathPolicy(config: Config): PathPolicy {
+  const outputDir = path.resolve(config.outputDir);
+  return new PathPolicy(outputDir, config.http && [outputDir, ...config.http.allowedDirs]);
+}
@@ -0,0 +1,102 @@
+import { ContentBlock } from '@modelcontextprotocol/sdk/types.js';
+import { execFile } from 'child_process';
+import * as fs from 'fs';
+import * as path from 'path';
+import { pathToFileURL } from 'url';
+import { Config } from './config.js';
+import { mimeTypeFor } from './inputs.js';
+
+export interface PreviewOptions {
+  // Include image/audio content in tool results, not just resource links
+  inline: boolean;
+  // Longest side of image thumbnails and video poster frames, in pixels
+  maxSize: number;
+  // Larger audio files are only linked
+  maxAudioBytes: number;
+}
+
+// Without sharp, images up to this size are sent as they are
+const UNRESIZED_IMAGE_LIMIT = 1024 * 1024;
+
+const FFMPEG_TIMEOUT = 15000;
+
+// sharp is an optional dependency, so it is loaded at runtime and may be missing
+type Sharp = typeof import('sharp');
+
+let sharpLoader: Promise<Sharp | null> | undefined;
+
+export function loadSharp(): Promise<Sharp | null> {
+  sharpLoader ??= import('sharp').then((module) => module.default).catch(() => null);
+  return sharpLoader;
+}
+
+// Builds the content blocks that let the client see (or hear) saved outputs
+export class MediaPreviewer {
+  constructor(private options: PreviewOptions) {}
+
+  // `uri` is the file's resource URI, when it has one; otherwise the link is a file:// URL
+  async contentFor(filePath: string, uri?: string): Promise<ContentBlock[]> {
+    const mimeType = mimeTypeFor(filePath);
+    const blocks: ContentBlock[] = [];
+
+    if (this.options.inline) {
+      try {
+        const preview = await this.inlineContent(filePath, mimeType);
+        if (preview) blocks.push(preview);
+      } catch (error: any) {
+        console.error(`Failed to build preview for ${filePath}: ${error.message}`);
+      }
+    }
+
+    blocks.push({
+      type: 'resource_link',
+      uri: uri ?? pathToFileURL(path.resolve(filePath)).href,
+      name: path.basename(filePath),
+      mimeType
+    });
+    return blocks;
+  }
+
+  private async inlineContent(filePath: string, mimeType: string): Promise<ContentBlock | null> {
+    if (mimeType.startsWith('image/')) {
+      return this.thumbnail(fs.readFileSync(filePath), mimeType);
+    }
+    if (mimeType.startsWith('video/')) {
+      const frame = await posterFrame(filePath);
+      return frame ? this.thumbnail(frame, 'image/png') : null;
+    }
+    if (mimeType.startsWith('audio/') && fs.statSync(filePath).size <= this.options.maxAudioBytes) {
+      return { type: 'audio', data: fs.readFileSync(filePath).toString('base64'), mimeType };
+    }
+    return null;
+  }
+
+  // A downscaled JPEG (PNG when the image has transparency)
+  private async thumbnail(data: Buffer, mimeType: string): Promise<ContentBlock | null> {
+    const sharp = await loadSharp();
+    if (!sharp) {
+      if (data.length > UNRESIZED_IMAGE_LIMIT || !/^image\/(png|jpeg|webp|gif)$/.test(mimeType)) return null;
+      return { type: 'image', data: data.toString('base64'), mimeType };
+    }
+
+    const { maxSize } = this.options;
+    const image = sharp(data).rotate().resize({ width: maxSize, height: maxSize, fit: 'inside', withoutEnlargement: true });
+    const { hasAlpha } = await sharp(data).metadata();
+    const thumbnail = hasAlpha ? await image.png().toBuffer() : await image.jpeg({ quality: 80 }).toBuffer();
+    return { type: 'image', data: thumbnail.toString('base64'), mimeType: hasAlpha ? 'image/png' : 'image/jpeg' };
+  }
+}
+
+// First frame of a video as PNG, if ffmpeg is installed
+export function posterFrame(filePath: string): Promise<Buffer | null> {
+  const args = ['-v', 'error', '-i', filePath, '-frames:v', '1', '-f', 'image2pipe', '-vcodec', 'png', '-'];
+  return new Promise((resolve) => {
+    execFile('ffmpeg', args, { encoding: 'buffer', timeout: FFMPEG_TIMEOUT, maxBuffer: 64 * 1024 * 1024 }, (error, stdout) => {
+      resolve(error || !stdout.length ? null : stdout);
+    });
+  });
+}
+
+export function createMediaPreviewer(config: Config): MediaPreviewer {
+  return new MediaPreviewer(config.preview);
+}
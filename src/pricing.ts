@@ -0,0 +1,263 @@
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import { Budgets, Config, Price, PRICES } from './config.js';
+
+export interface CostEstimate {
+  endpoint: string;
+  // null when no price is known for the endpoint
+  usd: number | null;
+  price?: Price;
+  quantity: number;
+  // What the estimate had to guess, e.g. an unstated video length
+  assumptions: string[];
+}
+
+// Pixel sizes of the image_size presets
+const IMAGE_SIZES: Record<string, [number, number]> = {
+  square_hd: [1024, 1024],
+  square: [512, 512],
+  portrait_4_3: [768, 1024],
+  portrait_16_9: [576, 1024],
+  landscape_4_3: [1024, 768],
+  landscape_16_9: [1024, 576]
+};
+
+const UNIT_NAMES: Record<Price['unit'], string> = {
+  request: 'request',
+  image: 'image',
+  megapixel: 'megapixel',
+  second: 'second',
+  '1k_characters': '1,000 characters'
+};
+
+export function formatUsd(usd: number): string {
+  return `$${usd.toFixed(usd < 1 ? 3 : 2)}`;
+}
+
+export function describeEstimate(estimate: CostEstimate): string {
+  if (estimate.usd === null || !estimate.price) {
+    return `No price known for ${estimate.endpoint}. Add one to the "pricing" section of the config file.`;
+  }
+  const { usd, unit } = estimate.price;
+  const lines = [
+    `Estimated cost: ${formatUsd(estimate.usd)} (${estimate.quantity} × ${formatUsd(usd)} per ${UNIT_NAMES[unit]})`,
+    `Model: ${estimate.endpoint}`
+  ];
+  if (estimate.assumptions.length) lines.push(`Assuming: ${estimate.assumptions.join('; ')}`);
+  return lines.join('\n');
+}
+
+// Estimates what a call will cost from the price table and the call's input
+export class Pricing {
+  private prices: Record<string, Price>;
+
+  constructor(overrides: Record<string, Price>) {
+    this.prices = { ...PRICES, ...overrides };
+  }
+
+  priceFor(endpoint: string): Price | undefined {
+    return this.prices[endpoint];
+  }
+
+  estimate(endpoint: string, input: Record<string, any>): CostEstimate {
+    const price = this.priceFor(endpoint);
+    if (!price) return { endpoint, usd: null, quantity: 0, assumptions: [] };
+
+    const assumptions: string[] = [];
+    const count = input.num_images ?? 1;
+    let quantity: number;
+    switch (price.unit) {
+      case 'image':
+        quantity = count;
+        break;
+      case 'megapixel':
+        quantity = count * this.megapixels(input.image_size, assumptions);
+        break;
+      case 'second': {
+        const seconds = Number(input.duration ?? input.duration_seconds);
+        if (seconds > 0) {
+          quantity = seconds;
+        } else {
+          quantity = price.assume ?? 1;
+          assumptions.push(`${quantity} s of video or audio`);
+        }
+        break;
+      }
+      case '1k_characters':
+        quantity = Math.max(1, Math.ceil(String(input.text ?? input.prompt ?? '').length / 1000));
+        break;
+      default:
+        quantity = 1;
+    }
+
+    return { endpoint, usd: round(quantity * price.usd), price, quantity: round(quantity), assumptions };
+  }
+
+  // The cost of a finished call, counting the images it actually returned where that is how it is billed
+  actual(endpoint: string, input: Record<string, any>, data: any): CostEstimate {
+    const images = Array.isArray(data?.images) ? data.images.length : undefined;
+    return this.estimate(endpoint, images ? { ...input, num_images: images } : input);
+  }
+
+  private megapixels(size: unknown, assumptions: string[]): number {
+    if (typeof size === 'string' && IMAGE_SIZES[size]) {
+      const [width, height] = IMAGE_SIZES[size];
+      return (width * height) / 1_000_000;
+    }
+    if (size && typeof size === 'object' && 'width' in size && 'height' in size) {
+      return (Number(size.width) * Number(size.height)) / 1_000_000;
+    }
+    assumptions.push('1 megapixel output');
+    return 1;
+  }
+}
+
+function round(value: number): number {
+  return Math.round(value * 10000) / 10000;
+}
+
+export interface SpendEntry {
+  id: string;
+  tool: string;
+  model: string;
+  usd: number;
+  // True while the charge is the pre-submission estimate of an async job
+  pending?: boolean;
+  timestamp: string;
+}
+
+export interface SpendSummary {
+  today: number;
+  month: number;
+  byTool: Record<string, { today: number; month: number }>;
+}
+
+// Spend per call, appended to a JSONL file. A later line with the same id replaces an
+// earlier one, e.g. when an async job's estimate is replaced by its actual cost.
+export class SpendLedger {
+  private entries: Map<string, SpendEntry>;
+  // Estimates of calls that passed the budget check and have not ended yet. Only kept in
+  // memory, since they end with the call.
+  private reservations = new Map<string, SpendEntry>();
+
+  constructor(private file: string, private budgets: Budgets) {
+    this.entries = this.load();
+  }
+
+  record(entry: SpendEntry): void {
+    this.entries.set(entry.id, entry);
+    try {
+      fs.mkdirSync(path.dirname(this.file), { recursive: true });
+      fs.appendFileSync(this.file, JSON.stringify(entry) + '\n');
+    } catch (error: any) {
+      console.error(`Failed to write spend ledger: ${error.message}`);
+    }
+  }
+
+  get(id: string): SpendEntry | undefined {
+    return this.entries.get(id);
+  }
+
+  summary(now = new Date()): SpendSummary {
+    const dayStart = new Date(now.getFullYear(), now.getMonth(), now.getDate()).toISOString();
+    const monthStart = new Date(now.getFullYear(), now.getMonth(), 1).toISOString();
+    const summary: SpendSummary = { today: 0, month: 0, byTool: {} };
+
+    for (const entry of [...this.entries.values(), ...this.reservations.values()]) {
+      if (entry.timestamp < monthStart) continue;
+      const today = entry.timestamp >= dayStart ? entry.usd : 0;
+      const tool = (summary.byTool[entry.tool] ??= { today: 0, month: 0 });
+      tool.today = round(tool.today + today);
+      tool.month = round(tool.month + entry.usd);
+      summary.today = round(summary.today + today);
+      summary.month = round(summary.month + entry.usd);
+    }
+    return summary;
+  }
+
+  // Budget lines for reports, e.g. "Daily budget: $1.20 of $5.00 used"
+  describeBudgets(summary = this.summary()): string[] {
+    const lines: string[] = [];
+    if (this.budgets.daily !== undefined) {
+      lines.push(`Daily budget: ${formatUsd(summary.today)} of ${formatUsd(this.budgets.daily)} used`);
+    }
+    if (this.budgets.monthly !== undefined) {
+      lines.push(`Monthly budget: ${formatUsd(summary.month)} of ${formatUsd(this.budgets.monthly)} used`);
+    }
+    return lines;
+  }
+
+  // Throws if spending `usd` more would go over the daily or monthly budget
+  checkBudget(usd: number): void {
+    const summary = this.summary();
+    const caps = [
+      { name: 'Daily', budget: this.budgets.daily, spent: summary.today },
+      { name: 'Monthly', budget: this.budgets.monthly, spent: summary.month }
+    ];
+    for (const { name, budget, spent } of caps) {
+      if (budget !== undefined && spent + usd > budget) {
+        throw new Error(
+          `${name} budget of ${formatUsd(budget)} would be exceeded: ${formatUsd(spent)} already spent and this call is estimated at ${formatUsd(usd)}. The request was not submitted.`
+        );
+      }
+    }
+  }
+
+  // A call without a known price cannot be counted against a budget, so while one is set it
+  // is refused unless the budgets allow unpriced calls
+  checkPriced(endpoint: string): void {
+    if (this.budgets.daily === undefined && this.budgets.monthly === undefined) return;
+    if (this.budgets.allowUnpriced) return;
+    throw new Error(
+      `No price is known for ${endpoint}, so it cannot be counted against the budget. Add its price to the "pricing" section of the config file, or set FAL_BUDGET_ALLOW_UNPRICED=1 to run unpriced calls uncounted. The request was not submitted.`
+    );
+  }
+
+  // Check the budgets, then count `usd` against them until `release`, so that calls running
+  // side by side cannot each pass the check and together go over. Returns the reservation id,
+  // or undefined for an allowed call without a known price.
+  reserve(usd: number | null, call: { tool: string; model: string }): string | undefined {
+    if (usd === null) {
+      this.checkPriced(call.model);
+      return undefined;
+    }
+    this.checkBudget(usd);
+    const id = crypto.randomUUID();
+    this.reservations.set(id, { id, tool: call.tool, model: call.model, usd, pending: true, timestamp: new Date().toISOString() });
+    return id;
+  }
+
+  // Once the call's actual cost (or an async job's estimate) is recorded, or it failed
+  release(id: string | undefined): void {
+    if (id) this.reservations.delete(id);
+  }
+
+  private load(): Map<string, SpendEntry> {
+    const entries = new Map<string, SpendEntry>();
+    let lines: string[];
+    try {
+      lines = fs.readFileSync(this.file, 'utf-8').split('\n');
+    } catch {
+      return entries;
+    }
+    for (const line of lines) {
+      if (!line.trim()) continue;
+      try {
+        const entry: SpendEntry = JSON.parse(line);
+        entries.set(entry.id, entry);
+      } catch {
+        // Skip a line left half-written by a crash
+      }
+    }
+    return entries;
+  }
+}
+
+export function createPricing(config: Config): Pricing {
+  return new Pricing(config.pricing);
+}
+
+export function createSpendLedger(config: Config): SpendLedger {
+  return new SpendLedger(path.resolve(config.outputDir, '.spend.jsonl'), config.budgets);
+}
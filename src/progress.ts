@@ -0,0 +1,67 @@
+import { QueueStatus } from '@fal-ai/client';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { LoggingLevel, ProgressToken, ServerNotification } from '@modelcontextprotocol/sdk/types.js';
+
+export interface ProgressContext {
+  progressToken?: ProgressToken;
+  sessionId?: string;
+  sendNotification: (notification: ServerNotification) => Promise<void>;
+}
+
+const LOG_LEVELS: Record<string, LoggingLevel> = {
+  ERROR: 'error',
+  STDERR: 'warning',
+  WARN: 'warning',
+  INFO: 'info',
+  STDOUT: 'info',
+  DEBUG: 'debug'
+};
+
+// Relays fal queue updates for one tool call as MCP progress notifications and log messages
+export class ProgressReporter {
+  private progress = 0;
+  private lastMessage?: string;
+  private logsSeen = 0;
+
+  constructor(private server: Server, private context: ProgressContext, private logger: string) {}
+
+  update(status: QueueStatus): void {
+    switch (status.status) {
+      case 'IN_QUEUE':
+        this.notify(`Queued on fal.ai (position ${status.queue_position})`);
+        break;
+      case 'IN_PROGRESS': {
+        const logs = status.logs ?? [];
+        // Polling returns the full log so far, so only forward lines we have not seen
+        for (const log of logs.slice(this.logsSeen)) {
+          this.log(LOG_LEVELS[log.level] ?? 'info', log.message);
+        }
+        this.logsSeen = Math.max(this.logsSeen, logs.length);
+        this.notify(logs.length ? `Running: ${logs[logs.length - 1].message}` : 'Running');
+        break;
+      }
+      case 'COMPLETED':
+        this.notify('Completed');
+        break;
+    }
+  }
+
+  // Send a progress notification, skipping repeats of the previous message
+  notify(message: string): void {
+    if (this.context.progressToken === undefined || message === this.lastMessage) return;
+    this.lastMessage = message;
+    this.progress += 1;
+    this.context
+      .sendNotification({
+        method: 'notifications/progress',
+        params: { progressToken: this.context.progressToken, progress: this.progress, message }
+      })
+      .catch(() => {});
+  }
+
+  log(level: LoggingLevel, message: string): void {
+    this.server
+      .sendLoggingMessage({ level, logger: this.logger, data: message }, this.context.sessionId)
+      .catch(() => {});
+  }
+}
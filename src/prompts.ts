@@ -23,3 +23,134 @@ export const SOUND_EFFECT_PROMPT = `You are generating sound effects via fal.ai.
 - Environment and acoustics (indoor, outdoor, reverb)
 - Duration and intensity
 Be precise and descriptive.`;
+
+export const MODEL_3D_PROMPT = `You are creating 3D models via fal.ai. Describe:
+- The object, its proportions and main parts
+- Materials and surface finish (matte plastic, worn leather, brushed metal, etc.)
+- Texture detail and color palette
+- Intended use (game asset, product render, 3D print) and level of detail
+Start from a clean, well-lit reference image with a plain background where possible.`;
+
+export const TEXT_TO_SPEECH_PROMPT = `You are generating speech via fal.ai. Prepare the script so it reads naturally aloud:
+- Write out numbers, abbreviations and symbols as they should be spoken
+- Use punctuation to control pacing and pauses
+- Keep sentences short and conversational
+- Match the voice, tone and speed to the audience and purpose
+Do not add stage directions to the text itself.`;
+
+export const INPAINTING_PROMPT = `You are inpainting images via fal.ai. Describe only what should appear inside the masked area:
+- The object or texture to add, and its size and position within the mask
+- Lighting, perspective and shadows that match the surrounding image
+- Material and color consistent with the rest of the scene
+Make the mask a little larger than the object so edges blend cleanly.`;
+
+export const AVATAR_VIDEO_PROMPT = `You are creating talking avatar videos via fal.ai. Provide:
+- A clear, front-facing portrait with the face unobstructed and well lit
+- Clean speech audio without music or background noise
+- A prompt describing expression, gestures and energy (calm presenter, excited host, etc.)
+Keep clips short; longer audio takes much longer and costs more to render.`;
+
+export interface PromptGuide {
+  name: string;
+  description: string;
+  guide: string;
+  // Tools the guide applies to; the first is the default target
+  tools: string[];
+  // Label for the main `subject` argument
+  subject: string;
+  // Extra arguments beyond subject, style and tool
+  extras?: { name: string; description: string }[];
+}
+
+// Guides published as MCP prompts, usable as slash commands
+export const PROMPT_GUIDES: PromptGuide[] = [
+  {
+    name: 'image-generation',
+    description: 'Write a detailed prompt and generate or transform an image',
+    guide: IMAGE_GENERATION_PROMPT,
+    tools: ['generate_image', 'edit_image', 'image_to_image', 'style_transfer'],
+    subject: 'What the image should show',
+    extras: [{ name: 'aspect', description: 'Shape of the image: square, portrait or landscape' }]
+  },
+  {
+    name: 'video-generation',
+    description: 'Write a cinematic prompt and generate a video',
+    guide: VIDEO_GENERATION_PROMPT,
+    tools: ['text_to_video', 'image_to_video'],
+    subject: 'What happens in the video',
+    extras: [{ name: 'duration', description: 'Length in seconds: 5 or 10' }]
+  },
+  {
+    name: 'music-generation',
+    description: 'Describe and generate a piece of music',
+    guide: AUDIO_GENERATION_PROMPT,
+    tools: ['generate_music'],
+    subject: 'What the music is for, or how it should feel',
+    extras: [{ name: 'duration', description: 'Length in seconds' }]
+  },
+  {
+    name: 'sound-effect',
+    description: 'Describe and generate a sound effect',
+    guide: SOUND_EFFECT_PROMPT,
+    tools: ['generate_sound_effect'],
+    subject: 'The sound to create',
+    extras: [{ name: 'duration', description: 'Length in seconds' }]
+  },
+  {
+    name: '3d-model',
+    description: 'Create a 3D model from an image, or retexture one',
+    guide: MODEL_3D_PROMPT,
+    tools: ['image_to_3d', 'retexture_3d'],
+    subject: 'The object to model, or the texture to apply',
+    extras: [{ name: 'source', description: 'Image (for image_to_3d) or model file (for retexture_3d) to start from' }]
+  },
+  {
+    name: 'text-to-speech',
+    description: 'Prepare a script and turn it into speech',
+    guide: TEXT_TO_SPEECH_PROMPT,
+    tools: ['text_to_speech'],
+    subject: 'What should be said, or the script itself'
+  },
+  {
+    name: 'inpainting',
+    description: 'Fill a masked area of an image with new content',
+    guide: INPAINTING_PROMPT,
+    tools: ['inpaint'],
+    subject: 'What should appear in the masked area',
+    extras: [
+      { name: 'image', description: 'Image to edit (path or URL)' },
+      { name: 'mask', description: 'Mask image, white where the new content goes (path or URL)' }
+    ]
+  },
+  {
+    name: 'avatar-video',
+    description: 'Animate a portrait into a talking avatar video',
+    guide: AVATAR_VIDEO_PROMPT,
+    tools: ['avatar_video', 'lipsync'],
+    subject: 'What the avatar says or does',
+    extras: [
+      { name: 'image', description: 'Portrait to animate (path or URL)' },
+      { name: 'audio', description: 'Speech audio to lip-sync to (path or URL)' }
+    ]
+  }
+];
+
+export function findPromptGuide(name: string): PromptGuide | undefined {
+  return PROMPT_GUIDES.find((guide) => guide.name === name);
+}
+
+// The message sent for a prompt: the guide, then the task filled in from the arguments
+export function renderPromptGuide(guide: PromptGuide, args: Record<string, string | undefined>): string {
+  const tool = args.tool || guide.tools[0];
+  if (!guide.tools.includes(tool)) {
+    throw new Error(`The ${guide.name} prompt works with ${guide.tools.join(', ')}, not ${tool}`);
+  }
+
+  const lines = [guide.guide, '', `Use the ${tool} tool for this request: ${args.subject}`];
+  if (args.style) lines.push(`Style: ${args.style}`);
+  for (const extra of guide.extras ?? []) {
+    if (args[extra.name]) lines.push(`${extra.name[0].toUpperCase()}${extra.name.slice(1)}: ${args[extra.name]}`);
+  }
+  lines.push('', 'Write the final prompt following the guide, then call the tool with it.');
+  return lines.join('\n');
+}
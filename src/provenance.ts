@@ -0,0 +1,200 @@
+import * as fs from 'fs';
+import * as path from 'path';
+
+// Where a saved output came from, written next to it as `<file>.json`
+export interface Provenance {
+  tool: string;
+  model: string;
+  request_id: string;
+  input: Record<string, any>;
+  params: Record<string, any>;
+  seed?: number;
+  source_url: string;
+  input_urls: string[];
+  output: { file: string; index: number; count: number };
+  timings: {
+    started_at?: string;
+    completed_at: string;
+    duration_ms?: number;
+    // Timings reported by the model itself, if any
+    model?: any;
+  };
+  created_at: string;
+}
+
+export function sidecarPath(filePath: string): string {
+  return `${filePath}.json`;
+}
+
+export function writeSidecar(filePath: string, provenance: Provenance): void {
+  fs.writeFileSync(sidecarPath(filePath), JSON.stringify(provenance, null, 2));
+}
+
+// Every *_url value in the input, however deeply nested
+export function collectInputUrls(input: any): string[] {
+  if (Array.isArray(input)) return input.flatMap(collectInputUrls);
+  if (!input || typeof input !== 'object') return [];
+  return Object.entries(input).flatMap(([key, value]) => {
+    if (/_urls?$/.test(key)) return [value].flat().filter((item): item is string => typeof item === 'string');
+    return collectInputUrls(value);
+  });
+}
+
+// Embed provenance into the file itself where the format allows it (PNG, MP4/MOV).
+// Returns false for formats that are left untouched.
+export function embedProvenance(filePath: string, provenance: Provenance): boolean {
+  const ext = path.extname(filePath).toLowerCase();
+  const json = JSON.stringify(provenance);
+  const data = fs.readFileSync(filePath);
+
+  let embedded: Buffer | null = null;
+  if (ext === '.png') {
+    embedded = embedPngText(data, {
+      Software: 'fal.ai MCP Server',
+      Source: provenance.model,
+      ...(typeof provenance.input.prompt === 'string' && { Description: provenance.input.prompt }),
+      'fal:provenance': json
+    });
+  } else if (ext === '.mp4' || ext === '.mov' || ext === '.m4a') {
+    embedded = embedMp4Comment(data, json);
+  }
+
+  if (!embedded) return false;
+  fs.writeFileSync(filePath, embedded);
+  return true;
+}
+
+// ─── PNG ───
+
+const PNG_SIGNATURE = Buffer.from([137, 80, 78, 71, 13, 10, 26, 10]);
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  return c >>> 0;
+});
+
+function crc32(data: Buffer): number {
+  let crc = 0xffffffff;
+  for (const byte of data) crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+export function pngChunk(type: string, data: Buffer): Buffer {
+  const header = Buffer.alloc(4);
+  header.writeUInt32BE(data.length);
+  const body = Buffer.concat([Buffer.from(type, 'latin1'), data]);
+  const crc = Buffer.alloc(4);
+  crc.writeUInt32BE(crc32(body));
+  return Buffer.concat([header, body, crc]);
+}
+
+// tEXt for plain ASCII, iTXt (UTF-8) for anything else such as non-English prompts
+function pngTextChunk(keyword: string, text: string): Buffer {
+  const key = Buffer.from(keyword, 'latin1');
+  if (/^[\x20-\x7e\n]*$/.test(text)) {
+    return pngChunk('tEXt', Buffer.concat([key, Buffer.from([0]), Buffer.from(text, 'latin1')]));
+  }
+  // keyword \0, no compression, empty language tag and translated keyword
+  return pngChunk('iTXt', Buffer.concat([key, Buffer.from([0, 0, 0, 0, 0]), Buffer.from(text, 'utf8')]));
+}
+
+function embedPngText(data: Buffer, entries: Record<string, string>): Buffer | null {
+  if (data.length < 33 || !data.subarray(0, 8).equals(PNG_SIGNATURE)) return null;
+  // Text chunks go straight after IHDR, which is always the first chunk
+  const ihdrEnd = 8 + 12 + data.readUInt32BE(8);
+  const chunks = Object.entries(entries).map(([keyword, text]) => pngTextChunk(keyword, text));
+  return Buffer.concat([data.subarray(0, ihdrEnd), ...chunks, data.subarray(ihdrEnd)]);
+}
+
+// ─── MP4 / MOV ───
+
+interface Box {
+  type: string;
+  start: number;
+  size: number;
+  headerSize: number;
+}
+
+// Boxes whose children may hold chunk offset tables
+const CONTAINER_BOXES = new Set(['moov', 'trak', 'mdia', 'minf', 'stbl', 'edts']);
+
+function readBoxes(data: Buffer, start: number, end: number): Box[] {
+  const boxes: Box[] = [];
+  let pos = start;
+  while (pos + 8 <= end) {
+    let size = data.readUInt32BE(pos);
+    const type = data.toString('latin1', pos + 4, pos + 8);
+    let headerSize = 8;
+    if (size === 1) {
+      size = Number(data.readBigUInt64BE(pos + 8));
+      headerSize = 16;
+    } else if (size === 0) {
+      size = end - pos;
+    }
+    if (size < headerSize || pos + size > end) break;
+    boxes.push({ type, start: pos, size, headerSize });
+    pos += size;
+  }
+  return boxes;
+}
+
+export function mp4Box(type: string, content: Buffer): Buffer {
+  const header = Buffer.alloc(8);
+  header.writeUInt32BE(content.length + 8);
+  header.write(type, 4, 'latin1');
+  return Buffer.concat([header, content]);
+}
+
+// Shift every stco/co64 chunk offset, needed when moov grows in front of mdat
+function shiftChunkOffsets(data: Buffer, start: number, end: number, delta: number): void {
+  for (const box of readBoxes(data, start, end)) {
+    const contentStart = box.start + box.headerSize;
+    if (CONTAINER_BOXES.has(box.type)) {
+      shiftChunkOffsets(data, contentStart, box.start + box.size, delta);
+    } else if (box.type === 'stco' || box.type === 'co64') {
+      const count = data.readUInt32BE(contentStart + 4);
+      for (let i = 0; i < count; i++) {
+        if (box.type === 'stco') {
+          const pos = contentStart + 8 + i * 4;
+          data.writeUInt32BE(data.readUInt32BE(pos) + delta, pos);
+        } else {
+          const pos = contentStart + 8 + i * 8;
+          data.writeBigUInt64BE(data.readBigUInt64BE(pos) + BigInt(delta), pos);
+        }
+      }
+    }
+  }
+}
+
+// Adds a QuickTime "©cmt" user data entry to moov/udta
+function embedMp4Comment(data: Buffer, comment: string): Buffer | null {
+  const text = Buffer.from(comment, 'utf8');
+  if (text.length > 0xffff) return null;
+
+  const top = readBoxes(data, 0, data.length);
+  const moov = top.find((box) => box.type === 'moov');
+  if (!moov || moov.headerSize !== 8) return null;
+
+  const entryHeader = Buffer.alloc(4);
+  entryHeader.writeUInt16BE(text.length);
+  entryHeader.writeUInt16BE(0x55c4, 2); // language: "und"
+  const entry = mp4Box('©cmt', Buffer.concat([entryHeader, text]));
+
+  const children = readBoxes(data, moov.start + 8, moov.start + moov.size);
+  const udta = children.find((box) => box.type === 'udta');
+  const parts = children.map((box) => {
+    const slice = data.subarray(box.start, box.start + box.size);
+    if (box !== udta) return slice;
+    return mp4Box('udta', Buffer.concat([slice.subarray(box.headerSize), entry]));
+  });
+  if (!udta) parts.push(mp4Box('udta', entry));
+
+  const newMoov = mp4Box('moov', Buffer.concat(parts));
+  const delta = newMoov.length - moov.size;
+  if (top.some((box) => box.type === 'mdat' && box.start > moov.start)) {
+    shiftChunkOffsets(newMoov, 8, newMoov.length, delta);
+  }
+
+  return Buffer.concat([data.subarray(0, moov.start), newMoov, data.subarray(moov.start + moov.size)]);
+}
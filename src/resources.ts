@@ -0,0 +1,163 @@
+import { ReadResourceResult, Resource, ResourceTemplate } from '@modelcontextprotocol/sdk/types.js';
+import * as fs from 'fs';
+import * as path from 'path';
+import { Config } from './config.js';
+import { mimeTypeFor } from './inputs.js';
+import { Provenance, sidecarPath } from './provenance.js';
+
+export const MEDIA_URI_TEMPLATE = 'fal-media://{tool}/{filename}';
+
+// Resources listed per resources/list page
+const PAGE_SIZE = 100;
+
+// Larger files are not sent through resources/read; clients can open the file:// path instead
+const MAX_READ_BYTES = 50 * 1024 * 1024;
+
+// Tool segment for files without a provenance sidecar
+const UNKNOWN_TOOL = 'other';
+
+interface MediaEntry {
+  filePath: string;
+  // Path relative to the output directory, used as the resource's file name
+  relativePath: string;
+  size: number;
+  modified: Date;
+  provenance?: Provenance;
+}
+
+// Saved outputs under the output directory, exposed as `fal-media://{tool}/{filename}` resources
+export class MediaResources {
+  private subscriptions = new Set<string>();
+
+  constructor(private outputDir: string) {}
+
+  templates(): ResourceTemplate[] {
+    return [{
+      uriTemplate: MEDIA_URI_TEMPLATE,
+      name: 'Generated media',
+      description: 'A file saved by a fal.ai tool, by the tool that made it and its path in the output directory'
+    }];
+  }
+
+  // Newest first. The cursor is the offset of the next page.
+  list(cursor?: string): { resources: Resource[]; nextCursor?: string } {
+    const offset = cursor ? parseInt(cursor, 10) || 0 : 0;
+    const entries = this.scan().sort((a, b) => b.modified.getTime() - a.modified.getTime());
+    const page = entries.slice(offset, offset + PAGE_SIZE);
+    return {
+      resources: page.map((entry) => this.describe(entry)),
+      ...(offset + PAGE_SIZE < entries.length && { nextCursor: String(offset + PAGE_SIZE) })
+    };
+  }
+
+  // Only the files list() would show, so the server's state files stay private
+  read(uri: string): ReadResourceResult {
+    const filePath = this.pathFor(uri);
+    if (!filePath || !isMediaName(this.relative(filePath)!) || !fs.lstatSync(filePath, { throwIfNoEntry: false })?.isFile()) {
+      throw new Error(`Resource not found: ${uri}`);
+    }
+
+    const { size } = fs.statSync(filePath);
+    if (size > MAX_READ_BYTES) {
+      throw new Error(`${uri} is too large to read through MCP (${Math.round(size / 1024 / 1024)} MB). Open ${filePath} instead.`);
+    }
+    return {
+      contents: [{ uri, mimeType: mimeTypeFor(filePath), blob: fs.readFileSync(filePath).toString('base64') }]
+    };
+  }
+
+  // The resource URI of a saved file, or undefined if it is outside the output directory
+  uriFor(filePath: string): string | undefined {
+    const relativePath = this.relative(filePath);
+    if (!relativePath) return undefined;
+    const tool = readSidecar(filePath)?.tool ?? UNKNOWN_TOOL;
+    return `fal-media://${encodeURIComponent(tool)}/${encodeURIComponent(relativePath)}`;
+  }
+
+  subscribe(uri: string): void {
+    this.subscriptions.add(uri);
+  }
+
+  unsubscribe(uri: string): void {
+    this.subscriptions.delete(uri);
+  }
+
+  isSubscribed(uri: string): boolean {
+    return this.subscriptions.has(uri);
+  }
+
+  private describe(entry: MediaEntry): Resource {
+    const { provenance } = entry;
+    const prompt = provenance?.input?.prompt;
+    return {
+      uri: this.uriFor(entry.filePath)!,
+      name: entry.relativePath,
+      ...(provenance && {
+        description: [`${provenance.tool} with ${provenance.model}`, typeof prompt === 'string' ? `"${prompt}"` : undefined]
+          .filter(Boolean)
+          .join(': ')
+      }),
+      mimeType: mimeTypeFor(entry.filePath),
+      annotations: { lastModified: entry.modified.toISOString() },
+      // The SDK's Resource type has no `size` field yet
+      _meta: { 'fal.ai/size': entry.size, ...(provenance && { 'fal.ai/provenance': provenance }) }
+    };
+  }
+
+  // The file a URI points to; the {tool} segment is informational only
+  private pathFor(uri: string): string | undefined {
+    const match = uri.match(/^fal-media:\/\/[^/]+\/(.+)$/);
+    if (!match) return undefined;
+    const filePath = path.resolve(this.outputDir, decodeURIComponent(match[1]));
+    return this.relative(filePath) ? filePath : undefined;
+  }
+
+  private relative(filePath: string): string | undefined {
+    const relativePath = path.relative(path.resolve(this.outputDir), path.resolve(filePath));
+    if (!relativePath || relativePath.startsWith('..') || path.isAbsolute(relativePath)) return undefined;
+    return relativePath.split(path.sep).join('/');
+  }
+
+  // Every saved output, skipping the server's own state files, sidecars and partial downloads
+  private scan(dir = path.resolve(this.outputDir)): MediaEntry[] {
+    let names: fs.Dirent[];
+    try {
+      names = fs.readdirSync(dir, { withFileTypes: true });
+    } catch {
+      return [];
+    }
+
+    return names.flatMap((entry): MediaEntry[] => {
+      if (entry.name.startsWith('.')) return [];
+      const filePath = path.join(dir, entry.name);
+      if (entry.isDirectory()) return this.scan(filePath);
+      if (!entry.isFile() || !isMediaName(entry.name)) return [];
+
+      const stat = fs.statSync(filePath);
+      return [{
+        filePath,
+        relativePath: this.relative(filePath)!,
+        size: stat.size,
+        modified: stat.mtime,
+        provenance: readSidecar(filePath)
+      }];
+    });
+  }
+}
+
+// Not a dotfile or inside a dot directory (history, jobs, spend, caches), a sidecar or a partial download
+function isMediaName(relativePath: string): boolean {
+  return !relativePath.split('/').some((segment) => segment.startsWith('.')) && !/\.(json|jsonl|part)$/i.test(relativePath);
+}
+
+function readSidecar(filePath: string): Provenance | undefined {
+  try {
+    return JSON.parse(fs.readFileSync(sidecarPath(filePath), 'utf-8'));
+  } catch {
+    return undefined;
+  }
+}
+
+export function createMediaResources(config: Config): MediaResources {
+  return new MediaResources(config.outputDir);
+}
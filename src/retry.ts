@@ -0,0 +1,106 @@
+export interface RetryPolicy {
+  // Total attempts, including the first one
+  maxAttempts: number;
+  baseDelay: number;
+  maxDelay: number;
+}
+
+export interface CircuitBreakerOptions {
+  // Consecutive transient failures before requests fail fast
+  threshold: number;
+  // How long to fail fast before letting a trial request through, in ms
+  cooldown: number;
+}
+
+const TRANSIENT_STATUSES = [408, 429, 500, 502, 503, 504];
+const TRANSIENT_CODES = ['ECONNRESET', 'ECONNREFUSED', 'ETIMEDOUT', 'ENOTFOUND', 'EAI_AGAIN', 'EPIPE', 'UND_ERR_SOCKET', 'UND_ERR_CONNECT_TIMEOUT'];
+// Network failures before a connection was made, so before anything was sent
+const UNSENT_CODES = ['ECONNREFUSED', 'ENOTFOUND', 'EAI_AGAIN', 'UND_ERR_CONNECT_TIMEOUT'];
+
+// Errors worth trying again: rate limits, fal-side 5xx and network failures.
+// Validation errors, auth errors and fal's own user-requested timeouts are not.
+export function isTransient(error: any): boolean {
+  if (!error || typeof error !== 'object') return false;
+  if (typeof error.status === 'number') {
+    if (error.status === 504 && error.timeoutType === 'user') return false;
+    return TRANSIENT_STATUSES.includes(error.status);
+  }
+  const code = error.code ?? error.cause?.code;
+  if (TRANSIENT_CODES.includes(code)) return true;
+  // Node's fetch reports network failures as a bare TypeError
+  return error instanceof TypeError && error.message === 'fetch failed';
+}
+
+// Failures after which a submission is certainly not queued at fal, so it can be sent again
+// without running (and billing) the job twice: rate limits, and connections never made. A
+// dropped connection or a 5xx may come after fal queued the request.
+export function isUnsent(error: any): boolean {
+  if (!error || typeof error !== 'object') return false;
+  if (typeof error.status === 'number') return error.status === 429;
+  return UNSENT_CODES.includes(error.code ?? error.cause?.code);
+}
+
+// Retry-After is either a number of seconds or an HTTP date
+export function parseRetryAfter(value: string | null | undefined): number | undefined {
+  if (!value) return undefined;
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+// Exponential backoff with full jitter, but never sooner than the server asked for
+export function backoffDelay(attempt: number, policy: RetryPolicy, retryAfter?: number): number {
+  const ceiling = Math.min(policy.maxDelay, policy.baseDelay * 2 ** (attempt - 1));
+  const delay = Math.round(Math.random() * ceiling);
+  return retryAfter !== undefined ? Math.max(retryAfter, delay) : delay;
+}
+
+// Resolves after `ms`, or rejects with the signal's abort reason as soon as it aborts
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(signal.reason);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+// Fails fast once fal has failed `threshold` times in a row. After the cooldown requests
+// go through again: one success closes the circuit, one more failure reopens it.
+export class CircuitBreaker {
+  private failures = 0;
+  private openedAt?: number;
+
+  constructor(private options: CircuitBreakerOptions) {}
+
+  // Throws 'Circuit open' while requests should not be sent
+  check(): void {
+    if (this.openedAt === undefined) return;
+    const remaining = this.openedAt + this.options.cooldown - Date.now();
+    if (remaining > 0) {
+      const error: any = new Error('Circuit open');
+      error.failures = this.failures;
+      error.retryIn = remaining;
+      throw error;
+    }
+  }
+
+  recordSuccess(): void {
+    this.failures = 0;
+    this.openedAt = undefined;
+  }
+
+  recordFailure(): void {
+    this.failures += 1;
+    if (this.openedAt !== undefined || this.failures >= this.options.threshold) {
+      this.openedAt = Date.now();
+    }
+  }
+}
@@ -0,0 +1,114 @@
+export type Pool = 'fast' | 'long';
+
+export interface ConcurrencyOptions {
+  // Requests running on fal at once, per pool
+  fast: number;
+  long: number;
+  // Requests allowed to wait locally before new ones are refused
+  queue: number;
+  // Caps for individual endpoints, on top of their pool's limit
+  models: Record<string, number>;
+}
+
+export interface ScheduleOptions {
+  signal?: AbortSignal;
+  // Called while the request waits locally, with its position in its pool's queue
+  onQueued?: (position: number) => void;
+}
+
+interface Waiter {
+  pool: Pool;
+  model: string;
+  start: () => void;
+  onQueued?: (position: number) => void;
+}
+
+// Limits how many fal requests run at once. Fast and long-running models get separate
+// pools so quick image jobs never wait behind videos; waiting requests start in order,
+// skipping any whose model is at its own cap.
+export class Scheduler {
+  private active: Record<Pool, number> = { fast: 0, long: 0 };
+  private activeByModel = new Map<string, number>();
+  private waiting: Waiter[] = [];
+
+  constructor(private options: ConcurrencyOptions) {}
+
+  async run<T>(pool: Pool, model: string, task: () => Promise<T>, options: ScheduleOptions = {}): Promise<T> {
+    await this.acquire(pool, model, options);
+    try {
+      return await task();
+    } finally {
+      this.release(pool, model);
+    }
+  }
+
+  private canStart(pool: Pool, model: string): boolean {
+    const modelCap = this.options.models[model];
+    return this.active[pool] < this.options[pool]
+      && (modelCap === undefined || (this.activeByModel.get(model) ?? 0) < modelCap);
+  }
+
+  private take(pool: Pool, model: string): void {
+    this.active[pool] += 1;
+    this.activeByModel.set(model, (this.activeByModel.get(model) ?? 0) + 1);
+  }
+
+  private acquire(pool: Pool, model: string, { signal, onQueued }: ScheduleOptions): Promise<void> {
+    if (signal?.aborted) return Promise.reject(new Error('Request cancelled'));
+    if (this.canStart(pool, model)) {
+      this.take(pool, model);
+      return Promise.resolve();
+    }
+    if (this.waiting.length >= this.options.queue) {
+      const error: any = new Error('Local queue full');
+      error.waiting = this.waiting.length;
+      return Promise.reject(error);
+    }
+
+    return new Promise((resolve, reject) => {
+      const onAbort = () => {
+        this.waiting = this.waiting.filter((other) => other !== waiter);
+        this.reportPositions();
+        reject(new Error('Request cancelled'));
+      };
+      const waiter: Waiter = {
+        pool,
+        model,
+        onQueued,
+        start: () => {
+          signal?.removeEventListener('abort', onAbort);
+          resolve();
+        }
+      };
+      signal?.addEventListener('abort', onAbort, { once: true });
+      this.waiting.push(waiter);
+      this.reportPositions();
+    });
+  }
+
+  private release(pool: Pool, model: string): void {
+    this.active[pool] -= 1;
+    const count = (this.activeByModel.get(model) ?? 1) - 1;
+    if (count > 0) this.activeByModel.set(model, count);
+    else this.activeByModel.delete(model);
+
+    const started: Waiter[] = [];
+    for (const waiter of this.waiting) {
+      if (!this.canStart(waiter.pool, waiter.model)) continue;
+      this.take(waiter.pool, waiter.model);
+      started.push(waiter);
+    }
+    if (started.length === 0) return;
+    this.waiting = this.waiting.filter((waiter) => !started.includes(waiter));
+    started.forEach((waiter) => waiter.start());
+    this.reportPositions();
+  }
+
+  private reportPositions(): void {
+    const positions: Record<Pool, number> = { fast: 0, long: 0 };
+    for (const waiter of this.waiting) {
+      positions[waiter.pool] += 1;
+      waiter.onQueued?.(positions[waiter.pool]);
+    }
+  }
+}
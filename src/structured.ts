@@ -0,0 +1,476 @@
+import { Tool } from '@modelcontextprotocol/sdk/types.js';
+import { ComparisonRun } from './compare.js';
+import { Budgets } from './config.js';
+import { FalResult, ToolCall } from './fal-client.js';
+import { mimeTypeFor } from './inputs.js';
+import { Job } from './jobs.js';
+import { findMediaFiles, MediaKind, stripMediaFiles } from './media.js';
+import { SpendSummary } from './pricing.js';
+
+// Machine-readable tool results. Every tool declares one of these schemas as its
+// outputSchema and returns matching structuredContent next to its text summary.
+
+type OutputSchema = NonNullable<Tool['outputSchema']>;
+
+const USD = { type: ['number', 'null'], description: 'US dollars; null when no price is known' };
+
+const FILE_SCHEMA = {
+  type: 'object',
+  properties: {
+    path: { type: 'string', description: 'Where the file was saved; absent when it was left on fal.ai' },
+    url: { type: 'string', description: 'Where fal.ai served the file' },
+    mime_type: { type: 'string' },
+    kind: { type: 'string', enum: ['image', 'video', 'audio', 'model3d', 'other'] },
+    width: { type: 'number' },
+    height: { type: 'number' },
+    duration_seconds: { type: 'number' }
+  },
+  required: ['mime_type', 'kind']
+};
+
+// Media tools, run_model, regenerate and job_result
+export const GENERATION_OUTPUT_SCHEMA: OutputSchema = {
+  type: 'object',
+  properties: {
+    status: {
+      type: 'string',
+      enum: ['completed', 'submitted', 'pending', 'dry_run', 'declined'],
+      description: 'submitted: queued with async; pending: an async job that has not finished'
+    },
+    tool: { type: 'string' },
+    model: { type: 'string', description: 'fal endpoint id' },
+    generation: { type: 'string', description: 'History id, for get_generation and regenerate' },
+    request_id: { type: 'string', description: 'fal request id, also the job id of async calls' },
+    job_state: { type: 'string' },
+    seed: { type: 'number' },
+    files: { type: 'array', items: FILE_SCHEMA },
+    timings: {
+      type: 'object',
+      properties: {
+        started_at: { type: 'string' },
+        completed_at: { type: 'string' },
+        duration_ms: { type: 'number', description: 'Wall time from submission to saved output' },
+        inference_seconds: { type: 'number', description: 'What fal reports for the inference alone' }
+      }
+    },
+    cost_usd: { ...USD, description: 'Estimated cost for dry runs, otherwise the approximate actual cost' },
+    prompt: {
+      type: 'object',
+      properties: { original: { type: 'string' }, enhanced: { type: 'string' } }
+    },
+    retries: { type: 'integer' },
+    cache: {
+      type: 'object',
+      description: 'Present when the result cache is on and the call could use it',
+      properties: {
+        hit: { type: 'boolean', description: 'The outputs were copied from the cache and nothing was charged' },
+        key: { type: 'string' },
+        cached_at: { type: 'string' },
+        saved_usd: USD
+      },
+      required: ['hit']
+    },
+    data: { type: 'object', description: 'The rest of the model result, without the media files' }
+  },
+  required: ['status', 'tool', 'model', 'files']
+};
+
+const JOB_PROPERTIES = {
+  id: { type: 'string' },
+  tool: { type: 'string' },
+  model: { type: 'string' },
+  state: { type: 'string', enum: ['IN_QUEUE', 'IN_PROGRESS', 'COMPLETED', 'FAILED', 'CANCELLED'] },
+  queue_position: { type: 'integer' },
+  submitted_at: { type: 'string' },
+  updated_at: { type: 'string' },
+  error: { type: 'string' }
+};
+const JOB_REQUIRED = ['id', 'tool', 'model', 'state', 'submitted_at'];
+
+// job_status and job_cancel
+export const JOB_OUTPUT_SCHEMA: OutputSchema = {
+  type: 'object',
+  properties: { ...JOB_PROPERTIES, logs: { type: 'array', items: { type: 'string' }, description: 'Recent model logs' } },
+  required: JOB_REQUIRED
+};
+
+export const JOB_LIST_OUTPUT_SCHEMA: OutputSchema = {
+  type: 'object',
+  properties: { jobs: { type: 'array', items: { type: 'object', properties: JOB_PROPERTIES, required: JOB_REQUIRED } } },
+  required: ['jobs']
+};
+
+export const MODEL_LIST_OUTPUT_SCHEMA: OutputSchema = {
+  type: 'object',
+  properties: {
+    tools: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          tool: { type: 'string' },
+          capability: { type: 'string' },
+          endpoint: { type: 'string' },
+          source: { type: 'string', description: 'Why this endpoint is used: built-in default, config file or environment variable' },
+          alternatives: {
+            type: 'array',
+            items: { type: 'object', properties: { name: { type: 'string' }, endpoint: { type: 'string' } }, required: ['name', 'endpoint'] }
+          }
+        },
+        required: ['tool', 'capability', 'endpoint', 'source', 'alternatives']
+      }
+    },
+    config_files: { type: 'array', items: { type: 'string' } }
+  },
+  required: ['tools', 'config_files']
+};
+
+const GENERATION_RECORD_SCHEMA = {
+  type: 'object',
+  properties: {
+    id: { type: 'string' },
+    tool: { type: 'string' },
+    arguments: { type: 'object' },
+    model: { type: 'string' },
+    request_id: { type: 'string' },
+    status: { type: 'string', enum: ['submitted', 'completed', 'failed', 'cancelled'] },
+    seed: { type: 'number' },
+    files: { type: 'array', items: { type: 'string' } },
+    error: { type: 'string' },
+    started_at: { type: 'string' },
+    completed_at: { type: 'string' },
+    regenerated_from: { type: 'string' },
+    original_prompt: { type: 'string' },
+    enhanced_prompt: { type: 'string' },
+    cache_hit: { type: 'boolean' }
+  },
+  required: ['id', 'tool', 'arguments', 'status', 'files', 'started_at']
+};
+
+// get_generation returns the history entry as it is
+export const GENERATION_RECORD_OUTPUT_SCHEMA: OutputSchema = GENERATION_RECORD_SCHEMA as OutputSchema;
+
+export const GENERATION_LIST_OUTPUT_SCHEMA: OutputSchema = {
+  type: 'object',
+  properties: { generations: { type: 'array', items: GENERATION_RECORD_SCHEMA } },
+  required: ['generations']
+};
+
+const BUDGET_PROPERTIES = {
+  spent_today_usd: { type: 'number' },
+  spent_month_usd: { type: 'number' },
+  daily_budget_usd: { type: 'number' },
+  monthly_budget_usd: { type: 'number' }
+};
+
+export const COST_ESTIMATE_OUTPUT_SCHEMA: OutputSchema = {
+  type: 'object',
+  properties: {
+    tool: { type: 'string' },
+    model: { type: 'string' },
+    cost_usd: USD,
+    assumptions: { type: 'array', items: { type: 'string' } },
+    budget: { type: 'object', properties: BUDGET_PROPERTIES, required: ['spent_today_usd', 'spent_month_usd'] }
+  },
+  required: ['tool', 'model', 'cost_usd', 'assumptions', 'budget']
+};
+
+export const SPENDING_OUTPUT_SCHEMA: OutputSchema = {
+  type: 'object',
+  properties: {
+    ...BUDGET_PROPERTIES,
+    by_tool: {
+      type: 'object',
+      additionalProperties: {
+        type: 'object',
+        properties: { today_usd: { type: 'number' }, month_usd: { type: 'number' } },
+        required: ['today_usd', 'month_usd']
+      }
+    }
+  },
+  required: ['spent_today_usd', 'spent_month_usd', 'by_tool']
+};
+
+export const WORKFLOW_OUTPUT_SCHEMA: OutputSchema = {
+  type: 'object',
+  properties: {
+    status: { type: 'string', enum: ['completed', 'partial', 'dry_run'] },
+    name: { type: 'string' },
+    completed: { type: 'integer' },
+    cost_usd: { type: 'number', description: 'Estimated total of the steps with a known price (dry runs only)' },
+    steps: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          id: { type: 'string' },
+          tool: { type: 'string' },
+          status: { type: 'string', enum: ['completed', 'failed', 'skipped'] },
+          error: { type: 'string' },
+          result: { type: 'object', description: 'The step\'s own structured result, as the tool returns it' }
+        },
+        required: ['id', 'tool', 'status']
+      }
+    }
+  },
+  required: ['status', 'completed', 'steps']
+};
+
+export const BATCH_OUTPUT_SCHEMA: OutputSchema = {
+  type: 'object',
+  properties: {
+    status: { type: 'string', enum: ['completed', 'partial', 'dry_run', 'declined'] },
+    manifest: { type: 'string' },
+    output: { type: 'string', description: 'The output manifest, one JSON line per finished row' },
+    rows: { type: 'integer' },
+    already_done: { type: 'integer' },
+    to_run: { type: 'integer' },
+    completed: { type: 'integer' },
+    failed: { type: 'integer' },
+    not_run: { type: 'integer' },
+    cost_usd: { type: 'number', description: 'Estimated total of the rows with a known price (dry runs only)' },
+    failures: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: { id: { type: 'string' }, tool: { type: 'string' }, error: { type: 'string' } },
+        required: ['id', 'tool', 'error']
+      }
+    }
+  },
+  required: ['status', 'manifest', 'rows']
+};
+
+export const COMPARISON_OUTPUT_SCHEMA: OutputSchema = {
+  type: 'object',
+  properties: {
+    status: { type: 'string', enum: ['completed', 'partial', 'dry_run', 'declined'] },
+    tool: { type: 'string' },
+    dir: { type: 'string' },
+    contact_sheet: { type: 'string' },
+    cost_usd: { type: 'number', description: 'Estimated total of the runs with a known price (dry runs only)' },
+    runs: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          model: { type: 'string' },
+          endpoint: { type: 'string' },
+          seed: { type: 'integer' },
+          status: { type: 'string', enum: ['completed', 'failed', 'planned'] },
+          duration_ms: { type: 'number' },
+          inference_seconds: { type: 'number' },
+          cost_usd: USD,
+          files: { type: 'array', items: { type: 'string' } },
+          error: { type: 'string' }
+        },
+        required: ['model', 'endpoint', 'status', 'cost_usd', 'files']
+      }
+    }
+  },
+  required: ['status', 'tool', 'runs']
+};
+
+export const CACHE_STATS_OUTPUT_SCHEMA: OutputSchema = {
+  type: 'object',
+  properties: {
+    enabled: { type: 'boolean' },
+    dir: { type: 'string' },
+    entries: { type: 'integer' },
+    bytes: { type: 'integer' },
+    max_bytes: { type: 'integer' },
+    ttl_hours: { type: 'number' },
+    hits: { type: 'integer' },
+    misses: { type: 'integer' },
+    saved_usd: { type: 'number', description: 'What the hits would have cost, at the price of the original calls' },
+    oldest: { type: 'string' },
+    newest: { type: 'string' },
+    by_tool: {
+      type: 'object',
+      additionalProperties: {
+        type: 'object',
+        properties: { entries: { type: 'integer' }, bytes: { type: 'integer' } },
+        required: ['entries', 'bytes']
+      }
+    }
+  },
+  required: ['enabled']
+};
+
+export const CACHE_CLEAR_OUTPUT_SCHEMA: OutputSchema = {
+  type: 'object',
+  properties: {
+    removed: { type: 'integer', description: 'Entries removed' },
+    bytes: { type: 'integer', description: 'Bytes of cached files freed' }
+  },
+  required: ['removed', 'bytes']
+};
+
+export const CONFIG_OUTPUT_SCHEMA: OutputSchema = {
+  type: 'object',
+  properties: {
+    layers: { type: 'array', items: { type: 'string' }, description: 'Where settings came from, lowest precedence first' },
+    config: { description: 'The effective configuration, the requested section of it, or one tool\'s settings' }
+  },
+  required: ['layers']
+};
+
+export type FileKind = MediaKind | 'other';
+
+export interface OutputFile {
+  path?: string;
+  url?: string;
+  mime_type: string;
+  kind: FileKind;
+  width?: number;
+  height?: number;
+  duration_seconds?: number;
+}
+
+export interface SavedFile {
+  path: string;
+  url: string;
+}
+
+export type OutputStatus = 'completed' | 'submitted' | 'pending' | 'dry_run' | 'declined';
+
+// A type rather than an interface, so it can be used as a tool result's structuredContent
+export type GenerationOutput = {
+  status: OutputStatus;
+  tool: string;
+  model: string;
+  generation?: string;
+  request_id?: string;
+  job_state?: string;
+  seed?: number;
+  files: OutputFile[];
+  timings?: { started_at?: string; completed_at?: string; duration_ms?: number; inference_seconds?: number };
+  cost_usd?: number | null;
+  prompt?: { original: string; enhanced: string };
+  retries?: number;
+  cache?: { hit: boolean; key?: string; cached_at?: string; saved_usd?: number | null };
+  data?: Record<string, any>;
+};
+
+// What a call that did not (yet) produce output reports: dry runs, declined and queued calls
+export function callOutput(status: OutputStatus, call: ToolCall, extra: Partial<GenerationOutput> = {}): GenerationOutput {
+  return { status, tool: call.tool, model: call.model, files: [], ...extra };
+}
+
+// What a finished call reports: every output file of the fal result, with where it was saved
+export function resultOutput(
+  call: ToolCall,
+  result: FalResult,
+  saved: SavedFile[],
+  { startedAt, ...extra }: Partial<GenerationOutput> & { startedAt?: string } = {}
+): GenerationOutput {
+  const data = result.data ?? {};
+  const completedAt = new Date().toISOString();
+  const inference = data.timings?.inference;
+  const rest = stripMediaFiles(data, findMediaFiles(data));
+  return {
+    status: 'completed',
+    tool: call.tool,
+    model: call.model,
+    request_id: result.requestId,
+    ...(typeof data.seed === 'number' && { seed: data.seed }),
+    files: outputFiles(data, saved),
+    timings: {
+      started_at: startedAt,
+      completed_at: completedAt,
+      duration_ms: startedAt ? Date.parse(completedAt) - Date.parse(startedAt) : undefined,
+      inference_seconds: typeof inference === 'number' ? inference : undefined
+    },
+    ...(result.retries && { retries: result.retries }),
+    ...(rest && typeof rest === 'object' && !Array.isArray(rest) && Object.keys(rest).length && { data: rest }),
+    ...extra
+  };
+}
+
+// Files of a fal result joined with the paths they were saved to. Dimensions and
+// durations come from the file objects fal returns them on.
+export function outputFiles(data: any, saved: SavedFile[]): OutputFile[] {
+  const media = findMediaFiles(data);
+  const files: OutputFile[] = media.map((file) => {
+    const node = file.location.reduce((parent: any, key) => parent?.[key], data);
+    const savedAs = saved.find((entry) => entry.url === file.url)?.path;
+    return {
+      ...(savedAs && { path: savedAs }),
+      url: file.url,
+      mime_type: file.contentType || mimeTypeFor(savedAs ?? urlPath(file.url)),
+      kind: file.kind,
+      ...(node && typeof node === 'object' && {
+        ...(typeof node.width === 'number' && { width: node.width }),
+        ...(typeof node.height === 'number' && { height: node.height }),
+        ...(typeof node.duration === 'number' && { duration_seconds: node.duration })
+      })
+    };
+  });
+  // Outputs found by a tool's own extraction but not by the generic walk
+  for (const entry of saved) {
+    if (!media.some((file) => file.url === entry.url)) files.push({ ...entry, ...fileType(entry.path) });
+  }
+  return files;
+}
+
+// A saved file known only by its path, e.g. from a job stored before results were structured
+export function savedFile(filePath: string): OutputFile {
+  return { path: filePath, ...fileType(filePath) };
+}
+
+function fileType(filePath: string): { mime_type: string; kind: FileKind } {
+  const mimeType = mimeTypeFor(filePath);
+  const kind = mimeType.split('/')[0];
+  if (kind === 'model') return { mime_type: mimeType, kind: 'model3d' };
+  return { mime_type: mimeType, kind: kind === 'image' || kind === 'video' || kind === 'audio' ? kind : 'other' };
+}
+
+function urlPath(url: string): string {
+  try {
+    return new URL(url).pathname;
+  } catch {
+    return url;
+  }
+}
+
+export function jobOutput(job: Job, logs?: string[]): Record<string, unknown> {
+  return {
+    id: job.id,
+    tool: job.tool,
+    model: job.model,
+    state: job.state,
+    ...(job.queuePosition !== undefined && { queue_position: job.queuePosition }),
+    submitted_at: job.submittedAt,
+    updated_at: job.updatedAt,
+    ...(job.error && { error: job.error }),
+    ...(logs && { logs })
+  };
+}
+
+export function budgetOutput(summary: SpendSummary, budgets: Budgets): Record<string, number> {
+  return {
+    spent_today_usd: summary.today,
+    spent_month_usd: summary.month,
+    ...(budgets.daily !== undefined && { daily_budget_usd: budgets.daily }),
+    ...(budgets.monthly !== undefined && { monthly_budget_usd: budgets.monthly })
+  };
+}
+
+export function spendingOutput(summary: SpendSummary, budgets: Budgets): Record<string, unknown> {
+  const byTool = Object.entries(summary.byTool).map(([tool, spent]) => [tool, { today_usd: spent.today, month_usd: spent.month }]);
+  return { ...budgetOutput(summary, budgets), by_tool: Object.fromEntries(byTool) };
+}
+
+export function comparisonRunOutput(run: ComparisonRun): Record<string, unknown> {
+  return {
+    model: run.model,
+    endpoint: run.endpoint,
+    ...(run.seed !== undefined && { seed: run.seed }),
+    status: run.status,
+    ...(run.ms !== undefined && { duration_ms: run.ms }),
+    ...(run.inferenceSeconds !== undefined && { inference_seconds: run.inferenceSeconds }),
+    cost_usd: run.usd,
+    files: run.files,
+    ...(run.error && { error: run.error })
+  };
+}
@@ -0,0 +1,257 @@
+import { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import { z } from 'zod';
+import { Config } from './config.js';
+import { findMediaFiles, MediaFile, MediaKind } from './media.js';
+
+export const workflowStepSchema = z.object({
+  id: z.string().regex(/^[\w-]+$/, 'Step ids may only contain letters, digits, "_" and "-"').optional(),
+  tool: z.string().min(1),
+  arguments: z.record(z.any()).default({}),
+  // Steps whose outputs this one uses. Defaults to the steps it references, or else the
+  // step before it, so a plain list is a chain.
+  needs: z.array(z.string()).optional()
+});
+
+export const workflowSchema = z.object({
+  description: z.string().optional(),
+  // Values the caller supplies, by name, with a description of each
+  inputs: z.record(z.string()).optional(),
+  steps: z.array(workflowStepSchema).min(1)
+});
+
+export type WorkflowStep = z.infer<typeof workflowStepSchema>;
+export type Workflow = z.infer<typeof workflowSchema>;
+
+export interface PlannedStep {
+  id: string;
+  tool: string;
+  arguments: Record<string, any>;
+  needs: string[];
+  // Whether any later step uses this step's outputs
+  intermediate: boolean;
+}
+
+export type StepStatus = 'completed' | 'failed' | 'skipped';
+
+export interface StepReport {
+  id: string;
+  tool: string;
+  status: StepStatus;
+  // Arguments after references and wiring were filled in
+  arguments?: Record<string, any>;
+  response?: CallToolResult;
+  error?: string;
+  outputs: MediaFile[];
+}
+
+// Runs one step. `data` is the fal result when the step actually ran; dry runs and
+// calls the user declined return only a response.
+export type StepExecutor = (
+  step: PlannedStep,
+  args: Record<string, any>,
+  options: { save: boolean }
+) => Promise<{ response: CallToolResult; data?: any }>;
+
+export interface RunOptions {
+  dryRun?: boolean;
+  // Also download the outputs of steps that feed later ones
+  saveIntermediates?: boolean;
+  // Names of the *_url arguments a tool requires
+  requiredUrls: (tool: string) => string[];
+  onStep?: (step: PlannedStep) => void;
+}
+
+// Required URL arguments filled from a needed step's output when not given, by the kind of media they take
+const WIRED_ARGUMENTS: Record<string, MediaKind> = {
+  image_url: 'image',
+  base_image_url: 'image',
+  video_url: 'video',
+  base_video_url: 'video',
+  audio_url: 'audio',
+  model_url: 'model3d'
+};
+
+const REFERENCE = /\{\{\s*([\w-]+)(?:\.([\w-]+))?\s*\}\}/g;
+
+// Named workflows from the config file, and running workflows step by step.
+// Steps run as soon as the steps they need have finished, so independent branches run in parallel.
+export class WorkflowRunner {
+  constructor(private saved: Record<string, Workflow>) {}
+
+  names(): string[] {
+    return Object.keys(this.saved);
+  }
+
+  get(name: string): Workflow {
+    const workflow = this.saved[name];
+    if (!workflow) {
+      const names = this.names();
+      throw new Error(`Unknown workflow "${name}". ${names.length ? `Saved workflows: ${names.join(', ')}` : 'No workflows are saved in the config file.'}`);
+    }
+    return workflow;
+  }
+
+  // Check the steps and work out what each one needs. Throws on unknown references and cycles.
+  plan(workflow: Workflow, inputs: Record<string, any> = {}): PlannedStep[] {
+    for (const name of Object.keys(workflow.inputs ?? {})) {
+      if (inputs[name] === undefined) throw new Error(`Missing workflow input "${name}": ${workflow.inputs![name]}`);
+    }
+
+    const ids = workflow.steps.map((step, index) => step.id ?? String(index + 1));
+    const duplicate = ids.find((id, index) => ids.indexOf(id) !== index);
+    if (duplicate) throw new Error(`Duplicate step id "${duplicate}"`);
+
+    const steps = workflow.steps.map((step, index): PlannedStep => {
+      const id = ids[index];
+      const args = substitute(step.arguments, (name, field) => {
+        if (name !== 'inputs') return undefined;
+        if (!field || inputs[field] === undefined) throw new Error(`Step ${id} uses {{inputs.${field ?? ''}}}, which was not given`);
+        return inputs[field];
+      });
+      const referenced = references(args);
+      const previous = index > 0 && !referenced.length ? [ids[index - 1]] : [];
+      const needs = [...new Set([...(step.needs ?? previous), ...referenced])];
+      for (const need of needs) {
+        if (need === id) throw new Error(`Step ${id} cannot use its own output`);
+        if (!ids.includes(need)) throw new Error(`Step ${id} refers to unknown step "${need}"`);
+      }
+      return { id, tool: step.tool, arguments: args, needs, intermediate: false };
+    });
+
+    for (const step of steps) {
+      step.intermediate = steps.some((other) => other.needs.includes(step.id));
+    }
+    assertAcyclic(steps);
+    return steps;
+  }
+
+  async run(steps: PlannedStep[], execute: StepExecutor, options: RunOptions): Promise<StepReport[]> {
+    const reports = new Map<string, Promise<StepReport>>();
+
+    const runStep = async (step: PlannedStep): Promise<StepReport> => {
+      const needed = await Promise.all(step.needs.map((id) => reports.get(id)!));
+      const unfinished = needed.filter((report) => report.status !== 'completed');
+      if (unfinished.length) {
+        return { id: step.id, tool: step.tool, status: 'skipped', error: `needs ${unfinished.map((report) => report.id).join(', ')}`, outputs: [] };
+      }
+
+      let args: Record<string, any> | undefined;
+      try {
+        args = wire(step, needed, options);
+        options.onStep?.(step);
+        const { response, data } = await execute(step, args, { save: !step.intermediate || options.saveIntermediates === true });
+        const ran = options.dryRun ? !response.isError : data !== undefined;
+        return {
+          id: step.id,
+          tool: step.tool,
+          status: ran ? 'completed' : 'failed',
+          arguments: args,
+          response,
+          ...(!ran && { error: textOf(response) }),
+          outputs: data !== undefined ? findMediaFiles(data) : []
+        };
+      } catch (error: any) {
+        return { id: step.id, tool: step.tool, status: 'failed', arguments: args, error: error.message, outputs: [] };
+      }
+    };
+
+    // Steps are planned in an order where every step comes after the ones it needs
+    for (const step of topologicalOrder(steps)) {
+      reports.set(step.id, runStep(step));
+    }
+    const finished = await Promise.all([...reports.values()]);
+    return steps.map((step) => finished.find((report) => report.id === step.id)!);
+  }
+}
+
+// Replace {{name}} and {{name.field}} references in string values. A string that is only
+// a reference takes the referenced value as it is, e.g. a number.
+function substitute(value: any, lookup: (name: string, field?: string) => any): any {
+  if (typeof value === 'string') {
+    const whole = value.match(/^\{\{\s*([\w-]+)(?:\.([\w-]+))?\s*\}\}$/);
+    if (whole) {
+      const found = lookup(whole[1], whole[2]);
+      return found === undefined ? value : found;
+    }
+    return value.replace(REFERENCE, (match, name: string, field?: string) => {
+      const found = lookup(name, field);
+      return found === undefined ? match : String(found);
+    });
+  }
+  if (Array.isArray(value)) return value.map((item) => substitute(item, lookup));
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, substitute(item, lookup)]));
+  }
+  return value;
+}
+
+// Step ids referenced as {{id}} or {{id.kind}}
+function references(value: any): string[] {
+  const found: string[] = [];
+  substitute(value, (name) => {
+    found.push(name);
+    return undefined;
+  });
+  return found;
+}
+
+// Fill step references and missing required URL arguments from the outputs of the needed steps
+function wire(step: PlannedStep, needed: StepReport[], options: RunOptions): Record<string, any> {
+  const outputOf = (report: StepReport, kind?: MediaKind): string | undefined => {
+    if (options.dryRun) return `<${kind ?? 'output'} from step ${report.id}>`;
+    return report.outputs.find((file) => !kind || file.kind === kind)?.url;
+  };
+
+  const args = substitute(step.arguments, (name, field) => {
+    const report = needed.find((other) => other.id === name);
+    if (!report) return undefined;
+    if (field && !['image', 'video', 'audio', 'model3d'].includes(field)) {
+      throw new Error(`Unknown output "${field}" in {{${name}.${field}}}. Use image, video, audio or model3d.`);
+    }
+    const url = outputOf(report, field as MediaKind | undefined);
+    if (!url) throw new Error(`Step ${name} produced no ${field ?? 'file'} output for {{${name}${field ? `.${field}` : ''}}}`);
+    return url;
+  });
+
+  for (const name of options.requiredUrls(step.tool)) {
+    const kind = WIRED_ARGUMENTS[name];
+    if (args[name] !== undefined || !kind) continue;
+    const url = needed.map((report) => outputOf(report, kind)).find(Boolean);
+    if (!url) {
+      throw new Error(`Nothing to fill ${name} from: none of ${step.needs.join(', ') || 'the needed steps'} produced a ${kind} output. Set it in the step's arguments.`);
+    }
+    args[name] = url;
+  }
+  return args;
+}
+
+function topologicalOrder(steps: PlannedStep[]): PlannedStep[] {
+  const ordered: PlannedStep[] = [];
+  const visit = (step: PlannedStep) => {
+    if (ordered.includes(step)) return;
+    step.needs.forEach((id) => visit(steps.find((other) => other.id === id)!));
+    ordered.push(step);
+  };
+  steps.forEach(visit);
+  return ordered;
+}
+
+function assertAcyclic(steps: PlannedStep[]): void {
+  const state = new Map<string, 'visiting' | 'done'>();
+  const visit = (step: PlannedStep, path: string[]) => {
+    if (state.get(step.id) === 'done') return;
+    if (state.get(step.id) === 'visiting') throw new Error(`Workflow steps form a cycle: ${[...path, step.id].join(' → ')}`);
+    state.set(step.id, 'visiting');
+    step.needs.forEach((id) => visit(steps.find((other) => other.id === id)!, [...path, step.id]));
+    state.set(step.id, 'done');
+  };
+  steps.forEach((step) => visit(step, []));
+}
+
+function textOf(response: CallToolResult): string {
+  return response.content.map((block) => (block.type === 'text' ? block.text : '')).filter(Boolean).join('\n');
+}
+
+export function createWorkflowRunner(config: Config): WorkflowRunner {
+  return new WorkflowRunner(config.workflows);
+}
@@ -0,0 +1,35 @@
+import assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as path from 'path';
+import { after, before, describe, test } from 'node:test';
+import { readJsonLines, startServer, textOf } from './helpers.mjs';
+
+describe('run_batch', () => {
+  let server;
+  before(async () => {
+    server = await startServer();
+  });
+  after(() => server.close());
+
+  test('keeps CSV text cells as text and parses the typed ones', async () => {
+    const manifest = path.join(server.dir, 'prompts.csv');
+    fs.writeFileSync(manifest, [
+      'id,prompt,seed,num_images,output_format',
+      'number,123,1,1,png',
+      'boolean,true,2,1,jpeg',
+      'brackets,[draft] cat,3,2,png'
+    ].join('\n'));
+
+    const result = await server.call('run_batch', { manifest, tool: 'generate_image' });
+    assert.equal(result.structuredContent.status, 'completed', textOf(result));
+
+    const rows = readJsonLines(path.join(server.dir, 'prompts.results.jsonl'));
+    const argumentsOf = async (id) => {
+      const { generation } = rows.find((row) => row.id === id);
+      return (await server.call('get_generation', { id: generation })).structuredContent.arguments;
+    };
+    assert.deepEqual(await argumentsOf('number'), { prompt: '123', seed: 1, num_images: 1, output_format: 'png' });
+    assert.deepEqual(await argumentsOf('boolean'), { prompt: 'true', seed: 2, num_images: 1, output_format: 'jpeg' });
+    assert.deepEqual(await argumentsOf('brackets'), { prompt: '[draft] cat', seed: 3, num_images: 2, output_format: 'png' });
+  });
+});
@@ -0,0 +1,73 @@
+import assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as path from 'path';
+import { after, afterEach, before, describe, test } from 'node:test';
+import { startServer, textOf } from './helpers.mjs';
+
+describe('budgets', () => {
+  let server;
+  before(async () => {
+    // Room for one $0.08 image, not two
+    server = await startServer({ FAL_BUDGET_DAILY: '0.1' });
+  });
+  after(() => server.close());
+
+  test('calls running side by side cannot together go over', async () => {
+    const results = await Promise.all([
+      server.call('generate_image', { prompt: 'a fox' }),
+      server.call('generate_image', { prompt: 'an owl' })
+    ]);
+    const refused = results.filter((result) => result.isError);
+    assert.equal(refused.length, 1);
+    assert.match(textOf(refused[0]), /Daily budget of \$0\.100 would be exceeded/);
+
+    const report = await server.call('spending_report');
+    assert.equal(report.structuredContent.spent_today_usd, 0.08);
+  });
+
+  test('releases the estimate of a refused or finished call', async () => {
+    const report = await server.call('estimate_cost', { tool: 'remove_background', arguments: { image_url: 'https://example.com/cat.png' } });
+    assert.equal(report.structuredContent.budget.spent_today_usd, 0.08);
+    const result = await server.call('remove_background', { image_url: 'https://example.com/cat.png' });
+    assert.equal(result.isError, undefined, textOf(result));
+  });
+});
+
+describe('budgets and endpoints without a price', () => {
+  let server;
+  afterEach(() => server.close());
+
+  const runUnpriced = () => server.call('run_model', { endpoint: 'fal-ai/unpriced/model', input: { prompt: 'a fox' } });
+
+  test('refuses them while a budget is set', async () => {
+    server = await startServer({ FAL_BUDGET_DAILY: '5' });
+    const result = await runUnpriced();
+    assert.equal(result.isError, true);
+    assert.match(textOf(result), /No price is known for fal-ai\/unpriced\/model/);
+
+    // Before any row of a batch runs
+    const manifest = path.join(server.dir, 'rows.jsonl');
+    fs.writeFileSync(manifest, [
+      { tool: 'generate_image', prompt: 'an owl' },
+      { tool: 'run_model', endpoint: 'fal-ai/unpriced/model', input: { prompt: 'a fox' } }
+    ].map((row) => JSON.stringify(row)).join('\n'));
+    const batch = await server.call('run_batch', { manifest });
+    assert.equal(batch.isError, true);
+    assert.match(textOf(batch), /No price is known/);
+    assert.ok(!fs.existsSync(path.join(server.dir, 'rows.results.jsonl')));
+  });
+
+  test('runs them uncounted when allowed', async () => {
+    server = await startServer({ FAL_BUDGET_DAILY: '5', FAL_BUDGET_ALLOW_UNPRICED: '1' });
+    const result = await runUnpriced();
+    assert.equal(result.isError, undefined, textOf(result));
+    const report = await server.call('spending_report');
+    assert.equal(report.structuredContent.spent_today_usd, 0);
+  });
+
+  test('runs them without a budget', async () => {
+    server = await startServer();
+    const result = await runUnpriced();
+    assert.equal(result.isError, undefined, textOf(result));
+  });
+});
@@ -0,0 +1,57 @@
+import assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as path from 'path';
+import { after, before, describe, test } from 'node:test';
+import { FIXTURES_DIR, startServer } from './helpers.mjs';
+
+describe('result cache', () => {
+  let server;
+  before(async () => {
+    server = await startServer({ FAL_CACHE: 'true' });
+  });
+  after(() => server.close());
+
+  const twice = async (name, args) => {
+    await server.call(name, args);
+    return (await server.call(name, args)).structuredContent;
+  };
+
+  test('answers a repeated call with a pinned seed from the cache', async () => {
+    const second = await twice('generate_image', { prompt: 'a fox', seed: 5 });
+    assert.equal(second.cache.hit, true);
+    assert.equal(second.cost_usd, 0);
+  });
+
+  test('runs unseeded generations every time', async () => {
+    const image = await twice('generate_image', { prompt: 'an owl' });
+    assert.equal(image.cache, undefined);
+    const video = await twice('text_to_video', { prompt: 'waves', duration: '5' });
+    assert.equal(video.cache, undefined);
+    assert.ok(video.cost_usd > 0);
+  });
+
+  test('caches deterministic tools without a seed', async () => {
+    const second = await twice('remove_background', { image_url: 'https://example.com/cat.png' });
+    assert.equal(second.cache.hit, true);
+  });
+
+  test('matches local inputs by their content', async () => {
+    const input = path.join(server.dir, 'photo.png');
+    fs.copyFileSync(path.join(FIXTURES_DIR, 'media', 'fal-ai-bria-background-remove-1.png'), input);
+    const second = await twice('estimate_depth', { image_url: input });
+    assert.equal(second.cache.hit, true);
+
+    fs.appendFileSync(input, 'edited');
+    const edited = (await server.call('estimate_depth', { image_url: input })).structuredContent;
+    assert.equal(edited.cache.hit, false);
+  });
+
+  test('bypass and refresh run the model', async () => {
+    const args = { prompt: 'a heron', seed: 9 };
+    await server.call('generate_image', args);
+    const bypassed = (await server.call('generate_image', { ...args, cache: 'bypass' })).structuredContent;
+    assert.equal(bypassed.cache, undefined);
+    const refreshed = (await server.call('generate_image', { ...args, cache: 'refresh' })).structuredContent;
+    assert.equal(refreshed.cache.hit, false);
+  });
+});
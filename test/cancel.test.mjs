@@ -0,0 +1,101 @@
+import assert from 'node:assert/strict';
+import { setTimeout as delay } from 'node:timers/promises';
+import { after, afterEach, before, describe, test } from 'node:test';
+import { FalClient } from '../dist/fal-client.js';
+import { startServer, textOf } from './helpers.mjs';
+
+// A fal queue whose jobs never finish, noting which were cancelled
+function stubFal() {
+  const cancelled = [];
+  globalThis.fetch = async (input, init) => {
+    const url = new URL(input instanceof Request ? input.url : String(input));
+    const match = url.pathname.match(/\/requests\/([\w-]+)(\/status|\/cancel)?$/);
+    let body;
+    if (!match) body = { request_id: 'request-1', status: 'IN_QUEUE', queue_position: 0 };
+    else if (match[2] === '/cancel') {
+      cancelled.push(match[1]);
+      body = { status: 'CANCELLATION_REQUESTED' };
+    } else body = { status: 'IN_PROGRESS', request_id: match[1], logs: [] };
+    return new Response(JSON.stringify(body), { status: match?.[2] === '/cancel' ? 202 : 200, headers: { 'Content-Type': 'application/json' } });
+  };
+  return cancelled;
+}
+
+describe('cancelling fal jobs', () => {
+  const realFetch = globalThis.fetch;
+  let client;
+  before(() => {
+    client = new FalClient({
+      apiKey: 'test-key',
+      timeout: 200,
+      longTimeout: 200,
+      retry: { maxAttempts: 1, baseDelay: 1, maxDelay: 1 },
+      circuitBreaker: { threshold: 10, cooldown: 60_000 },
+      concurrency: { fast: 2, long: 2, queue: 10, models: {} }
+    });
+  });
+  afterEach(() => {
+    globalThis.fetch = realFetch;
+  });
+
+  test('cancels the remote job on timeout', async () => {
+    const cancelled = stubFal();
+    await assert.rejects(client.run('fal-ai/flux/dev', { prompt: 'a fox' }), /Request timeout/);
+    assert.deepEqual(cancelled, ['request-1']);
+  });
+
+  test('cancels the remote job when the call is aborted', async () => {
+    const cancelled = stubFal();
+    const controller = new AbortController();
+    const running = client.run('fal-ai/flux/dev', { prompt: 'a fox' }, { signal: controller.signal, timeout: 10_000 });
+    await delay(50);
+    controller.abort();
+    await assert.rejects(running, /Request cancelled/);
+    assert.deepEqual(cancelled, ['request-1']);
+  });
+});
+
+describe('cancelled tool calls', () => {
+  let server;
+  before(async () => {
+    // Shorter than the mock backend takes
+    server = await startServer({ FAL_TIMEOUT: '100' });
+  });
+  after(() => server.close());
+
+  test('report a timeout and record the call as failed', async () => {
+    const result = await server.call('generate_image', { prompt: 'a fox' });
+    assert.equal(result.isError, true);
+    assert.match(textOf(result), /timed out and was cancelled/);
+
+    const [generation] = (await server.call('list_generations', {})).structuredContent.generations;
+    assert.equal(generation.status, 'failed');
+    assert.deepEqual(generation.files, []);
+  });
+});
+
+describe('tool calls cancelled by the client', () => {
+  let server;
+  before(async () => {
+    server = await startServer();
+  });
+  after(() => server.close());
+
+  test('stop the call and record it as failed', async () => {
+    const controller = new AbortController();
+    const running = server.client.callTool({ name: 'generate_image', arguments: { prompt: 'an owl' } }, undefined, { signal: controller.signal });
+    await delay(100);
+    controller.abort();
+    await assert.rejects(running);
+
+    // The server hears of the cancellation after the client gives up
+    let generation;
+    for (let attempt = 0; attempt < 20 && generation?.status !== 'failed'; attempt++) {
+      await delay(50);
+      [generation] = (await server.call('list_generations', {})).structuredContent.generations;
+    }
+    assert.equal(generation.status, 'failed');
+    assert.match(generation.error, /cancelled/);
+    assert.deepEqual(generation.files, []);
+  });
+});
@@ -0,0 +1,96 @@
+import assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as path from 'path';
+import sharp from 'sharp';
+import { after, before, describe, test } from 'node:test';
+import { startServer, textOf } from './helpers.mjs';
+
+describe('compare_models', () => {
+  let server;
+  before(async () => {
+    server = await startServer();
+  });
+  after(() => server.close());
+
+  test('runs every model with every seed, saving each output under its label', async () => {
+    const saveDir = path.join(server.outputDir, 'foxes');
+    const result = await server.call('compare_models', {
+      tool: 'generate_image',
+      arguments: { prompt: 'a fox' },
+      models: ['flux-dev', 'fal-ai/flux/schnell'],
+      seeds: [1, 2],
+      save_dir: saveDir
+    });
+    assert.equal(result.isError, undefined, textOf(result));
+
+    const { status, dir, runs } = result.structuredContent;
+    assert.equal(status, 'completed');
+    assert.equal(dir, saveDir);
+    assert.deepEqual(runs.map((run) => [run.model, run.endpoint, run.seed, run.status]), [
+      ['flux-dev', 'fal-ai/flux/dev', 1, 'completed'],
+      ['flux-dev', 'fal-ai/flux/dev', 2, 'completed'],
+      ['fal-ai/flux/schnell', 'fal-ai/flux/schnell', 1, 'completed'],
+      ['fal-ai/flux/schnell', 'fal-ai/flux/schnell', 2, 'completed']
+    ]);
+    for (const run of runs) {
+      assert.ok(run.duration_ms >= 0);
+      assert.ok(run.cost_usd > 0);
+      assert.equal(run.files.length, 1);
+      const sidecar = JSON.parse(fs.readFileSync(`${run.files[0]}.json`, 'utf-8'));
+      assert.equal(sidecar.model, run.endpoint);
+      assert.equal(sidecar.seed, run.seed);
+    }
+    assert.deepEqual(runs.map((run) => path.basename(run.files[0])), [
+      'flux-dev-seed1.png', 'flux-dev-seed2.png', 'fal-ai-flux-schnell-seed1.png', 'fal-ai-flux-schnell-seed2.png'
+    ]);
+
+    const text = textOf(result);
+    assert.match(text, /Compared 2 models on generate_image: 4 of 4 runs completed/);
+    assert.match(text, /\| flux-dev \| fal-ai\/flux\/dev \| 1 \| .+ \| \$0\.025 \| flux-dev-seed1\.png \|/);
+  });
+
+  test('puts the outputs side by side on a contact sheet', async () => {
+    const result = await server.call('compare_models', {
+      tool: 'generate_image',
+      arguments: { prompt: 'an owl', seed: 7 },
+      models: ['flux-dev', 'flux-schnell']
+    });
+    const { contact_sheet: contactSheet, runs } = result.structuredContent;
+    assert.deepEqual(runs.map((run) => run.seed), [7, 7]);
+    assert.equal(path.dirname(contactSheet), result.structuredContent.dir);
+
+    const { width, height } = await sharp(contactSheet).metadata();
+    assert.ok(width > height, `${width}x${height} has the models side by side`);
+    assert.ok(result.content.some((block) => block.type === 'image'));
+  });
+
+  test('estimates the cost of a dry run without submitting anything', async () => {
+    const recorded = (await server.call('list_generations', {})).structuredContent.generations.length;
+    const result = await server.call('compare_models', {
+      tool: 'generate_image',
+      arguments: { prompt: 'a fox', seed: 5 },
+      models: ['flux-dev', 'flux-schnell'],
+      dry_run: true
+    });
+    assert.equal(result.structuredContent.status, 'dry_run');
+    assert.equal(result.structuredContent.cost_usd, 0.028);
+    assert.deepEqual(result.structuredContent.runs.map((run) => run.status), ['planned', 'planned']);
+    assert.match(textOf(result), /Estimated total: \$0\.028/);
+    assert.equal((await server.call('list_generations', {})).structuredContent.generations.length, recorded);
+  });
+
+  test('refuses what cannot be compared', async () => {
+    const notMedia = await server.call('compare_models', { tool: 'list_models', arguments: {}, models: ['flux-dev'] });
+    assert.equal(notMedia.isError, true);
+    assert.match(textOf(notMedia), /compare_models runs media tools such as generate_image, not list_models/);
+
+    const noSeed = await server.call('compare_models', {
+      tool: 'remove_background',
+      arguments: { image_url: 'https://example.com/cat.png' },
+      models: ['fal-ai/bria/background/remove'],
+      seeds: [1, 2]
+    });
+    assert.equal(noSeed.isError, true);
+    assert.match(textOf(noSeed), /remove_background takes no seed, so seeds cannot be swept/);
+  });
+});
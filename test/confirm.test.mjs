@@ -0,0 +1,23 @@
+import assert from 'node:assert/strict';
+import { afterEach, describe, test } from 'node:test';
+import { startServer, textOf } from './helpers.mjs';
+
+// The test client does not support elicitation, so it cannot be asked to confirm
+describe('confirmation without elicitation', () => {
+  let server;
+  afterEach(() => server.close());
+
+  test('runs calls that need confirmation by default', async () => {
+    server = await startServer();
+    const result = await server.call('upscale_video', { video_url: 'https://example.com/clip.mp4' });
+    assert.equal(result.isError, undefined, textOf(result));
+    assert.equal(result.structuredContent.status, 'completed');
+  });
+
+  test('refuses them with FAL_CONFIRM_FALLBACK=deny', async () => {
+    server = await startServer({ FAL_CONFIRM_FALLBACK: 'deny' });
+    const result = await server.call('upscale_video', { video_url: 'https://example.com/clip.mp4' });
+    assert.equal(result.isError, true);
+    assert.match(textOf(result), /needs the user's confirmation/);
+  });
+});
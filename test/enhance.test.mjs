@@ -0,0 +1,75 @@
+import assert from 'node:assert/strict';
+import * as fs from 'fs';
+import { CreateMessageRequestSchema } from '@modelcontextprotocol/sdk/types.js';
+import { afterEach, describe, test } from 'node:test';
+import { startServer, textOf } from './helpers.mjs';
+
+const SAMPLING = { capabilities: { sampling: {} } };
+
+describe('prompt enhancement', () => {
+  let server;
+  afterEach(() => server.close());
+
+  // Answers sampling requests with `reply`, noting each request
+  const sample = (reply) => {
+    const requests = [];
+    server.client.setRequestHandler(CreateMessageRequestSchema, async (request) => {
+      requests.push(request.params);
+      return { role: 'assistant', model: 'test-model', content: { type: 'text', text: reply() } };
+    });
+    return requests;
+  };
+
+  test('rewrites the prompt with the client\'s model and the tool\'s guide', async () => {
+    server = await startServer({}, SAMPLING);
+    const requests = sample(() => '"A red fox in fresh snow, golden hour, shallow depth of field"');
+
+    const result = await server.call('generate_image', { prompt: 'a fox', enhance_prompt: true });
+    assert.equal(result.isError, undefined, textOf(result));
+    assert.match(textOf(result), /Original prompt: a fox\nEnhanced prompt: A red fox in fresh snow, golden hour, shallow depth of field/);
+
+    assert.equal(requests.length, 1);
+    assert.match(requests[0].systemPrompt, /^You are generating images via fal\.ai/);
+    assert.deepEqual(requests[0].messages, [{ role: 'user', content: { type: 'text', text: 'a fox' } }]);
+
+    const sidecar = JSON.parse(fs.readFileSync(`${result.structuredContent.files[0].path}.json`, 'utf-8'));
+    assert.equal(sidecar.input.prompt, 'A red fox in fresh snow, golden hour, shallow depth of field');
+
+    const [generation] = (await server.call('list_generations', {})).structuredContent.generations;
+    assert.equal(generation.original_prompt, 'a fox');
+    assert.equal(generation.enhanced_prompt, 'A red fox in fresh snow, golden hour, shallow depth of field');
+  });
+
+  test('follows the server default unless the call says otherwise', async () => {
+    server = await startServer({ FAL_ENHANCE_PROMPTS: 'true' }, SAMPLING);
+    const requests = sample(() => 'Waves rolling onto a beach at dusk');
+
+    await server.call('text_to_video', { prompt: 'waves', duration: '5' });
+    assert.equal(requests.length, 1);
+    assert.match(requests[0].systemPrompt, /^You are generating videos via fal\.ai/);
+
+    const result = await server.call('text_to_video', { prompt: 'waves', duration: '5', enhance_prompt: false });
+    assert.equal(requests.length, 1);
+    assert.doesNotMatch(textOf(result), /prompt/i);
+  });
+
+  test('uses the original prompt when the client cannot sample', async () => {
+    server = await startServer();
+    const result = await server.call('generate_image', { prompt: 'a fox', enhance_prompt: true });
+    assert.equal(result.isError, undefined, textOf(result));
+    assert.match(textOf(result), /Prompt not enhanced: the client does not support sampling\. The original prompt was used\./);
+  });
+
+  test('uses the original prompt when sampling fails', async () => {
+    server = await startServer({}, SAMPLING);
+    sample(() => {
+      throw new Error('User declined');
+    });
+
+    const result = await server.call('generate_image', { prompt: 'a fox', enhance_prompt: true });
+    assert.equal(result.isError, undefined, textOf(result));
+    assert.match(textOf(result), /Prompt not enhanced: sampling failed \(.*User declined.*\)/);
+    const sidecar = JSON.parse(fs.readFileSync(`${result.structuredContent.files[0].path}.json`, 'utf-8'));
+    assert.equal(sidecar.input.prompt, 'a fox');
+  });
+});
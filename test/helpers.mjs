@@ -0,0 +1,112 @@
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { StdioClientTransport } from '@modelcontextprotocol/sdk/client/stdio.js';
+import { StreamableHTTPClientTransport } from '@modelcontextprotocol/sdk/client/streamableHttp.js';
+import { spawn } from 'child_process';
+import * as fs from 'fs';
+import * as net from 'net';
+import * as os from 'os';
+import * as path from 'path';
+import { fileURLToPath } from 'url';
+
+const root = path.resolve(path.dirname(fileURLToPath(import.meta.url)), '..');
+
+export const FIXTURES_DIR = path.join(root, 'test', 'fixtures');
+
+// Start the built server against the mock backend, in a scratch directory that stands in for
+// the working directory, home and output directory, so no config file or state leaks in.
+// `clientOptions` are passed to the MCP client, e.g. to declare capabilities.
+export async function startServer(env = {}, clientOptions = {}) {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'fal-mcp-test-'));
+  const outputDir = path.join(dir, 'out');
+  const inherited = Object.fromEntries(Object.entries(process.env).filter(([key]) => !key.startsWith('FAL_')));
+  const transport = new StdioClientTransport({
+    command: process.execPath,
+    args: [path.join(root, 'dist', 'index.js')],
+    cwd: dir,
+    env: { ...inherited, HOME: dir, FAL_MOCK: '1', FAL_OUTPUT_DIR: outputDir, ...env },
+    stderr: 'ignore'
+  });
+  const client = new Client({ name: 'fal-mcp-test', version: '1.0.0' }, clientOptions);
+  await client.connect(transport);
+
+  return {
+    client,
+    dir,
+    outputDir,
+    call: (name, args = {}) => client.callTool({ name, arguments: args }),
+    close: async () => {
+      await client.close();
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  };
+}
+
+// The same, served over HTTP on a free port with a bearer token
+export async function startHttpServer(env = {}) {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'fal-mcp-test-'));
+  const outputDir = path.join(dir, 'out');
+  const port = await freePort();
+  const token = 'test-token';
+  const inherited = Object.fromEntries(Object.entries(process.env).filter(([key]) => !key.startsWith('FAL_')));
+  const child = spawn(process.execPath, [path.join(root, 'dist', 'index.js'), '--http', '--port', String(port)], {
+    cwd: dir,
+    env: { ...inherited, HOME: dir, FAL_MOCK: '1', FAL_OUTPUT_DIR: outputDir, FAL_HTTP_TOKENS: token, ...env },
+    stdio: ['ignore', 'ignore', 'pipe']
+  });
+  const exited = new Promise((resolve) => child.once('exit', resolve));
+
+  try {
+    // The server announces itself on stderr once it is listening
+    await new Promise((resolve, reject) => {
+      let output = '';
+      child.stderr.on('data', (chunk) => {
+        output += chunk;
+        if (output.includes('running on http://')) resolve();
+      });
+      child.once('exit', () => reject(new Error(`Server exited before listening:\n${output}`)));
+    });
+    const client = new Client({ name: 'fal-mcp-test', version: '1.0.0' });
+    await client.connect(new StreamableHTTPClientTransport(new URL(`http://127.0.0.1:${port}/mcp`), {
+      requestInit: { headers: { Authorization: `Bearer ${token}` } }
+    }));
+
+    return {
+      client,
+      dir,
+      outputDir,
+      url: `http://127.0.0.1:${port}`,
+      token,
+      call: (name, args = {}) => client.callTool({ name, arguments: args }),
+      close: async () => {
+        await client.close();
+        child.kill();
+        await exited;
+        fs.rmSync(dir, { recursive: true, force: true });
+      }
+    };
+  } catch (error) {
+    child.kill();
+    await exited;
+    fs.rmSync(dir, { recursive: true, force: true });
+    throw error;
+  }
+}
+
+function freePort() {
+  return new Promise((resolve, reject) => {
+    const server = net.createServer();
+    server.once('error', reject);
+    server.listen(0, '127.0.0.1', () => {
+      const { port } = server.address();
+      server.close(() => resolve(port));
+    });
+  });
+}
+
+export function textOf(result) {
+  return result.content.filter((item) => item.type === 'text').map((item) => item.text).join('\n');
+}
+
+export function readJsonLines(file) {
+  return fs.readFileSync(file, 'utf-8').trim().split('\n').map((line) => JSON.parse(line));
+}
@@ -0,0 +1,42 @@
+import assert from 'node:assert/strict';
+import * as path from 'path';
+import { after, before, describe, test } from 'node:test';
+import { readJsonLines, startServer } from './helpers.mjs';
+
+describe('generation history', () => {
+  let server;
+  before(async () => {
+    server = await startServer();
+  });
+  after(() => server.close());
+
+  test('records completed calls with their seed and files', async () => {
+    const result = await server.call('remove_background', { image_url: 'https://example.com/cat.png' });
+    const { generation, files } = result.structuredContent;
+
+    const lines = readJsonLines(path.join(server.outputDir, '.history.jsonl')).filter((line) => line.id === generation);
+    const last = lines[lines.length - 1];
+    assert.equal(last.status, 'completed');
+    assert.deepEqual(last.files, files.map((file) => file.path));
+    assert.ok(last.completed_at);
+
+    const stored = await server.call('get_generation', { id: generation });
+    assert.equal(stored.structuredContent.status, 'completed');
+    assert.equal(stored.structuredContent.seed, 42);
+  });
+
+  test('lists completed calls', async () => {
+    await server.call('generate_image', { prompt: 'a lighthouse at dusk', seed: 3 });
+    const listed = await server.call('list_generations', { text: 'lighthouse' });
+    const [generation] = listed.structuredContent.generations;
+    assert.equal(generation.status, 'completed');
+    assert.equal(generation.seed, 3);
+    assert.equal(generation.files.length, 1);
+  });
+
+  test('a date-only until includes that whole day', async () => {
+    const today = new Date().toISOString().slice(0, 10);
+    const listed = await server.call('list_generations', { text: 'lighthouse', since: today, until: today });
+    assert.equal(listed.structuredContent.generations.length, 1);
+  });
+});
@@ -0,0 +1,122 @@
+import assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as path from 'path';
+import { after, before, describe, test } from 'node:test';
+import { FIXTURES_DIR, startHttpServer, textOf } from './helpers.mjs';
+
+const IMAGE = path.join(FIXTURES_DIR, 'media', 'fal-ai-bria-background-remove-1.png');
+
+describe('local paths over HTTP', () => {
+  let server;
+  let shared;
+  before(async () => {
+    server = await startHttpServer({ FAL_HTTP_ALLOWED_DIRS: 'shared' });
+    shared = path.join(server.dir, 'shared');
+    fs.mkdirSync(shared);
+    fs.mkdirSync(server.outputDir, { recursive: true });
+    fs.copyFileSync(IMAGE, path.join(server.dir, 'secret.png'));
+  });
+  after(() => server.close());
+
+  const assertRefused = (result) => {
+    assert.equal(result.isError, true);
+    assert.match(textOf(result), /outside the directories this server may use over HTTP/);
+  };
+
+  test('refuses input files outside the output directory', async () => {
+    assertRefused(await server.call('upscale_image', { image_url: '/etc/hostname' }));
+    assertRefused(await server.call('upscale_image', { image_url: '../secret.png' }));
+    assertRefused(await server.call('upscale_image', { image_url: `file://${path.join(server.dir, 'secret.png')}` }));
+  });
+
+  test('refuses symbolic links out of the output directory', async () => {
+    fs.symlinkSync(path.join(server.dir, 'secret.png'), path.join(server.outputDir, 'link.png'));
+    assertRefused(await server.call('upscale_image', { image_url: 'link.png' }));
+  });
+
+  test('reads input files in the output directory and allowed directories', async () => {
+    fs.copyFileSync(IMAGE, path.join(server.outputDir, 'input.png'));
+    fs.copyFileSync(IMAGE, path.join(shared, 'input.png'));
+    for (const image_url of ['input.png', path.join(shared, 'input.png')]) {
+      const result = await server.call('upscale_image', { image_url });
+      assert.equal(result.isError, undefined, textOf(result));
+    }
+  });
+
+  test('accepts names starting with two dots', async () => {
+    fs.mkdirSync(path.join(server.outputDir, '..cache'));
+    fs.copyFileSync(IMAGE, path.join(server.outputDir, '..cache', 'input.png'));
+    const result = await server.call('upscale_image', { image_url: '..cache/input.png', save_path: '..cache/upscaled.png' });
+    assert.equal(result.isError, undefined, textOf(result));
+    assert.equal(result.structuredContent.files[0].path, path.join(server.outputDir, '..cache', 'upscaled.png'));
+  });
+
+  test('refuses to save outside the output directory', async () => {
+    const outside = path.join(server.dir, 'elsewhere', 'fox.png');
+    assertRefused(await server.call('generate_image', { prompt: 'a fox', save_path: outside }));
+    assertRefused(await server.call('run_model', { endpoint: 'fal-ai/flux/dev', input: { prompt: 'a fox' }, save_dir: '/tmp' }));
+    assertRefused(await server.call('compare_models', {
+      tool: 'generate_image',
+      models: ['default', 'dev'],
+      arguments: { prompt: 'a fox' },
+      save_dir: '../elsewhere'
+    }));
+    assert.ok(!fs.existsSync(path.dirname(outside)));
+  });
+
+  test('saves relative paths in the output directory', async () => {
+    const result = await server.call('generate_image', { prompt: 'a fox', save_path: 'foxes/fox.png' });
+    assert.equal(result.isError, undefined, textOf(result));
+    assert.equal(result.structuredContent.files[0].path, path.join(server.outputDir, 'foxes', 'fox.png'));
+  });
+
+  test('refuses batch manifests and results outside the output directory', async () => {
+    const manifest = path.join(server.dir, 'prompts.csv');
+    fs.writeFileSync(manifest, 'prompt\na fox\n');
+    assertRefused(await server.call('run_batch', { manifest, tool: 'generate_image' }));
+
+    fs.copyFileSync(manifest, path.join(server.outputDir, 'prompts.csv'));
+    assertRefused(await server.call('run_batch', { manifest: 'prompts.csv', tool: 'generate_image', output: '/tmp/results.jsonl' }));
+  });
+});
+
+describe('HTTP sessions', () => {
+  let server;
+  before(async () => {
+    server = await startHttpServer({ FAL_HTTP_TOKENS: 'test-token,other-token' });
+  });
+  after(() => server.close());
+
+  const post = (path, token, headers = {}) => fetch(`${server.url}${path}`, {
+    method: 'POST',
+    headers: { Authorization: `Bearer ${token}`, 'Content-Type': 'application/json', Accept: 'application/json, text/event-stream', ...headers },
+    body: JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'ping' })
+  });
+
+  test('refuses requests without a valid token', async () => {
+    assert.equal((await post('/mcp', 'wrong-token')).status, 401);
+  });
+
+  test('only lets the token that opened a Streamable HTTP session use it', async () => {
+    const headers = { 'Mcp-Session-Id': server.client.transport.sessionId, 'Mcp-Protocol-Version': '2025-03-26' };
+    assert.equal((await post('/mcp', 'other-token', headers)).status, 404);
+    assert.equal((await post('/mcp', server.token, headers)).status, 200);
+  });
+
+  test('only lets the token that opened an SSE session post to it', async () => {
+    const controller = new AbortController();
+    const stream = await fetch(`${server.url}/sse`, { headers: { Authorization: `Bearer ${server.token}` }, signal: controller.signal });
+    try {
+      // The first event names the endpoint to post messages to
+      const reader = stream.body.getReader();
+      let events = '';
+      while (!events.includes('/messages?sessionId=')) events += new TextDecoder().decode((await reader.read()).value);
+      const endpoint = events.match(/data: (\/messages\?sessionId=[\w-]+)/)[1];
+
+      assert.equal((await post(endpoint, 'other-token')).status, 404);
+      assert.equal((await post(endpoint, server.token)).status, 202);
+    } finally {
+      controller.abort();
+    }
+  });
+});
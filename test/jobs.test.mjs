@@ -0,0 +1,94 @@
+import assert from 'node:assert/strict';
+import * as fs from 'fs';
+import { after, before, describe, test } from 'node:test';
+import { startServer, textOf } from './helpers.mjs';
+
+describe('async jobs', () => {
+  let server;
+  before(async () => {
+    server = await startServer();
+  });
+  after(() => server.close());
+
+  const submit = async (args) => {
+    const submitted = await server.call('generate_image', { prompt: 'an owl', ...args, async: true });
+    assert.equal(submitted.structuredContent.status, 'submitted', textOf(submitted));
+    return submitted.structuredContent.request_id;
+  };
+
+  test('submit, status and result', async () => {
+    const jobId = await submit({ seed: 11 });
+
+    const running = await server.call('job_status', { job_id: jobId });
+    assert.equal(running.structuredContent.state, 'IN_PROGRESS');
+    assert.ok(running.structuredContent.logs.length > 0);
+    const done = await server.call('job_status', { job_id: jobId });
+    assert.equal(done.structuredContent.state, 'COMPLETED');
+    assert.match(textOf(done), /Use job_result to download the output/);
+
+    const result = await server.call('job_result', { job_id: jobId });
+    assert.equal(result.structuredContent.status, 'completed', textOf(result));
+    assert.equal(result.structuredContent.seed, 11);
+    const [file] = result.structuredContent.files;
+    assert.ok(fs.existsSync(file.path));
+
+    // Fetched once; later calls return the saved result
+    const again = await server.call('job_result', { job_id: jobId });
+    assert.deepEqual(again.structuredContent.files, result.structuredContent.files);
+  });
+
+  test('a result before the job finishes', async () => {
+    const jobId = await submit();
+    const pending = await server.call('job_result', { job_id: jobId });
+    assert.equal(pending.structuredContent.status, 'pending');
+    assert.notEqual(pending.isError, true);
+    assert.match(textOf(pending), /has not finished yet/);
+  });
+
+  test('cancel', async () => {
+    const jobId = await submit();
+    const cancelled = await server.call('job_cancel', { job_id: jobId });
+    assert.equal(cancelled.structuredContent.state, 'CANCELLED');
+
+    const result = await server.call('job_result', { job_id: jobId });
+    assert.equal(result.isError, true);
+    assert.equal(result.structuredContent.job_state, 'CANCELLED');
+
+    const again = await server.call('job_cancel', { job_id: jobId });
+    assert.match(textOf(again), /has already finished \(CANCELLED\)/);
+
+    const generation = (await server.call('list_generations', {})).structuredContent.generations.find((item) => item.request_id === jobId);
+    assert.equal(generation.status, 'cancelled');
+  });
+
+  test('list_jobs, newest first and by state', async () => {
+    const { jobs } = (await server.call('list_jobs', {})).structuredContent;
+    assert.equal(jobs.length, 3);
+    assert.deepEqual(jobs.map((job) => job.submitted_at), jobs.map((job) => job.submitted_at).sort().reverse());
+
+    const cancelled = (await server.call('list_jobs', { state: 'CANCELLED' })).structuredContent.jobs;
+    assert.equal(cancelled.length, 1);
+  });
+
+  test('unknown jobs', async () => {
+    const result = await server.call('job_status', { job_id: 'no-such-job' });
+    assert.equal(result.isError, true);
+  });
+});
+
+describe('async jobs across restarts', () => {
+  test('are kept', async () => {
+    const first = await startServer();
+    const submitted = await first.call('generate_image', { prompt: 'a heron', async: true });
+    const jobId = submitted.structuredContent.request_id;
+
+    const second = await startServer({ FAL_OUTPUT_DIR: first.outputDir });
+    try {
+      const { jobs } = (await second.call('list_jobs', {})).structuredContent;
+      assert.deepEqual(jobs.map((job) => job.id), [jobId]);
+    } finally {
+      await second.close();
+      await first.close();
+    }
+  });
+});
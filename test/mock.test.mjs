@@ -0,0 +1,98 @@
+import assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as path from 'path';
+import { after, before, describe, test } from 'node:test';
+import { FIXTURES_DIR, startServer, textOf } from './helpers.mjs';
+
+describe('mock backend', () => {
+  let server;
+  before(async () => {
+    server = await startServer();
+  });
+  after(() => server.close());
+
+  test('lists every media tool', async () => {
+    const { tools } = await server.client.listTools();
+    const names = tools.map((tool) => tool.name);
+    for (const name of ['generate_image', 'text_to_video', 'remove_background', 'run_model', 'job_result']) {
+      assert.ok(names.includes(name), `${name} is listed`);
+    }
+  });
+
+  test('generate_image saves placeholder images', async () => {
+    const savePath = path.join(server.outputDir, 'fox.png');
+    const result = await server.call('generate_image', { prompt: 'a fox', seed: 7, num_images: 2, save_path: savePath });
+    assert.equal(result.isError, undefined);
+    assert.equal(result.structuredContent.status, 'completed');
+    assert.equal(result.structuredContent.seed, 7);
+    assert.equal(result.structuredContent.files.length, 2);
+    for (const file of result.structuredContent.files) {
+      assert.equal(file.kind, 'image');
+      assert.ok(fs.existsSync(file.path), `${file.path} was saved`);
+    }
+  });
+
+  test('text_to_video saves a placeholder video', async () => {
+    const result = await server.call('text_to_video', { prompt: 'waves', duration: '5' });
+    assert.equal(result.isError, undefined);
+    const [file] = result.structuredContent.files;
+    assert.equal(file.kind, 'video');
+    assert.equal(path.extname(file.path), '.mp4');
+  });
+
+  test('async jobs are polled and fetched', async () => {
+    const submitted = await server.call('generate_image', { prompt: 'an owl', async: true });
+    assert.equal(submitted.structuredContent.status, 'submitted');
+    const jobId = submitted.structuredContent.request_id;
+
+    // One poll in progress, then done
+    const pending = await server.call('job_result', { job_id: jobId });
+    assert.equal(pending.structuredContent.status, 'pending');
+    const done = await server.call('job_result', { job_id: jobId });
+    assert.equal(done.structuredContent.status, 'completed');
+    assert.ok(fs.existsSync(done.structuredContent.files[0].path));
+  });
+
+  test('local inputs are uploaded without touching the shared upload cache', async () => {
+    const input = path.join(server.dir, 'input.png');
+    fs.copyFileSync(path.join(FIXTURES_DIR, 'media', 'fal-ai-bria-background-remove-1.png'), input);
+
+    const result = await server.call('upscale_image', { image_url: input });
+    assert.equal(result.isError, undefined, textOf(result));
+    assert.ok(!fs.existsSync(path.join(server.outputDir, '.upload-cache.json')));
+  });
+
+  test('dry runs estimate without running', async () => {
+    const spendFile = path.join(server.outputDir, '.spend.jsonl');
+    const spent = fs.readFileSync(spendFile, 'utf-8');
+    const result = await server.call('generate_image', { prompt: 'a fox', dry_run: true });
+    assert.equal(result.structuredContent.status, 'dry_run');
+    assert.equal(typeof result.structuredContent.cost_usd, 'number');
+    assert.equal(fs.readFileSync(spendFile, 'utf-8'), spent);
+  });
+});
+
+describe('mock backend replaying fixtures', () => {
+  let server;
+  before(async () => {
+    server = await startServer({ FAL_MOCK: 'replay', FAL_MOCK_FIXTURES: FIXTURES_DIR });
+  });
+  after(() => server.close());
+
+  test('serves the recorded result and its media', async () => {
+    const result = await server.call('remove_background', { image_url: 'https://example.com/cat.png' });
+    assert.equal(result.isError, undefined, textOf(result));
+    const [file] = result.structuredContent.files;
+    assert.deepEqual([file.width, file.height], [2, 2]);
+    assert.deepEqual(
+      fs.readFileSync(file.path),
+      fs.readFileSync(path.join(FIXTURES_DIR, 'media', 'fal-ai-bria-background-remove-1.png'))
+    );
+  });
+
+  test('fails endpoints with nothing recorded', async () => {
+    const result = await server.call('estimate_depth', { image_url: 'https://example.com/cat.png' });
+    assert.equal(result.isError, true);
+    assert.match(textOf(result), /No recorded fixture for fal-ai\/marigold-depth-estimation/);
+  });
+});
@@ -0,0 +1,47 @@
+import assert from 'node:assert/strict';
+import { afterEach, describe, test } from 'node:test';
+import { startServer, textOf } from './helpers.mjs';
+
+describe('tool descriptions', () => {
+  let server;
+  afterEach(() => server.close());
+
+  const descriptionOf = async (name) => {
+    const { tools } = await server.client.listTools();
+    return tools.find((tool) => tool.name === name).description;
+  };
+
+  test('name the built-in model', async () => {
+    server = await startServer();
+    assert.match(await descriptionOf('generate_image'), /using Flux Pro Kontext Max\./);
+  });
+
+  test('name the model a config override routes the tool to', async () => {
+    server = await startServer({ FAL_MODEL_TEXT_TO_IMAGE: 'flux-dev' });
+    const description = await descriptionOf('generate_image');
+    assert.match(description, /using fal-ai\/flux\/dev\./);
+    assert.doesNotMatch(description, /Kontext/);
+  });
+});
+
+describe('choosing a model per call', () => {
+  let server;
+  afterEach(() => server.close());
+
+  test('accepts an alias or a listed endpoint', async () => {
+    server = await startServer();
+    const aliased = await server.call('generate_image', { prompt: 'a fox', model: 'flux-dev', dry_run: true });
+    assert.equal(aliased.structuredContent.model, 'fal-ai/flux/dev');
+    const byId = await server.call('generate_image', { prompt: 'a fox', model: 'fal-ai/flux/dev', dry_run: true });
+    assert.equal(byId.structuredContent.model, 'fal-ai/flux/dev');
+  });
+
+  for (const model of ['toString', 'constructor', '__proto__']) {
+    test(`refuses "${model}"`, async () => {
+      server = await startServer();
+      const result = await server.call('generate_image', { prompt: 'a fox', model, dry_run: true });
+      assert.equal(result.isError, true);
+      assert.match(textOf(result), new RegExp(`Model "${model}" is not available for TEXT_TO_IMAGE`));
+    });
+  }
+});
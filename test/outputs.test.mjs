@@ -0,0 +1,48 @@
+import assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as path from 'path';
+import { after, before, describe, test } from 'node:test';
+import { startServer, textOf } from './helpers.mjs';
+
+describe('saving every output', () => {
+  let server;
+  before(async () => {
+    server = await startServer({ FAL_FILENAME_TEMPLATE: '{tool}-{seed}.{ext}' });
+  });
+  after(() => server.close());
+
+  const generate = async (args) => {
+    const result = await server.call('generate_image', { prompt: 'a fox', num_images: 3, ...args });
+    assert.equal(result.isError, undefined, textOf(result));
+    const paths = result.structuredContent.files.map((file) => file.path);
+    for (const file of paths) assert.ok(fs.existsSync(file), `${file} was saved`);
+    return { paths, text: textOf(result) };
+  };
+
+  test('numbers the files made from the filename template', async () => {
+    const { paths, text } = await generate({ seed: 1 });
+    assert.deepEqual(paths, [1, 2, 3].map((index) => path.join(server.outputDir, `generate_image-1-${index}.png`)));
+    for (const file of paths) assert.ok(text.includes(file), `${file} is listed`);
+  });
+
+  test('numbers a save_path file name', async () => {
+    const { paths } = await generate({ seed: 2, save_path: path.join(server.outputDir, 'foxes', 'fox.png') });
+    assert.deepEqual(paths, [1, 2, 3].map((index) => path.join(server.outputDir, 'foxes', `fox-${index}.png`)));
+  });
+
+  test('fills a save_path template', async () => {
+    const { paths } = await generate({ seed: 3, save_path: path.join(server.outputDir, 'fox-{seed}-{index}.{ext}') });
+    assert.deepEqual(paths, [1, 2, 3].map((index) => path.join(server.outputDir, `fox-3-${index}.png`)));
+  });
+
+  test('saves into a save_path directory', async () => {
+    const dir = path.join(server.outputDir, 'batch');
+    const { paths } = await generate({ seed: 4, save_path: `${dir}${path.sep}` });
+    assert.deepEqual(paths, [1, 2, 3].map((index) => path.join(dir, `generate_image-4-${index}.png`)));
+  });
+
+  test('leaves a single output unnumbered', async () => {
+    const { paths } = await generate({ seed: 5, num_images: 1 });
+    assert.deepEqual(paths, [path.join(server.outputDir, 'generate_image-5.png')]);
+  });
+});
@@ -0,0 +1,55 @@
+import assert from 'node:assert/strict';
+import * as fs from 'fs';
+import sharp from 'sharp';
+import { afterEach, describe, test } from 'node:test';
+import { startServer, textOf } from './helpers.mjs';
+
+describe('inline media', () => {
+  let server;
+  afterEach(() => server.close());
+
+  const generate = async (name, args) => {
+    const result = await server.call(name, args);
+    assert.equal(result.isError, undefined, textOf(result));
+    return result;
+  };
+
+  test('includes a thumbnail of each image and a link to its file', async () => {
+    server = await startServer({ FAL_PREVIEW_MAX_SIZE: '16' });
+    const result = await generate('generate_image', { prompt: 'a fox', num_images: 2 });
+
+    const images = result.content.filter((block) => block.type === 'image');
+    assert.equal(images.length, 2);
+    for (const image of images) {
+      const { width, height } = await sharp(Buffer.from(image.data, 'base64')).metadata();
+      assert.equal(Math.max(width, height), 16);
+    }
+
+    const links = result.content.filter((block) => block.type === 'resource_link');
+    assert.deepEqual(links.map((link) => link.name), result.structuredContent.files.map((file) => file.path.split('/').pop()));
+    for (const link of links) {
+      assert.match(link.uri, /^fal-media:\/\/generate_image\//);
+      assert.equal(link.mimeType, 'image/png');
+    }
+  });
+
+  test('includes speech audio as it was saved', async () => {
+    server = await startServer();
+    const result = await generate('text_to_speech', { text: 'hello' });
+    const [audio] = result.content.filter((block) => block.type === 'audio');
+    assert.equal(audio.mimeType, 'audio/mpeg');
+    assert.deepEqual(Buffer.from(audio.data, 'base64'), fs.readFileSync(result.structuredContent.files[0].path));
+  });
+
+  test('only links audio over the size limit', async () => {
+    server = await startServer({ FAL_INLINE_AUDIO_MAX_BYTES: '1' });
+    const result = await generate('text_to_speech', { text: 'hello' });
+    assert.deepEqual(result.content.map((block) => block.type), ['text', 'resource_link']);
+  });
+
+  test('only links files when inline media is turned off', async () => {
+    server = await startServer({ FAL_INLINE_MEDIA: 'false' });
+    const result = await generate('generate_image', { prompt: 'a fox' });
+    assert.deepEqual(result.content.map((block) => block.type), ['text', 'resource_link']);
+  });
+});
@@ -0,0 +1,45 @@
+import assert from 'node:assert/strict';
+import { LoggingMessageNotificationSchema } from '@modelcontextprotocol/sdk/types.js';
+import { after, before, describe, test } from 'node:test';
+import { startServer, textOf } from './helpers.mjs';
+
+describe('progress notifications', () => {
+  let server;
+  const logs = [];
+  before(async () => {
+    server = await startServer();
+    server.client.setNotificationHandler(LoggingMessageNotificationSchema, (notification) => {
+      logs.push(notification.params);
+    });
+  });
+  after(() => server.close());
+
+  const callWithProgress = async (name, args) => {
+    const updates = [];
+    const result = await server.client.callTool({ name, arguments: args }, undefined, {
+      onprogress: (progress) => updates.push(progress)
+    });
+    return { result, updates };
+  };
+
+  test('relays the fal queue and the steps after it', async () => {
+    const { result, updates } = await callWithProgress('generate_image', { prompt: 'a fox' });
+    assert.equal(result.isError, undefined, textOf(result));
+
+    const messages = updates.map((update) => update.message);
+    assert.ok(messages.includes('Running: Mock backend: running fal-ai/flux-pro/kontext/max/text-to-image'), messages.join('\n'));
+    assert.ok(messages.includes('Saving output'), messages.join('\n'));
+    // Counting up, with no message repeated back to back
+    assert.deepEqual(updates.map((update) => update.progress), updates.map((_, index) => index + 1));
+    assert.ok(messages.every((message, index) => message !== messages[index - 1]));
+  });
+
+  test('forwards model logs as log messages, once each', async () => {
+    logs.length = 0;
+    await callWithProgress('remove_background', { image_url: 'https://example.com/cat.png' });
+    const modelLogs = logs.filter((log) => log.data === 'Mock backend: running fal-ai/bria/background/remove');
+    assert.equal(modelLogs.length, 1);
+    assert.equal(modelLogs[0].level, 'info');
+    assert.equal(modelLogs[0].logger, 'remove_background');
+  });
+});
@@ -0,0 +1,53 @@
+import assert from 'node:assert/strict';
+import { after, before, describe, test } from 'node:test';
+import { startServer } from './helpers.mjs';
+
+describe('prompt guides', () => {
+  let server;
+  before(async () => {
+    server = await startServer();
+  });
+  after(() => server.close());
+
+  test('are listed with their arguments', async () => {
+    const { prompts } = await server.client.listPrompts();
+    assert.deepEqual(prompts.map((prompt) => prompt.name), [
+      'image-generation', 'video-generation', 'music-generation', 'sound-effect',
+      '3d-model', 'text-to-speech', 'inpainting', 'avatar-video'
+    ]);
+
+    const image = prompts.find((prompt) => prompt.name === 'image-generation');
+    assert.deepEqual(image.arguments.map((argument) => [argument.name, argument.required ?? false]), [
+      ['subject', true], ['style', false], ['tool', false], ['aspect', false]
+    ]);
+  });
+
+  test('fill the guide in from the arguments', async () => {
+    const { messages } = await server.client.getPrompt({
+      name: 'video-generation',
+      arguments: { subject: 'waves at dusk', style: 'slow motion', tool: 'image_to_video', duration: '10' }
+    });
+    assert.equal(messages.length, 1);
+    assert.equal(messages[0].role, 'user');
+
+    const { text } = messages[0].content;
+    assert.match(text, /^You are generating videos via fal\.ai/);
+    assert.match(text, /Use the image_to_video tool for this request: waves at dusk/);
+    assert.match(text, /Style: slow motion/);
+    assert.match(text, /Duration: 10/);
+  });
+
+  test('default to the first tool of the guide', async () => {
+    const { messages } = await server.client.getPrompt({ name: 'image-generation', arguments: { subject: 'a fox' } });
+    assert.match(messages[0].content.text, /Use the generate_image tool for this request: a fox/);
+  });
+
+  test('refuse a missing subject, another guide\'s tool or an unknown name', async () => {
+    await assert.rejects(server.client.getPrompt({ name: 'image-generation', arguments: {} }), /needs a subject/);
+    await assert.rejects(
+      server.client.getPrompt({ name: 'image-generation', arguments: { subject: 'a fox', tool: 'text_to_video' } }),
+      /works with generate_image, edit_image, image_to_image, style_transfer, not text_to_video/
+    );
+    await assert.rejects(server.client.getPrompt({ name: 'poetry', arguments: { subject: 'a fox' } }), /Unknown prompt: poetry/);
+  });
+});
@@ -0,0 +1,81 @@
+import assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as path from 'path';
+import { afterEach, describe, test } from 'node:test';
+import { startServer, textOf } from './helpers.mjs';
+
+// The text chunks of a PNG, by keyword
+function pngText(file) {
+  const data = fs.readFileSync(file);
+  const text = {};
+  for (let pos = 8; pos + 8 <= data.length;) {
+    const length = data.readUInt32BE(pos);
+    const type = data.toString('latin1', pos + 4, pos + 8);
+    if (type === 'tEXt') {
+      const body = data.subarray(pos + 8, pos + 8 + length);
+      const separator = body.indexOf(0);
+      text[body.toString('latin1', 0, separator)] = body.toString('latin1', separator + 1);
+    }
+    pos += 12 + length;
+  }
+  return text;
+}
+
+describe('provenance', () => {
+  let server;
+  afterEach(() => server.close());
+
+  const generate = async (name, args) => {
+    const result = await server.call(name, args);
+    assert.equal(result.isError, undefined, textOf(result));
+    return result.structuredContent.files;
+  };
+
+  test('writes a sidecar next to every saved file', async () => {
+    server = await startServer();
+    const files = await generate('generate_image', { prompt: 'a fox', seed: 8, num_images: 2 });
+
+    for (const [index, file] of files.entries()) {
+      const sidecar = JSON.parse(fs.readFileSync(`${file.path}.json`, 'utf-8'));
+      assert.equal(sidecar.tool, 'generate_image');
+      assert.equal(sidecar.model, 'fal-ai/flux-pro/kontext/max/text-to-image');
+      assert.equal(sidecar.seed, 8);
+      assert.equal(sidecar.input.prompt, 'a fox');
+      assert.equal(sidecar.source_url, file.url);
+      assert.deepEqual(sidecar.output, { file: path.basename(file.path), index: index + 1, count: 2 });
+      assert.ok(sidecar.request_id);
+      assert.ok(sidecar.timings.completed_at);
+    }
+  });
+
+  test('lists the input URLs', async () => {
+    server = await startServer();
+    const [file] = await generate('remove_background', { image_url: 'https://example.com/cat.png' });
+    const sidecar = JSON.parse(fs.readFileSync(`${file.path}.json`, 'utf-8'));
+    assert.deepEqual(sidecar.input_urls, ['https://example.com/cat.png']);
+  });
+
+  test('writes no sidecar when turned off', async () => {
+    server = await startServer({ FAL_SIDECARS: 'false' });
+    const [file] = await generate('generate_image', { prompt: 'a fox' });
+    assert.ok(!fs.existsSync(`${file.path}.json`));
+  });
+
+  test('embeds it in PNG files when asked to', async () => {
+    server = await startServer({ FAL_EMBED_METADATA: 'true' });
+    const [file] = await generate('generate_image', { prompt: 'a fox', seed: 8 });
+    const text = pngText(file.path);
+    assert.equal(text.Description, 'a fox');
+    assert.equal(text.Source, 'fal-ai/flux-pro/kontext/max/text-to-image');
+    assert.equal(JSON.parse(text['fal:provenance']).seed, 8);
+  });
+
+  test('embeds it in MP4 files when asked to', async () => {
+    server = await startServer({ FAL_EMBED_METADATA: 'true' });
+    const [file] = await generate('text_to_video', { prompt: 'waves', duration: '5' });
+    const data = fs.readFileSync(file.path);
+    const comment = data.indexOf(Buffer.from('©cmt', 'latin1'));
+    assert.ok(comment > 0, 'has a comment box');
+    assert.ok(data.includes(Buffer.from('"tool":"text_to_video"')));
+  });
+});
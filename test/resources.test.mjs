@@ -0,0 +1,65 @@
+import assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as path from 'path';
+import { setTimeout as delay } from 'node:timers/promises';
+import { ResourceListChangedNotificationSchema, ResourceUpdatedNotificationSchema } from '@modelcontextprotocol/sdk/types.js';
+import { after, before, describe, test } from 'node:test';
+import { startServer } from './helpers.mjs';
+
+describe('media resources', () => {
+  let server;
+  let saved;
+  before(async () => {
+    server = await startServer();
+    const result = await server.call('generate_image', { prompt: 'a fox', save_path: path.join(server.outputDir, 'foxes', 'fox.png') });
+    saved = result.content.find((item) => item.type === 'resource_link');
+  });
+  after(() => server.close());
+
+  test('lists and reads saved media', async () => {
+    const { resources } = await server.client.listResources();
+    assert.deepEqual(resources.map((resource) => resource.name), ['foxes/fox.png']);
+
+    const { contents } = await server.client.readResource({ uri: saved.uri });
+    assert.equal(contents[0].mimeType, 'image/png');
+    assert.deepEqual(Buffer.from(contents[0].blob, 'base64'), fs.readFileSync(path.join(server.outputDir, 'foxes', 'fox.png')));
+  });
+
+  test('describes each file with its size and provenance', async () => {
+    const { resources: [resource] } = await server.client.listResources();
+    assert.equal(resource.uri, 'fal-media://generate_image/foxes%2Ffox.png');
+    assert.match(resource.description, /^generate_image with .+: "a fox"$/);
+    assert.equal(resource._meta['fal.ai/size'], fs.statSync(path.join(server.outputDir, 'foxes', 'fox.png')).size);
+    assert.equal(resource._meta['fal.ai/provenance'].input.prompt, 'a fox');
+  });
+
+  test('offers a URI template', async () => {
+    const { resourceTemplates } = await server.client.listResourceTemplates();
+    assert.deepEqual(resourceTemplates.map((template) => template.uriTemplate), ['fal-media://{tool}/{filename}']);
+  });
+
+  for (const name of ['.history.jsonl', '.spend.jsonl', '.upload-cache.json', 'foxes/fox.png.json', '../outside.png']) {
+    test(`does not read ${name}`, async () => {
+      const uri = `fal-media://other/${encodeURIComponent(name)}`;
+      await assert.rejects(server.client.readResource({ uri }), /Resource not found/);
+    });
+  }
+
+  test('announces new files, and changes to subscribed ones', async () => {
+    let listChanged = 0;
+    const updated = [];
+    server.client.setNotificationHandler(ResourceListChangedNotificationSchema, () => listChanged++);
+    server.client.setNotificationHandler(ResourceUpdatedNotificationSchema, (notification) => updated.push(notification.params.uri));
+    const savePath = path.join(server.outputDir, 'owl.png');
+
+    await server.call('generate_image', { prompt: 'an owl', seed: 1, save_path: savePath });
+    await delay(50);
+    assert.ok(listChanged > 0);
+    assert.deepEqual(updated, []);
+
+    await server.client.subscribeResource({ uri: 'fal-media://generate_image/owl.png' });
+    await server.call('generate_image', { prompt: 'an owl', seed: 2, save_path: savePath });
+    await delay(50);
+    assert.deepEqual(updated, ['fal-media://generate_image/owl.png']);
+  });
+});
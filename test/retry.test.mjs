@@ -0,0 +1,159 @@
+import assert from 'node:assert/strict';
+import { afterEach, beforeEach, describe, test } from 'node:test';
+import { FalClient } from '../dist/fal-client.js';
+import { backoffDelay, isTransient, parseRetryAfter } from '../dist/retry.js';
+
+const ENDPOINT = 'fal-ai/flux/dev';
+
+// fal is reached through the global fetch. Submissions and status polls get the scripted
+// responses, one per attempt (a status code, or a network error code), then succeed.
+function stubFal({ submit = [], status = [] } = {}) {
+  const requests = { submit: 0, status: 0, result: 0 };
+  globalThis.fetch = async (input) => {
+    const url = new URL(input instanceof Request ? input.url : String(input));
+    if (url.hostname !== 'queue.fal.run') throw new Error(`Unexpected request to ${url}`);
+    const match = url.pathname.match(/\/requests\/([\w-]+)(\/status)?$/);
+    const kind = !match ? 'submit' : match[2] ? 'status' : 'result';
+    requests[kind] += 1;
+    const next = { submit, status, result: [] }[kind][requests[kind] - 1] ?? 200;
+    if (typeof next === 'string') throw Object.assign(new TypeError('fetch failed'), { cause: { code: next } });
+
+    const bodies = {
+      submit: { request_id: `request-${requests.submit}`, status: 'IN_QUEUE', queue_position: 0 },
+      status: { status: 'COMPLETED', request_id: match?.[1], logs: [] },
+      result: { images: [{ url: 'https://example.com/fox.png' }], seed: 1 }
+    };
+    const body = next === 200 ? bodies[kind] : { detail: `HTTP ${next}` };
+    return new Response(JSON.stringify(body), { status: next, headers: { 'Content-Type': 'application/json' } });
+  };
+  return requests;
+}
+
+function createClient(circuitBreaker = { threshold: 10, cooldown: 60_000 }) {
+  return new FalClient({
+    apiKey: 'test-key',
+    timeout: 10_000,
+    longTimeout: 10_000,
+    retry: { maxAttempts: 3, baseDelay: 1, maxDelay: 5 },
+    circuitBreaker,
+    concurrency: { fast: 1, long: 1, queue: 10, models: {} }
+  });
+}
+
+describe('submitting jobs', () => {
+  const realFetch = globalThis.fetch;
+  let client;
+  beforeEach(() => {
+    client = createClient();
+  });
+  afterEach(() => {
+    globalThis.fetch = realFetch;
+  });
+
+  test('does not resubmit after a dropped connection', async () => {
+    const requests = stubFal({ submit: ['ECONNRESET'] });
+    await assert.rejects(client.submit(ENDPOINT, { prompt: 'a fox' }));
+    assert.equal(requests.submit, 1);
+  });
+
+  test('does not resubmit after a server error', async () => {
+    const requests = stubFal({ submit: [502] });
+    await assert.rejects(client.submit(ENDPOINT, { prompt: 'a fox' }));
+    assert.equal(requests.submit, 1);
+  });
+
+  test('does not resubmit a synchronous call after a server error', async () => {
+    const requests = stubFal({ submit: [503] });
+    await assert.rejects(client.run(ENDPOINT, { prompt: 'a fox' }), /not resubmitted/);
+    assert.equal(requests.submit, 1);
+  });
+
+  test('resubmits when no connection was made', async () => {
+    const requests = stubFal({ submit: ['ECONNREFUSED'] });
+    assert.equal(await client.submit(ENDPOINT, { prompt: 'a fox' }), 'request-2');
+    assert.equal(requests.submit, 2);
+  });
+
+  test('resubmits after a rate limit', async () => {
+    const requests = stubFal({ submit: [429] });
+    assert.equal(await client.submit(ENDPOINT, { prompt: 'a fox' }), 'request-2');
+    assert.equal(requests.submit, 2);
+  });
+});
+
+describe('retrying fal calls', () => {
+  const realFetch = globalThis.fetch;
+  afterEach(() => {
+    globalThis.fetch = realFetch;
+  });
+
+  test('resumes waiting for a queued job instead of resubmitting it', async () => {
+    const requests = stubFal({ status: ['ECONNRESET'] });
+    const result = await createClient().run(ENDPOINT, { prompt: 'a fox' });
+    assert.equal(result.retries, 1);
+    assert.equal(result.data.seed, 1);
+    assert.equal(requests.submit, 1);
+  });
+
+  test('gives up after the last attempt, saying how many were made', async () => {
+    stubFal({ status: ['ECONNRESET', 'ECONNRESET', 'ECONNRESET'] });
+    const client = createClient();
+    const error = await client.run(ENDPOINT, { prompt: 'a fox' }).catch((caught) => caught);
+    assert.match(client.handleError(error).message, /gave up after 3 attempts/);
+  });
+
+  test('does not retry validation errors', async () => {
+    const requests = stubFal({ submit: [422] });
+    const client = createClient();
+    const error = await client.run(ENDPOINT, { prompt: 'a fox' }).catch((caught) => caught);
+    assert.match(client.handleError(error).message, /validation error/);
+    assert.equal(requests.submit, 1);
+  });
+
+  test('fails fast once fal has failed too often in a row', async () => {
+    const requests = stubFal({ submit: ['ECONNRESET', 'ECONNRESET'] });
+    const client = createClient({ threshold: 2, cooldown: 60_000 });
+    await assert.rejects(client.submit(ENDPOINT, {}));
+    await assert.rejects(client.submit(ENDPOINT, {}));
+
+    const error = await client.submit(ENDPOINT, {}).catch((caught) => caught);
+    assert.match(client.handleError(error).message, /appears to be down: the last 2 requests failed/);
+    assert.equal(requests.submit, 2);
+  });
+
+  test('lets requests through again after the cooldown', async () => {
+    stubFal({ submit: ['ECONNRESET'] });
+    const client = createClient({ threshold: 1, cooldown: 50 });
+    await assert.rejects(client.submit(ENDPOINT, {}));
+    await assert.rejects(client.submit(ENDPOINT, {}), /Circuit open/);
+    await new Promise((resolve) => setTimeout(resolve, 60));
+    assert.equal(await client.submit(ENDPOINT, {}), 'request-2');
+  });
+});
+
+describe('retry policy', () => {
+  test('retries rate limits, server errors and network failures only', () => {
+    for (const status of [408, 429, 500, 502, 503, 504]) assert.equal(isTransient({ status }), true, `${status}`);
+    for (const status of [400, 401, 404, 422]) assert.equal(isTransient({ status }), false, `${status}`);
+    assert.equal(isTransient({ status: 504, timeoutType: 'user' }), false);
+    assert.equal(isTransient(Object.assign(new TypeError('fetch failed'), { cause: { code: 'ECONNRESET' } })), true);
+    assert.equal(isTransient(new Error('Invalid input')), false);
+  });
+
+  test('reads Retry-After as seconds or a date', () => {
+    assert.equal(parseRetryAfter('3'), 3000);
+    const later = parseRetryAfter(new Date(Date.now() + 10_000).toUTCString());
+    assert.ok(later > 8000 && later <= 10_000, `${later}`);
+    assert.equal(parseRetryAfter('soon'), undefined);
+    assert.equal(parseRetryAfter(null), undefined);
+  });
+
+  test('backs off exponentially, never sooner than Retry-After', () => {
+    const policy = { maxAttempts: 5, baseDelay: 100, maxDelay: 1000 };
+    for (let attempt = 1; attempt <= 6; attempt++) {
+      const delay = backoffDelay(attempt, policy);
+      assert.ok(delay >= 0 && delay <= Math.min(1000, 100 * 2 ** (attempt - 1)), `attempt ${attempt}: ${delay}`);
+    }
+    assert.ok(backoffDelay(1, policy, 5000) >= 5000);
+  });
+});
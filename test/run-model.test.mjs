@@ -0,0 +1,42 @@
+import assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as path from 'path';
+import { after, before, describe, test } from 'node:test';
+import { FIXTURES_DIR, startServer, textOf } from './helpers.mjs';
+
+describe('run_model', () => {
+  let server;
+  before(async () => {
+    server = await startServer({ FAL_MOCK: 'replay', FAL_MOCK_FIXTURES: FIXTURES_DIR });
+  });
+  after(() => server.close());
+
+  test('saves media found anywhere in the result and returns the rest', async () => {
+    const saveDir = path.join(server.outputDir, 'tagged');
+    const result = await server.call('run_model', {
+      endpoint: 'acme/image-tagger',
+      input: { image_url: 'https://example.com/cat.png' },
+      save_dir: saveDir
+    });
+    assert.equal(result.isError, undefined, textOf(result));
+
+    const { files, model } = result.structuredContent;
+    assert.equal(model, 'acme/image-tagger');
+    assert.equal(files.length, 2);
+    for (const file of files) {
+      assert.equal(path.dirname(file.path), saveDir);
+      assert.ok(fs.existsSync(file.path));
+    }
+
+    const text = textOf(result);
+    assert.match(text, /"tags": \[\s*"cat",\s*"sofa"\s*\]/);
+    assert.match(text, /"label": "cat"/);
+    assert.doesNotMatch(text, /fixtures\//, 'file URLs are listed as saved files, not in the JSON');
+  });
+
+  test('refuses what is not an endpoint id', async () => {
+    const result = await server.call('run_model', { endpoint: 'https://fal.run/acme/image-tagger', input: {} });
+    assert.equal(result.isError, true);
+    assert.match(textOf(result), /Expected a fal endpoint id/);
+  });
+});
@@ -0,0 +1,152 @@
+import assert from 'node:assert/strict';
+import { after, before, describe, test } from 'node:test';
+import { Scheduler } from '../dist/scheduler.js';
+import { startServer, textOf } from './helpers.mjs';
+
+// A task that runs until finish() is called, noting when it started
+function pending(started, name) {
+  let finish;
+  const done = new Promise((resolve) => {
+    finish = resolve;
+  });
+  return {
+    task: () => {
+      started.push(name);
+      return done;
+    },
+    finish: () => finish(name)
+  };
+}
+
+const settle = () => new Promise((resolve) => setImmediate(resolve));
+
+describe('scheduler', () => {
+  const options = { fast: 1, long: 1, queue: 10, models: {} };
+
+  test('keeps fast and long-running requests in separate pools', async () => {
+    const scheduler = new Scheduler(options);
+    const started = [];
+    const video = pending(started, 'video');
+    const image = pending(started, 'image');
+    const second = pending(started, 'second image');
+
+    const running = [
+      scheduler.run('long', 'video-model', video.task),
+      scheduler.run('fast', 'image-model', image.task),
+      scheduler.run('fast', 'image-model', second.task)
+    ];
+    await settle();
+    assert.deepEqual(started, ['video', 'image']);
+
+    image.finish();
+    await settle();
+    assert.deepEqual(started, ['video', 'image', 'second image']);
+    video.finish();
+    second.finish();
+    await Promise.all(running);
+  });
+
+  test('caps individual models within their pool', async () => {
+    const scheduler = new Scheduler({ ...options, fast: 3, models: { 'slow-model': 1 } });
+    const started = [];
+    const first = pending(started, 'slow 1');
+    const second = pending(started, 'slow 2');
+    const other = pending(started, 'other');
+
+    const running = [
+      scheduler.run('fast', 'slow-model', first.task),
+      scheduler.run('fast', 'slow-model', second.task),
+      scheduler.run('fast', 'other-model', other.task)
+    ];
+    await settle();
+    assert.deepEqual(started, ['slow 1', 'other']);
+
+    first.finish();
+    await settle();
+    assert.deepEqual(started, ['slow 1', 'other', 'slow 2']);
+    second.finish();
+    other.finish();
+    await Promise.all(running);
+  });
+
+  test('reports queue positions as requests ahead start', async () => {
+    const scheduler = new Scheduler(options);
+    const started = [];
+    const first = pending(started, 'first');
+    const second = pending(started, 'second');
+    const third = pending(started, 'third');
+    const positions = [];
+
+    const running = [
+      scheduler.run('fast', 'model', first.task),
+      scheduler.run('fast', 'model', second.task),
+      scheduler.run('fast', 'model', third.task, { onQueued: (position) => positions.push(position) })
+    ];
+    await settle();
+    assert.deepEqual(positions, [2]);
+
+    first.finish();
+    await settle();
+    assert.deepEqual(positions, [2, 1]);
+    second.finish();
+    await settle();
+    third.finish();
+    await Promise.all(running);
+    assert.deepEqual(started, ['first', 'second', 'third']);
+  });
+
+  test('refuses new requests once the local queue is full', async () => {
+    const scheduler = new Scheduler({ ...options, queue: 1 });
+    const started = [];
+    const first = pending(started, 'first');
+    const second = pending(started, 'second');
+
+    const running = [scheduler.run('fast', 'model', first.task), scheduler.run('fast', 'model', second.task)];
+    await assert.rejects(scheduler.run('fast', 'model', async () => {}), (error) => error.message === 'Local queue full' && error.waiting === 1);
+
+    first.finish();
+    await settle();
+    second.finish();
+    await Promise.all(running);
+  });
+
+  test('drops a waiting request when it is cancelled', async () => {
+    const scheduler = new Scheduler(options);
+    const started = [];
+    const first = pending(started, 'first');
+    const controller = new AbortController();
+
+    const running = scheduler.run('fast', 'model', first.task);
+    const waiting = scheduler.run('fast', 'model', async () => started.push('cancelled'), { signal: controller.signal });
+    controller.abort();
+    await assert.rejects(waiting, /Request cancelled/);
+
+    first.finish();
+    await running;
+    await settle();
+    assert.deepEqual(started, ['first']);
+  });
+});
+
+describe('queued tool calls', () => {
+  let server;
+  before(async () => {
+    server = await startServer({ FAL_CONCURRENCY_FAST: '1' });
+  });
+  after(() => server.close());
+
+  test('wait for a free slot, saying so as progress', async () => {
+    const calls = ['a fox', 'an owl'].map(async (prompt) => {
+      const updates = [];
+      const result = await server.client.callTool({ name: 'generate_image', arguments: { prompt } }, undefined, {
+        onprogress: (progress) => updates.push(progress.message)
+      });
+      assert.equal(result.isError, undefined, textOf(result));
+      return updates;
+    });
+
+    const updates = await Promise.all(calls);
+    const queued = updates.filter((messages) => messages.includes('Queued locally (position 1)'));
+    assert.equal(queued.length, 1, JSON.stringify(updates));
+  });
+});
@@ -0,0 +1,102 @@
+import assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as path from 'path';
+import { after, before, describe, test } from 'node:test';
+import { startServer, textOf } from './helpers.mjs';
+
+// Sample URLs for required *_url arguments, by the kind of media they take
+const SAMPLE_URLS = {
+  video: 'https://example.com/clip.mp4',
+  audio: 'https://example.com/voice.mp3',
+  model: 'https://example.com/chair.glb',
+  image: 'https://example.com/cat.png'
+};
+
+// The smallest arguments a tool accepts, made from its input schema
+function requiredArguments(tool) {
+  const { properties, required = [] } = tool.inputSchema;
+  return Object.fromEntries(required.map((name) => {
+    const property = properties[name];
+    if (property.enum) return [name, property.enum[0]];
+    if (name.endsWith('_url')) return [name, SAMPLE_URLS[Object.keys(SAMPLE_URLS).find((kind) => name.includes(kind)) ?? 'image']];
+    return [name, 'a fox'];
+  }));
+}
+
+// The MCP client checks structuredContent against the tool's outputSchema on every call,
+// and throws when it does not match or is missing
+describe('structured tool output', () => {
+  let server;
+  let tools;
+  before(async () => {
+    server = await startServer({ FAL_CACHE: 'true' });
+    ({ tools } = await server.client.listTools());
+  });
+  after(() => server.close());
+
+  const call = async (name, args) => {
+    const result = await server.call(name, args);
+    assert.notEqual(result.isError, true, `${name}: ${textOf(result)}`);
+    assert.ok(result.structuredContent, name);
+    return result;
+  };
+  // Tools that run one fal model with arguments of their own
+  const mediaTools = () => tools.filter((tool) => tool.inputSchema.properties.async && !['run_model', 'regenerate'].includes(tool.name));
+
+  test('every tool declares an output schema', () => {
+    for (const tool of tools) assert.equal(tool.outputSchema?.type, 'object', tool.name);
+  });
+
+  test('every media tool describes what it saved', async () => {
+    for (const tool of mediaTools()) {
+      const { structuredContent } = await call(tool.name, requiredArguments(tool));
+      assert.equal(structuredContent.tool, tool.name);
+      assert.ok(structuredContent.files.length > 0, tool.name);
+      for (const file of structuredContent.files) {
+        assert.ok(file.url && file.mime_type, tool.name);
+        if (file.path) assert.ok(fs.existsSync(file.path), `${tool.name}: ${file.path}`);
+      }
+    }
+  });
+
+  test('dry runs and async submissions match the same schemas', async () => {
+    for (const tool of mediaTools()) {
+      await call(tool.name, { ...requiredArguments(tool), dry_run: true });
+    }
+    const generateImage = tools.find((tool) => tool.name === 'generate_image');
+    const { structuredContent: job } = await call('generate_image', { ...requiredArguments(generateImage), seed: 3, async: true });
+    // The mock backend reports a job running once, then done
+    await call('job_status', { job_id: job.request_id });
+    await call('job_status', { job_id: job.request_id });
+    await call('list_jobs', {});
+    assert.equal((await call('job_result', { job_id: job.request_id })).structuredContent.status, 'completed');
+
+    const { structuredContent: other } = await call('generate_image', { ...requiredArguments(generateImage), seed: 4, async: true });
+    await call('job_cancel', { job_id: other.request_id });
+  });
+
+  test('the other tools match their schemas too', async () => {
+    const manifest = path.join(server.dir, 'prompts.csv');
+    fs.writeFileSync(manifest, 'prompt\na fox\nan owl\n');
+    const { structuredContent: { generations: [generation] } } = await call('list_generations', {});
+
+    const calls = {
+      run_model: { endpoint: 'fal-ai/flux/dev', input: { prompt: 'a fox' } },
+      get_generation: { id: generation.id },
+      regenerate: { id: generation.id },
+      estimate_cost: { tool: 'text_to_video', arguments: { prompt: 'waves' } },
+      spending_report: {},
+      list_models: {},
+      run_workflow: { steps: [{ tool: 'generate_image', arguments: { prompt: 'a fox' } }, { tool: 'remove_background' }] },
+      run_batch: { manifest, tool: 'generate_image' },
+      compare_models: { tool: 'generate_image', arguments: { prompt: 'a fox' }, models: ['flux-dev', 'flux-schnell'] },
+      cache_stats: {},
+      cache_clear: {},
+      show_config: {}
+    };
+    const covered = new Set([...mediaTools().map((tool) => tool.name), 'job_status', 'job_result', 'job_cancel', 'list_jobs', 'list_generations']);
+    assert.deepEqual(tools.map((tool) => tool.name).filter((name) => !covered.has(name)).sort(), Object.keys(calls).sort());
+
+    for (const [name, args] of Object.entries(calls)) await call(name, args);
+  });
+});
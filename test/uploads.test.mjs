@@ -0,0 +1,95 @@
+import assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as http from 'http';
+import * as path from 'path';
+import { after, afterEach, before, describe, test } from 'node:test';
+import { FIXTURES_DIR, startServer, textOf } from './helpers.mjs';
+
+// Uploads go to a local endpoint (FAL_UPLOAD_URL) that counts them
+describe('uploading local inputs', () => {
+  let uploads = 0;
+  let endpoint;
+  let server;
+  const uploadServer = http.createServer((req, res) => {
+    req.resume().on('end', () => {
+      uploads += 1;
+      res.end(JSON.stringify({ url: `https://example.com/uploads/${uploads}.png` }));
+    });
+  });
+
+  before(async () => {
+    await new Promise((resolve) => uploadServer.listen(0, '127.0.0.1', resolve));
+    endpoint = `http://127.0.0.1:${uploadServer.address().port}/`;
+  });
+  after(() => new Promise((resolve) => uploadServer.close(resolve)));
+  afterEach(() => server.close());
+
+  const withInput = async (env) => {
+    uploads = 0;
+    server = await startServer({ FAL_UPLOAD_URL: endpoint, ...env });
+    const input = path.join(server.dir, 'input.png');
+    fs.copyFileSync(path.join(FIXTURES_DIR, 'media', 'fal-ai-bria-background-remove-1.png'), input);
+    return input;
+  };
+
+  test('uploads once the call goes ahead', async () => {
+    const input = await withInput({});
+    const result = await server.call('upscale_image', { image_url: input });
+    assert.equal(result.isError, undefined, textOf(result));
+    assert.equal(uploads, 1);
+
+    const generation = await server.call('get_generation', { id: result.structuredContent.generation });
+    assert.equal(generation.structuredContent.arguments.image_url, input);
+  });
+
+  test('uploads nothing for a dry run', async () => {
+    const input = await withInput({});
+    await server.call('upscale_image', { image_url: input, dry_run: true });
+    assert.equal(uploads, 0);
+  });
+
+  test('uploads nothing for a refused call', async () => {
+    const input = await withInput({ FAL_CONFIRM_FALLBACK: 'deny', FAL_CONFIRM_TOOLS: 'upscale_image' });
+    const result = await server.call('upscale_image', { image_url: input });
+    assert.equal(result.isError, true);
+    assert.equal(uploads, 0);
+  });
+
+  test('uploads nothing for a call over budget', async () => {
+    const input = await withInput({ FAL_BUDGET_DAILY: '0.001' });
+    const result = await server.call('upscale_image', { image_url: input });
+    assert.equal(result.isError, true);
+    assert.equal(uploads, 0);
+  });
+
+  test('uploads nothing for a cache hit', async () => {
+    const env = { FAL_CACHE: 'true' };
+    const input = await withInput(env);
+    const args = { prompt: 'make it a watercolour', image_url: input, seed: 4 };
+    const first = await server.call('edit_image', args);
+    assert.equal(first.structuredContent.cache.hit, false, textOf(first));
+    assert.equal(uploads, 1);
+
+    // A new process, so the upload is not remembered, with the same result cache
+    const again = await startServer({ FAL_UPLOAD_URL: endpoint, ...env, FAL_OUTPUT_DIR: server.outputDir });
+    try {
+      const second = await again.call('edit_image', args);
+      assert.equal(second.structuredContent.cache.hit, true, textOf(second));
+      assert.equal(uploads, 1);
+    } finally {
+      await again.close();
+    }
+  });
+
+  test('uploads nothing for a refused comparison', async () => {
+    const input = await withInput({ FAL_CONFIRM_FALLBACK: 'deny', FAL_CONFIRM_MIN_USD: '0.0001' });
+    const result = await server.call('compare_models', {
+      tool: 'edit_image',
+      arguments: { prompt: 'make it a watercolour', image_url: input },
+      models: ['default', 'kontext-pro']
+    });
+    assert.equal(result.isError, true);
+    assert.match(textOf(result), /needs the user's confirmation/);
+    assert.equal(uploads, 0);
+  });
+});
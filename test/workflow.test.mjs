@@ -0,0 +1,145 @@
+import assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { after, before, describe, test } from 'node:test';
+import { startServer, textOf } from './helpers.mjs';
+
+describe('run_workflow', () => {
+  let server;
+  let configDir;
+  before(async () => {
+    configDir = fs.mkdtempSync(path.join(os.tmpdir(), 'fal-mcp-config-'));
+    const config = path.join(configDir, 'fal.config.json');
+    fs.writeFileSync(config, JSON.stringify({
+      workflows: {
+        'cutout': {
+          description: 'A subject on a transparent background',
+          inputs: { subject: 'What to draw' },
+          steps: [
+            { tool: 'generate_image', arguments: { prompt: 'a {{inputs.subject}}, studio photo' } },
+            { tool: 'remove_background' }
+          ]
+        }
+      }
+    }));
+    server = await startServer({ FAL_CONFIG: config });
+  });
+  after(async () => {
+    await server.close();
+    fs.rmSync(configDir, { recursive: true, force: true });
+  });
+
+  const generations = async () => (await server.call('list_generations', {})).structuredContent.generations;
+  const urlOf = (step) => step.result.files[0].url;
+
+  test('chains a list of steps, passing each output to the next', async () => {
+    const result = await server.call('run_workflow', {
+      steps: [
+        { tool: 'generate_image', arguments: { prompt: 'a fox' } },
+        { tool: 'remove_background' },
+        { tool: 'upscale_image' }
+      ]
+    });
+    assert.equal(result.isError, undefined, textOf(result));
+    const { status, completed, steps } = result.structuredContent;
+    assert.equal(status, 'completed');
+    assert.equal(completed, 3);
+    assert.deepEqual(steps.map((step) => [step.id, step.tool, step.status]), [
+      ['1', 'generate_image', 'completed'],
+      ['2', 'remove_background', 'completed'],
+      ['3', 'upscale_image', 'completed']
+    ]);
+
+    const [upscale, removal] = await generations();
+    assert.equal(removal.arguments.image_url, urlOf(steps[0]));
+    assert.equal(upscale.arguments.image_url, urlOf(steps[1]));
+
+    // Only the last output is downloaded
+    assert.equal(steps[0].result.files[0].path, undefined);
+    assert.equal(steps[1].result.files[0].path, undefined);
+    assert.ok(fs.existsSync(steps[2].result.files[0].path));
+  });
+
+  test('fills {{step.kind}} references from independent steps', async () => {
+    const result = await server.call('run_workflow', {
+      steps: [
+        { id: 'face', tool: 'generate_image', arguments: { prompt: 'a portrait' } },
+        { id: 'voice', tool: 'text_to_speech', arguments: { text: 'Hello there' }, needs: [] },
+        { id: 'talk', tool: 'avatar_video', arguments: { image_url: '{{face.image}}', audio_url: '{{voice.audio}}' } }
+      ]
+    });
+    assert.equal(result.isError, undefined, textOf(result));
+    const [face, voice] = result.structuredContent.steps;
+
+    const [avatar] = await generations();
+    assert.equal(avatar.tool, 'avatar_video');
+    assert.equal(avatar.arguments.image_url, urlOf(face));
+    assert.equal(avatar.arguments.audio_url, urlOf(voice));
+  });
+
+  test('saves intermediate outputs when asked to', async () => {
+    const result = await server.call('run_workflow', {
+      steps: [{ tool: 'generate_image', arguments: { prompt: 'a fox' } }, { tool: 'remove_background' }],
+      save_intermediates: true
+    });
+    for (const step of result.structuredContent.steps) assert.ok(fs.existsSync(step.result.files[0].path), step.id);
+  });
+
+  test('skips the steps after one that fails', async () => {
+    const result = await server.call('run_workflow', {
+      steps: [
+        { tool: 'generate_image', arguments: { prompt: 'a fox' } },
+        { tool: 'upscale_video', arguments: { video_url: '{{1.video}}' } },
+        { tool: 'remove_background', arguments: { image_url: '{{2}}' } }
+      ]
+    });
+    assert.equal(result.isError, true);
+    const { status, completed, steps } = result.structuredContent;
+    assert.equal(status, 'partial');
+    assert.equal(completed, 1);
+    assert.equal(steps[1].status, 'failed');
+    assert.match(steps[1].error, /Step 1 produced no video output for \{\{1\.video\}\}/);
+    assert.deepEqual([steps[2].status, steps[2].error], ['skipped', 'needs 2']);
+  });
+
+  test('refuses cycles and unknown steps before running anything', async () => {
+    const recorded = (await generations()).length;
+
+    const cycle = await server.call('run_workflow', {
+      steps: [
+        { id: 'a', tool: 'remove_background', needs: ['b'] },
+        { id: 'b', tool: 'upscale_image', needs: ['a'] }
+      ]
+    });
+    assert.equal(cycle.isError, true);
+    assert.match(textOf(cycle), /Workflow steps form a cycle: a → b → a/);
+
+    const unknown = await server.call('run_workflow', {
+      steps: [{ tool: 'remove_background', arguments: { image_url: '{{fox.image}}' } }]
+    });
+    assert.equal(unknown.isError, true);
+    assert.match(textOf(unknown), /Step 1 refers to unknown step "fox"/);
+
+    assert.equal((await generations()).length, recorded);
+  });
+
+  test('runs a workflow saved in the config file', async () => {
+    const result = await server.call('run_workflow', { name: 'cutout', inputs: { subject: 'fox' } });
+    assert.equal(result.isError, undefined, textOf(result));
+    assert.equal(result.structuredContent.name, 'cutout');
+    assert.equal(result.structuredContent.completed, 2);
+
+    const [, generation] = await generations();
+    assert.equal(generation.arguments.prompt, 'a fox, studio photo');
+  });
+
+  test('asks for the inputs of a saved workflow', async () => {
+    const result = await server.call('run_workflow', { name: 'cutout' });
+    assert.equal(result.isError, true);
+    assert.match(textOf(result), /Missing workflow input "subject": What to draw/);
+
+    const unknown = await server.call('run_workflow', { name: 'poster' });
+    assert.match(textOf(unknown), /Unknown workflow "poster"\. Saved workflows: cutout/);
+  });
+});